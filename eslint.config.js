@@ -19,10 +19,18 @@ export default tseslint.config(
     },
     rules: {
       ...reactHooks.configs.recommended.rules,
+      // `({ node, ...props }) => …` drops react-markdown's AST node before spreading onto the DOM
+      '@typescript-eslint/no-unused-vars': ['error', { ignoreRestSiblings: true }],
       'react-refresh/only-export-components': [
         'warn',
         { allowConstantExport: true },
       ],
     },
+  },
+  {
+    files: ['server/**/*.ts', 'scripts/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
   }
 );
@@ -0,0 +1,40 @@
+// Keeps the app shell available offline so cached lessons (IndexedDB) stay readable.
+// API calls are never cached here; the app handles those itself.
+const SHELL_CACHE = 'free-ed-shell-v1';
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.add('/')));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys().then(keys =>
+      Promise.all(keys.filter(k => k !== SHELL_CACHE).map(k => caches.delete(k)))
+    )
+  );
+  self.clients.claim();
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // Network first, falling back to the last good copy (index.html for navigations)
+  event.respondWith(
+    fetch(request)
+      .then(resp => {
+        if (resp.ok) {
+          const copy = resp.clone();
+          caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+        }
+        return resp;
+      })
+      .catch(() =>
+        caches.match(request).then(hit => hit ?? (request.mode === 'navigate' ? caches.match('/') : undefined))
+      )
+  );
+});
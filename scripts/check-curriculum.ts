@@ -0,0 +1,19 @@
+// Validates every syllabus in src/data/syllabi the same way the app loads them.
+// Exits non-zero on errors so it can gate CI; warnings are printed only.
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { buildCatalog } from '../src/data/curriculum/catalog';
+
+const dir = join(import.meta.dirname, '../src/data/syllabi');
+const sources = readdirSync(dir)
+  .filter(name => /\.(json|ya?ml)$/i.test(name))
+  .map(name => ({ name, text: readFileSync(join(dir, name), 'utf8') }));
+
+const { syllabi, subjects, topics, issues } = buildCatalog(sources);
+
+for (const issue of issues) {
+  console.log(`${issue.severity.toUpperCase()} ${issue.source}${issue.path ? ` ${issue.path}` : ''}: ${issue.message}`);
+}
+console.log(`${syllabi.length} syllabi, ${subjects.length} subjects, ${topics.length} topics`);
+
+if (issues.some(i => i.severity === 'error')) process.exit(1);
@@ -0,0 +1,46 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AccountStore } from './accounts';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'free-ed-accounts-'));
+});
+
+afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+describe('AccountStore.register', () => {
+  it('lets only one of two simultaneous sign-ups for an email through', async () => {
+    const store = new AccountStore(dir);
+    const results = await Promise.allSettled([
+      store.register('ada@example.com', 'password-one', 'student'),
+      store.register('ada@example.com', 'password-two', 'student'),
+    ]);
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { status: 409 } });
+    expect(JSON.parse(readFileSync(join(dir, 'accounts.json'), 'utf8')).accounts).toHaveLength(1);
+  });
+
+  it('keeps the account after a restart', async () => {
+    const user = await new AccountStore(dir).register('ada@example.com', 'password-one', 'teacher');
+    expect(await new AccountStore(dir).authenticate('ada@example.com', 'password-one')).toEqual(user);
+  });
+});
+
+describe('AccountStore writes', () => {
+  it('keeps saving after one write fails', async () => {
+    const store = new AccountStore(dir);
+    // A directory where the temporary file goes makes the next write fail
+    const blocker = join(dir, 'accounts.json.tmp');
+    mkdirSync(blocker);
+    await expect(store.register('ada@example.com', 'password-one', 'student')).rejects.toThrow();
+    rmSync(blocker, { recursive: true });
+
+    await store.register('grace@example.com', 'password-two', 'student');
+    const { accounts } = JSON.parse(readFileSync(join(dir, 'accounts.json'), 'utf8'));
+    expect(accounts.map((a: { email: string }) => a.email)).toContain('grace@example.com');
+  });
+});
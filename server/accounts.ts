@@ -0,0 +1,218 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import type { User, UserRole } from '../src/types';
+import { config } from './config';
+import { HttpError } from './errors';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/** Bump when the layout of accounts.json changes */
+const FILE_VERSION = 2;
+const KEY_LENGTH = 64;
+
+interface Account extends User {
+  /** `scrypt$<salt>$<hash>`, both base64 */
+  passwordHash: string;
+}
+
+interface Session {
+  accountId: string;
+  expiresAt: number;
+}
+
+/** Synced study data; opaque to the server apart from its size */
+export interface AccountData {
+  updatedAt: number;
+  data: unknown;
+}
+
+interface AccountFile {
+  version: number;
+  accounts: Account[];
+  /** Keyed by the SHA-256 of the session token, so the file alone can't sign anyone in */
+  sessions: Record<string, Session>;
+}
+
+/** Layout 1 also held every account's synced data */
+interface AccountFileV1 extends AccountFile {
+  data?: Record<string, AccountData>;
+}
+
+/** Replace a file in one step, so a crash mid-write leaves the old copy */
+async function writeAtomic(path: string, text: string) {
+  const tmp = `${path}.tmp`;
+  await writeFile(tmp, text, { mode: 0o600 });
+  await rename(tmp, path);
+}
+
+function writeAtomicSync(path: string, text: string) {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, text, { mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/** Hashed against when the email is unknown, so both failures take as long */
+const DUMMY_HASH = hashPassword(randomUUID());
+
+const tokenKey = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const publicUser = ({ id, email, role, createdAt }: Account): User => ({ id, email, role, createdAt });
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Validate and normalise sign-up or sign-in credentials */
+export function readCredentials(body: unknown): { email: string; password: string } {
+  const { email, password } = (body ?? {}) as Record<string, unknown>;
+  const normalized = typeof email === 'string' ? email.trim().toLowerCase() : '';
+  if (!EMAIL.test(normalized) || normalized.length > 254) throw new HttpError(400, 'Enter a valid email address.');
+  if (typeof password !== 'string' || password.length < 8 || password.length > 200) {
+    throw new HttpError(400, 'Passwords need 8–200 characters.');
+  }
+  return { email: normalized, password };
+}
+
+/**
+ * Accounts and their sign-in sessions, kept in one JSON file under DATA_DIR,
+ * and each account's synced study data in a file of its own under
+ * DATA_DIR/data, so one student's upload never rewrites anyone else's.
+ * Writes to each file are serialised and replace it atomically.
+ */
+export class AccountStore {
+  private file: AccountFile;
+  private path: string;
+  private dataDir: string;
+  private writing: Promise<void> = Promise.resolve();
+  private dataWrites = new Map<string, Promise<void>>();
+
+  constructor(dir: string) {
+    this.dataDir = join(dir, 'data');
+    mkdirSync(this.dataDir, { recursive: true });
+    this.path = join(dir, 'accounts.json');
+    this.file = this.load();
+  }
+
+  /** Account ids are server-made UUIDs, so they are safe as file names */
+  private dataPath(accountId: string): string {
+    return join(this.dataDir, `${accountId}.json`);
+  }
+
+  private load(): AccountFile {
+    if (!existsSync(this.path)) return { version: FILE_VERSION, accounts: [], sessions: {} };
+    const file = JSON.parse(readFileSync(this.path, 'utf8')) as AccountFileV1;
+    if (file.version > FILE_VERSION) {
+      throw new Error(`${this.path} is version ${file.version}, newer than this server (${FILE_VERSION})`);
+    }
+    if (file.version === 1) {
+      // Move synced data out to its per-account files before dropping it from accounts.json
+      for (const [accountId, entry] of Object.entries(file.data ?? {})) {
+        writeAtomicSync(this.dataPath(accountId), JSON.stringify(entry));
+      }
+      const { data, ...rest } = file;
+      const upgraded: AccountFile = { ...rest, version: FILE_VERSION };
+      writeAtomicSync(this.path, JSON.stringify(upgraded));
+      return upgraded;
+    }
+    return file;
+  }
+
+  private save(): Promise<void> {
+    const text = JSON.stringify(this.file);
+    // A failed write is reported to its caller only, not to every write queued after it
+    this.writing = this.writing.catch(() => {}).then(() => writeAtomic(this.path, text));
+    return this.writing;
+  }
+
+  async register(email: string, password: string, role: UserRole): Promise<User> {
+    const checkAvailable = () => {
+      if (this.file.accounts.some(a => a.email === email)) {
+        throw new HttpError(409, 'An account with that email already exists.');
+      }
+    };
+    checkAvailable();
+    const passwordHash = await hashPassword(password);
+    // Another sign-up for the same email may have gone through while this one was hashing
+    checkAvailable();
+    const account: Account = { id: randomUUID(), email, role, createdAt: Date.now(), passwordHash };
+    this.file.accounts.push(account);
+    await this.save();
+    return publicUser(account);
+  }
+
+  /** The account for these credentials, or a 401 */
+  async authenticate(email: string, password: string): Promise<User> {
+    const account = this.file.accounts.find(a => a.email === email);
+    const ok = await verifyPassword(password, account?.passwordHash ?? await DUMMY_HASH);
+    if (!account || !ok) throw new HttpError(401, 'Wrong email or password.');
+    return publicUser(account);
+  }
+
+  /** Open a session for the account and return its token */
+  async createSession(accountId: string): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    this.pruneSessions();
+    this.file.sessions[tokenKey(token)] = { accountId, expiresAt: Date.now() + config.sessionTtlMs };
+    await this.save();
+    return token;
+  }
+
+  /** The signed-in user for a session token, if the session is still valid */
+  userForSession(token: string | undefined): User | null {
+    const session = token ? this.file.sessions[tokenKey(token)] : undefined;
+    if (!session || session.expiresAt <= Date.now()) return null;
+    const account = this.file.accounts.find(a => a.id === session.accountId);
+    return account ? publicUser(account) : null;
+  }
+
+  async endSession(token: string): Promise<void> {
+    delete this.file.sessions[tokenKey(token)];
+    await this.save();
+  }
+
+  /** The account's synced data; null until its first sync */
+  async getData(accountId: string): Promise<AccountData | null> {
+    await this.dataWrites.get(accountId)?.catch(() => {});
+    try {
+      return JSON.parse(await readFile(this.dataPath(accountId), 'utf8')) as AccountData;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async setData(accountId: string, data: unknown): Promise<AccountData> {
+    const entry = { updatedAt: Date.now(), data };
+    const text = JSON.stringify(entry);
+    const write = (this.dataWrites.get(accountId) ?? Promise.resolve())
+      .catch(() => {})
+      .then(() => writeAtomic(this.dataPath(accountId), text));
+    this.dataWrites.set(accountId, write);
+    await write;
+    return entry;
+  }
+
+  private pruneSessions() {
+    const now = Date.now();
+    for (const [key, session] of Object.entries(this.file.sessions)) {
+      if (session.expiresAt <= now) delete this.file.sessions[key];
+    }
+  }
+}
+
+export const accountStore = new AccountStore(config.dataDir);
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CacheService } from './cache';
+
+afterEach(() => vi.useRealTimers());
+
+describe('CacheService', () => {
+  it('forgets entries once they expire', () => {
+    vi.useFakeTimers();
+    const cache = new CacheService(1000);
+    cache.set('a', 'lesson');
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('a')).toBe('lesson');
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeNull();
+  });
+
+  it('drops the oldest entries past its cap', () => {
+    const cache = new CacheService(60_000, 2);
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.set('a', '1 again');
+    cache.set('c', '3');
+    expect(cache.size).toBe(2);
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')).toBe('1 again');
+    expect(cache.get('c')).toBe('3');
+  });
+
+  it('drops expired entries before fresh ones', () => {
+    vi.useFakeTimers();
+    const cache = new CacheService(1000, 2);
+    cache.set('stale', 'old');
+    vi.advanceTimersByTime(500);
+    cache.set('a', '1');
+    vi.advanceTimersByTime(600);
+    cache.set('b', '2');
+    expect(cache.size).toBe(2);
+    expect(cache.get('a')).toBe('1');
+    expect(cache.get('b')).toBe('2');
+  });
+
+  it('sweeps expired entries that are never read again', () => {
+    vi.useFakeTimers();
+    const cache = new CacheService(1000);
+    cache.set('a', '1');
+    vi.advanceTimersByTime(2000);
+    cache.set('b', '2');
+    cache.prune();
+    expect(cache.size).toBe(1);
+  });
+});
@@ -0,0 +1,36 @@
+/** In-memory cache with a TTL and a cap on how many entries it holds */
+interface CacheEntry { content: string; timestamp: number; }
+export class CacheService {
+  private store = new Map<string, CacheEntry>();
+  constructor(private ttlMs: number, private maxEntries = Infinity) {}
+  get(key: string): string | null {
+    const e = this.store.get(key);
+    if (!e || Date.now() - e.timestamp > this.ttlMs) {
+      this.store.delete(key);
+      return null;
+    }
+    return e.content;
+  }
+  /** Store an entry; past the cap, expired entries go first, then the oldest */
+  set(key: string, content: string) {
+    this.store.delete(key);
+    this.store.set(key, { content, timestamp: Date.now() });
+    if (this.store.size <= this.maxEntries) return;
+    this.prune();
+    // Maps iterate in insertion order, so the first keys are the oldest
+    for (const oldest of this.store.keys()) {
+      if (this.store.size <= this.maxEntries) break;
+      this.store.delete(oldest);
+    }
+  }
+  /** Drop expired entries */
+  prune() {
+    const now = Date.now();
+    for (const [key, e] of this.store) {
+      if (now - e.timestamp > this.ttlMs) this.store.delete(key);
+    }
+  }
+  get size() {
+    return this.store.size;
+  }
+}
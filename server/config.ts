@@ -0,0 +1,65 @@
+import { existsSync } from 'node:fs';
+import { loadEnvFile } from 'node:process';
+
+// Pick up a local .env when present; real deployments set the variables directly.
+if (existsSync('.env')) loadEnvFile('.env');
+
+const int = (value: string | undefined, fallback: number) => {
+  const n = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+export type ProviderName = 'openai' | 'anthropic' | 'gemini' | 'local' | 'mock';
+
+/** Model used when AI_MODEL is not set */
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai:    'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  gemini:    'gemini-1.5-flash',
+  local:     'llama3.1',
+  mock:      'mock',
+};
+
+const providerName = (value: string | undefined): ProviderName => {
+  const name = (value ?? 'openai') as ProviderName;
+  if (name in DEFAULT_MODELS) return name;
+  console.error(`Unknown AI_PROVIDER "${value}", falling back to openai`);
+  return 'openai';
+};
+
+const provider = providerName(process.env.AI_PROVIDER);
+
+export const config = {
+  port:           int(process.env.PORT, 8787),
+  provider,
+  model:          process.env.AI_MODEL ?? DEFAULT_MODELS[provider],
+  apiKeys: {
+    openai:    process.env.OPENAI_API_KEY ?? '',
+    anthropic: process.env.ANTHROPIC_API_KEY ?? '',
+    gemini:    process.env.GEMINI_API_KEY ?? '',
+    local:     process.env.LOCAL_LLM_API_KEY ?? '',
+  },
+  /** OpenAI-compatible endpoint used by the `local` provider (Ollama by default) */
+  localBaseUrl:   process.env.LOCAL_LLM_BASE_URL ?? 'http://localhost:11434/v1',
+  cacheTtlMs:     int(process.env.CACHE_TTL_MS, 24 * 3600 * 1000),
+  /** Generated replies kept in memory at most; the oldest are dropped first */
+  cacheMaxEntries: int(process.env.CACHE_MAX_ENTRIES, 2000),
+  /** Requests allowed per client inside one rate-limit window */
+  rateLimit:      int(process.env.RATE_LIMIT, 20),
+  rateWindowMs:   int(process.env.RATE_WINDOW_MS, 60 * 1000),
+  /** Reverse proxies in front of the server whose X-Forwarded-For is believed; 0 = ignore the header */
+  trustProxy:     int(process.env.TRUST_PROXY, 0),
+  /** Comma-separated list of origins allowed to call the API; empty = same origin only */
+  allowedOrigins: (process.env.ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean),
+  /** Where accounts and their synced study data are stored */
+  dataDir:        process.env.DATA_DIR ?? '.data',
+  sessionTtlMs:   int(process.env.SESSION_TTL_MS, 30 * 24 * 3600 * 1000),
+  /** Send the session cookie over HTTPS only; enable behind TLS */
+  cookieSecure:   process.env.COOKIE_SECURE === 'true',
+  /** Code that makes a new account a teacher; empty = only students can sign up */
+  teacherCode:    process.env.TEACHER_SIGNUP_CODE ?? '',
+};
+
+if (provider !== 'local' && provider !== 'mock' && !config.apiKeys[provider]) {
+  console.error(`${provider} API key is missing! Add ${provider.toUpperCase()}_API_KEY to the server environment or run with AI_PROVIDER=mock`);
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentService } from './contentService';
+import { Errors, HttpError } from './errors';
+import { ProviderError, type CompletionRequest, type LLMProvider } from './providers';
+import { MockProvider } from './providers/mock';
+
+/** The mock provider, failing with the queued errors before it answers */
+class FlakyProvider implements LLMProvider {
+  readonly id = 'flaky';
+  calls = 0;
+  requests: CompletionRequest[] = [];
+  private mock = new MockProvider();
+
+  constructor(private failures: ProviderError[] = [], private replies: string[] = []) {}
+
+  private attempt(req: CompletionRequest) {
+    this.calls++;
+    this.requests.push(req);
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+  }
+
+  async complete(req: CompletionRequest): Promise<string> {
+    this.attempt(req);
+    return this.replies.shift() ?? this.mock.complete(req);
+  }
+
+  async stream(req: CompletionRequest, signal: AbortSignal): Promise<AsyncIterable<string>> {
+    this.attempt(req);
+    return this.mock.stream(req, signal);
+  }
+}
+
+const busy = () => new ProviderError('rate-limit', 'Slow down', 429);
+
+/** Run a call to completion, letting the backoff timers fire */
+async function settle<T>(promise: Promise<T>): Promise<T | unknown> {
+  const outcome = promise.catch(err => err);
+  await vi.runAllTimersAsync();
+  return outcome;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('ContentService.generate', () => {
+  it('retries rate limits and outages, then returns the lesson', async () => {
+    const provider = new FlakyProvider([busy(), new ProviderError('unavailable', 'Down', 503)]);
+    const lesson = await settle(new ContentService(provider, 'mock').generate('Friction', 'explain-simply'));
+    expect(lesson).toMatch(/^## Overview/);
+    expect(provider.calls).toBe(3);
+  });
+
+  it('does not retry errors that another attempt cannot fix', async () => {
+    const provider = new FlakyProvider([new ProviderError('auth', 'Bad key', 401)]);
+    const err = await settle(new ContentService(provider, 'mock').generate('Friction', 'explain-simply'));
+    expect(err).toBeInstanceOf(HttpError);
+    expect(err).toMatchObject({ status: 502, message: Errors.invalidKey });
+    expect(provider.calls).toBe(1);
+  });
+
+  it('gives up after five attempts', async () => {
+    const provider = new FlakyProvider(Array.from({ length: 6 }, busy));
+    const err = await settle(new ContentService(provider, 'mock').generate('Friction', 'explain-simply'));
+    expect(err).toMatchObject({ status: 502, message: Errors.rateLimit });
+    expect(provider.calls).toBe(5);
+  });
+
+  it('serves a repeated request from the cache', async () => {
+    const provider = new FlakyProvider();
+    const service = new ContentService(provider, 'mock');
+    const first = await settle(service.generate('Friction', 'explain-simply'));
+    expect(await settle(service.generate('Friction', 'explain-simply'))).toBe(first);
+    expect(provider.calls).toBe(1);
+  });
+
+  it('asks once more when a reply breaks its contract, listing the problems', async () => {
+    const provider = new FlakyProvider([], ['Just some prose.', 'Still no headings.']);
+    const err = await settle(new ContentService(provider, 'mock').generate('Friction', 'explain-simply'));
+    expect(err).toMatchObject({ status: 502 });
+    expect((err as Error).message).toMatch(/^The lesson came back malformed/);
+    expect(provider.calls).toBe(2);
+    const [, , , correction] = provider.requests[1].messages;
+    expect(correction.content).toContain('- missing section "## Overview"');
+  });
+});
+
+describe('ContentService.stream', () => {
+  it('retries until the provider accepts the request, then relays its deltas', async () => {
+    const provider = new FlakyProvider([busy()]);
+    const stream = new ContentService(provider, 'mock').stream('Friction', 'explain-simply', {}, new AbortController().signal);
+    const read = async () => {
+      const deltas: string[] = [];
+      let next = await stream.next();
+      while (!next.done) {
+        deltas.push(next.value);
+        next = await stream.next();
+      }
+      return { deltas, result: next.value };
+    };
+    const { deltas, result } = await settle(read()) as Awaited<ReturnType<typeof read>>;
+    expect(provider.calls).toBe(2);
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(result).toBe(deltas.join(''));
+  });
+});
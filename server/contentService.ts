@@ -0,0 +1,184 @@
+import { createHash } from 'node:crypto';
+import { backOff } from 'exponential-backoff';
+import type { GenerationContext, PromptType } from '../src/types';
+import { audienceKey, DEFAULT_PROFILE } from '../src/services/learnerProfile';
+import { CacheService } from './cache';
+import { config } from './config';
+import { ContractViolation, correctionPrompt, enforceContract, violationReport } from './contracts';
+import { HttpError, formatError, isRetryable } from './errors';
+import { createProvider, type ChatMessage, type CompletionRequest, type LLMProvider } from './providers';
+import { TEMPLATE_VERSION, buildChatSystemPrompt, buildPrompt, promptTemplates, systemPromptFor } from './templates';
+
+const retryOptions = {
+  numOfAttempts: 5,
+  startingDelay: 2000,
+  timeMultiple:  2,
+  maxDelay:      20000,
+  retry:         isRetryable,
+};
+
+export const isPromptType = (value: unknown): value is PromptType =>
+  typeof value === 'string' && value in promptTemplates;
+
+export class ContentService {
+  private cache = new CacheService(config.cacheTtlMs, config.cacheMaxEntries);
+
+  constructor(
+    private provider: LLMProvider = createProvider(),
+    private model = config.model
+  ) {}
+
+  private key(topic: string, type: PromptType, context: GenerationContext) {
+    const base = [
+      TEMPLATE_VERSION, this.provider.id, this.model, audienceKey(context.profile ?? DEFAULT_PROFILE),
+      context.subject ?? 'general', topic, type, context.level ?? 'steady',
+    ].join('::');
+    if (!context.question && !context.lesson) return base;
+    const digest = createHash('sha256')
+      .update(`${context.question ?? ''}\0${context.lesson ?? ''}`)
+      .digest('hex');
+    return `${base}::${digest}`;
+  }
+
+  private request(topic: string, type: PromptType, context: GenerationContext): CompletionRequest {
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system', content: systemPromptFor(context.subject) },
+        { role: 'user',   content: buildPrompt(topic, type, context) },
+      ],
+      temperature: 0.7,
+      maxTokens: 2000,
+    };
+  }
+
+  public async generate(
+    topic: string,
+    type: PromptType,
+    context: GenerationContext = {}
+  ): Promise<string> {
+    const cacheKey = this.key(topic, type, context);
+    const hit = this.cache.get(cacheKey);
+    if (hit) return hit;
+
+    const request = this.request(topic, type, context);
+    const result = await this.conform(await this.complete(request), type, context, request);
+    this.cache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Stream raw text deltas as they arrive. Only a stream that runs to the end
+   * is sanitized and cached; its final text is the generator's return value.
+   */
+  public async *stream(
+    topic: string,
+    type: PromptType,
+    context: GenerationContext,
+    signal: AbortSignal
+  ): AsyncGenerator<string, string> {
+    const cacheKey = this.key(topic, type, context);
+    const hit = this.cache.get(cacheKey);
+    if (hit) {
+      yield hit;
+      return hit;
+    }
+
+    const request = this.request(topic, type, context);
+    const raw = yield* this.streamRequest(request, signal);
+    if (signal.aborted) return '';
+
+    const result = await this.conform(raw, type, context, request);
+    this.cache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Hold a reply to its prompt type's contract (see enforceContract). A reply
+   * that can't be repaired goes back to the model once with its problems
+   * listed; if the second reply fails too, the violation is reported rather
+   * than returned. Follow-up questions are optional, so those fall back to none.
+   */
+  private async conform(
+    reply: string,
+    type: PromptType,
+    context: GenerationContext,
+    request: CompletionRequest
+  ): Promise<string> {
+    try {
+      return enforceContract(reply, type, context.subject);
+    } catch (err) {
+      if (!(err instanceof ContractViolation)) throw err;
+      console.warn(err.message);
+      const retry = await this.complete({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content: reply },
+          { role: 'user', content: correctionPrompt(err) },
+        ],
+      });
+      try {
+        return enforceContract(retry, type, context.subject);
+      } catch (again) {
+        if (!(again instanceof ContractViolation)) throw again;
+        console.warn(again.message);
+        if (type === 'follow-up') return '[]';
+        throw new HttpError(502, violationReport(again));
+      }
+    }
+  }
+
+  /** One non-streamed completion, retried while the provider is busy */
+  private async complete(request: CompletionRequest): Promise<string> {
+    try {
+      return await backOff(() => this.provider.complete(request), retryOptions);
+    } catch (err) {
+      console.error('AI service error:', err);
+      throw new HttpError(502, formatError(err));
+    }
+  }
+
+  /**
+   * Stream the tutor's next reply in a topic chat. Conversations are unique
+   * per student, so nothing here is cached.
+   */
+  public chat(
+    topic: string,
+    history: ChatMessage[],
+    context: Pick<GenerationContext, 'lesson' | 'profile'>,
+    signal: AbortSignal
+  ): AsyncGenerator<string, string> {
+    return this.streamRequest({
+      model: this.model,
+      messages: [
+        { role: 'system', content: buildChatSystemPrompt(topic, context) },
+        ...history,
+      ],
+      temperature: 0.5,
+      maxTokens: 1200,
+    }, signal);
+  }
+
+  /** Retry until the provider accepts the request, then relay its deltas */
+  private async *streamRequest(
+    request: CompletionRequest,
+    signal: AbortSignal
+  ): AsyncGenerator<string, string> {
+    let raw = '';
+    try {
+      const deltas = await backOff(() => this.provider.stream(request, signal), retryOptions);
+      for await (const delta of deltas) {
+        raw += delta;
+        yield delta;
+      }
+    } catch (err) {
+      if (signal.aborted) return raw;
+      console.error('AI service error:', err);
+      throw new HttpError(502, formatError(err));
+    }
+    return raw;
+  }
+}
+
+export const contentService = new ContentService();
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ContractViolation, enforceContract } from './contracts';
+
+const lesson = (examples: string) => `## Overview
+Friction is the force that resists sliding between surfaces.
+
+## Analogy
+Pushing a heavy box across a carpet.
+
+## Core Concepts
+- Static friction: holds a resting object in place
+- Kinetic friction: acts while it slides
+
+## Key Rules
+$$f = \\mu N$$
+
+## Examples
+${examples}
+
+## Takeaways
+- Friction depends on the normal force`;
+
+const violationOf = (reply: string, type: Parameters<typeof enforceContract>[1]) => {
+  try {
+    enforceContract(reply, type);
+  } catch (err) {
+    if (err instanceof ContractViolation) return err;
+    throw err;
+  }
+  throw new Error('expected a ContractViolation');
+};
+
+describe('enforceContract', () => {
+  it('accepts a lesson whose examples are numbered "N. Something:" lines', () => {
+    const reply = lesson('1. Box on a ramp: the block stays put while $\\tan\\theta < \\mu_s$.\n2. Braking car: kinetic friction stops it.');
+    expect(enforceContract(reply, 'explain-simply')).toBe(reply);
+  });
+
+  it('keeps a code block containing "## " inside its section', () => {
+    const code = '```python\n## not a heading\nmu = 0.3\n```';
+    const result = enforceContract(lesson(`1. Computing it:\n${code}`), 'explain-simply');
+    expect(result).toContain(code);
+  });
+
+  it('repairs stray heading styles and drops chatter before the first heading', () => {
+    const reply = `Sure! Here is the lesson.\n\n${lesson('A worked example.').replace('## Analogy', '**Analogy:**').replace('## Takeaways', '### takeaways')}`;
+    const result = enforceContract(reply, 'explain-simply');
+    expect(result.startsWith('## Overview')).toBe(true);
+    expect(result).toContain('## Analogy\n');
+    expect(result).toContain('## Takeaways\n');
+  });
+
+  it('unwraps a reply fenced as one Markdown block', () => {
+    const reply = lesson('A worked example.');
+    expect(enforceContract('```markdown\n' + reply + '\n```', 'explain-simply')).toBe(reply);
+  });
+
+  it('lists missing and empty sections', () => {
+    const reply = lesson('').replace(/## Analogy\n.*\n\n/, '');
+    expect(violationOf(reply, 'explain-simply').problems).toEqual([
+      'missing section "## Analogy"',
+      'section "## Examples" is empty',
+    ]);
+  });
+
+  it('needs enough numbered sections for numbered outlines', () => {
+    const reply = '## Application 1\nBrakes.\n\n## Application 2\nTyres.';
+    expect(violationOf(reply, 'real-applications').problems).toEqual([
+      'needs at least 3 "## Application N" sections, got 2',
+    ]);
+  });
+
+  it('normalises practice sets and reports schema problems', () => {
+    const set = { title: 'Friction', questions: [{ id: 'q1', kind: 'mcq', prompt: 'Which?', options: ['a', 'b'], answer: 1, solution: 'b.' }] };
+    expect(JSON.parse(enforceContract(`Here you go:\n${JSON.stringify(set)}`, 'interactive-practice'))).toEqual(set);
+
+    const broken = { ...set, questions: [{ ...set.questions[0], answer: 5 }] };
+    expect(violationOf(JSON.stringify(broken), 'interactive-practice').problems).toEqual([
+      'questions[0].answer must be the index of an option',
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import type { PromptType } from '../src/types';
+import { ConceptMapError, parseConceptMap } from '../src/services/conceptMap';
+import { FlashcardError, parseFlashcardDrafts } from '../src/services/flashcards';
+import { FollowUpError, parseFollowUps } from '../src/services/followUps';
+import { parseSections, type LessonSection } from '../src/services/lessonSections';
+import { isPracticeType, parsePracticeSet, PracticeSetError } from '../src/services/practice';
+import { checkMermaid, mermaidBlocks, parseTable, sanitizeMermaidBlocks } from '../src/services/visualAids';
+import { templateFor } from './templates';
+
+/** Thrown when a reply still breaks its prompt type's contract after repair */
+export class ContractViolation extends Error {
+  constructor(public type: PromptType, public problems: string[]) {
+    super(`Invalid ${type} output: ${problems.join('; ')}`);
+    this.name = 'ContractViolation';
+  }
+}
+
+/** Models sometimes wrap a whole Markdown reply in one fence (with no other fences inside) */
+const WRAPPING_FENCE = /^```(?:markdown|md)?[ \t]*\n((?:(?!\n```)[\s\S])*)\n```\s*$/;
+/** "Sure! Here is the lesson:" and other lines of chatter above such a fence */
+const FENCE_PREAMBLE = /^(?:(?!```|#)[^\n]*\n)+(?=```(?:markdown|md)?[ \t]*\n)/;
+
+/** Fewest sections a numbered outline ("## Application 1", "## Application 2"…) may come back with */
+const MIN_NUMBERED_SECTIONS = 3;
+
+/** What a Markdown reply must contain, read off the `## ` headings of its template */
+interface Outline {
+  /** Headings that must each appear once, with something under them */
+  sections: string[];
+  /** Prefixes of numbered headings, e.g. "Application" for "## Application 1" */
+  numbered: string[];
+}
+
+function outlineOf(template: string): Outline {
+  const outline: Outline = { sections: [], numbered: [] };
+  for (const [, heading] of template.matchAll(/^## (.+)$/gm)) {
+    const numbered = heading.match(/^(.+?) \d+\b/);
+    if (!numbered) outline.sections.push(heading.trim());
+    else if (!outline.numbered.includes(numbered[1])) outline.numbered.push(numbered[1]);
+  }
+  return outline;
+}
+
+/** A line's text without heading marks, list numbering, bold or a trailing colon */
+const bareLine = (line: string) =>
+  line.trim()
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/^\d+[.)]\s+/, '')
+    .replace(/^\*\*(.+)\*\*$/, '$1')
+    .replace(/:$/, '')
+    .trim();
+
+/**
+ * Put the outline's headings back in shape — "### examples", "**Examples:**",
+ * "2) Examples" all become "## Examples" — and drop any chatter before the
+ * first heading. Lines inside code blocks are left alone.
+ */
+function repairMarkdown(text: string, outline: Outline): string {
+  let inCode = false;
+  const lines = text.trim().replace(FENCE_PREAMBLE, '').replace(WRAPPING_FENCE, '$1').split('\n').map(line => {
+    if (/^\s*```/.test(line)) inCode = !inCode;
+    if (inCode) return line;
+    const bare = bareLine(line);
+    const section = outline.sections.find(s => s.toLowerCase() === bare.toLowerCase());
+    if (section) return `## ${section}`;
+    const isHeading = /^\s*(#{1,6}\s|\*\*)/.test(line);
+    const numbered = isHeading && outline.numbered.find(p => bare.toLowerCase().startsWith(`${p.toLowerCase()} `));
+    return numbered ? `## ${bare}` : line;
+  });
+  const out = lines.join('\n').trim();
+  const first = out.search(/^## /m);
+  return first > 0 ? out.slice(first) : out;
+}
+
+/** Checks beyond the outline, for prompt types whose sections carry something the app draws */
+const sectionChecks: Partial<Record<PromptType, (sections: LessonSection[]) => string[]>> = {
+  'visual-guide': sections => {
+    const problems: string[] = [];
+    const diagram = sections.find(s => s.title === 'Diagram');
+    const [spec] = diagram ? mermaidBlocks(diagram.body) : [];
+    if (diagram && spec === undefined) problems.push('section "## Diagram" needs a ```mermaid block');
+    if (spec !== undefined) problems.push(...checkMermaid(spec).map(p => `the Mermaid diagram: ${p}`));
+    const comparison = sections.find(s => s.title === 'Comparison');
+    if (comparison && !parseTable(comparison.body)) problems.push('section "## Comparison" needs a Markdown table');
+    return problems;
+  },
+};
+
+function checkMarkdown(text: string, type: PromptType, outline: Outline): string[] {
+  const sections = parseSections(text, outline.sections);
+  if (sections.length === 0) return ['no "## " sections'];
+  const problems: string[] = [];
+  for (const heading of outline.sections) {
+    const section = sections.find(s => s.title === heading);
+    if (!section) problems.push(`missing section "## ${heading}"`);
+    else if (!section.body) problems.push(`section "## ${heading}" is empty`);
+  }
+  for (const prefix of outline.numbered) {
+    const count = sections.filter(s => s.title.startsWith(`${prefix} `)).length;
+    if (count < MIN_NUMBERED_SECTIONS) {
+      problems.push(`needs at least ${MIN_NUMBERED_SECTIONS} "## ${prefix} N" sections, got ${count}`);
+    }
+  }
+  return [...problems, ...(sectionChecks[type]?.(sections) ?? [])];
+}
+
+/**
+ * Hold a reply to the contract of its prompt type: practice sets, concept
+ * maps, flashcards and follow-ups must parse against their schemas, and Markdown lessons must
+ * have every section of the subject's outline (and visual guides a drawable
+ * diagram and a table). Whatever can be fixed
+ * mechanically is; the returned text is what gets cached and sent. Throws
+ * ContractViolation listing everything that is still wrong.
+ */
+export function enforceContract(reply: string, type: PromptType, subjectId?: string): string {
+  if (isPracticeType(type)) {
+    try {
+      return JSON.stringify(parsePracticeSet(reply));
+    } catch (err) {
+      if (err instanceof PracticeSetError) throw new ContractViolation(type, err.issues);
+      throw err;
+    }
+  }
+  if (type === 'flashcards') {
+    try {
+      return JSON.stringify(parseFlashcardDrafts(reply));
+    } catch (err) {
+      if (err instanceof FlashcardError) throw new ContractViolation(type, [err.message]);
+      throw err;
+    }
+  }
+  if (type === 'concept-map') {
+    try {
+      return JSON.stringify(parseConceptMap(reply));
+    } catch (err) {
+      if (err instanceof ConceptMapError) throw new ContractViolation(type, err.issues);
+      throw err;
+    }
+  }
+  if (type === 'follow-up') {
+    try {
+      return JSON.stringify(parseFollowUps(reply));
+    } catch (err) {
+      if (err instanceof FollowUpError) throw new ContractViolation(type, err.issues);
+      throw err;
+    }
+  }
+
+  const outline = outlineOf(templateFor(type, subjectId));
+  const repaired = sanitizeMermaidBlocks(repairMarkdown(reply, outline));
+  const problems = checkMarkdown(repaired, type, outline);
+  if (problems.length > 0) throw new ContractViolation(type, problems);
+  return repaired;
+}
+
+/** Sent back to the model, after its reply, to ask for a corrected one */
+export function correctionPrompt(violation: ContractViolation): string {
+  return [
+    'Your reply did not follow the required format:',
+    ...violation.problems.slice(0, 10).map(p => `- ${p}`),
+    'Reply again with the complete output, following the original instructions exactly.',
+  ].join('\n');
+}
+
+/** What the student is told when even the corrected reply breaks the contract */
+export function violationReport(violation: ContractViolation): string {
+  const what = isPracticeType(violation.type) ? 'The practice questions'
+    : violation.type === 'flashcards' ? 'The flashcards'
+    : violation.type === 'concept-map' ? 'The concept map'
+    : 'The lesson';
+  const problems = violation.problems.slice(0, 3).join('; ');
+  return `${what} came back malformed (${problems}). Please retry.`;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { Errors, formatError, isRetryable } from './errors';
+import { ProviderError } from './providers';
+
+describe('isRetryable', () => {
+  it('retries rate limits and outages, nothing else', () => {
+    expect(isRetryable(new ProviderError('rate-limit', 'busy', 429))).toBe(true);
+    expect(isRetryable(new ProviderError('unavailable', 'down', 503))).toBe(true);
+    expect(isRetryable(new ProviderError('quota', 'no credit', 429))).toBe(false);
+    expect(isRetryable(new ProviderError('auth', 'bad key', 401))).toBe(false);
+  });
+
+  it('falls back to the status of other errors', () => {
+    expect(isRetryable({ status: 502 })).toBe(true);
+    expect(isRetryable({ status: 400 })).toBe(false);
+    expect(isRetryable(new Error('boom'))).toBe(false);
+    expect(isRetryable(undefined)).toBe(false);
+  });
+});
+
+describe('formatError', () => {
+  it('gives each provider error kind its message', () => {
+    expect(formatError(new ProviderError('auth', 'x'))).toBe(Errors.invalidKey);
+    expect(formatError(new ProviderError('rate-limit', 'x'))).toBe(Errors.rateLimit);
+    expect(formatError(new ProviderError('quota', 'x'))).toBe(Errors.quotaExceeded);
+    expect(formatError(new ProviderError('unavailable', 'x'))).toBe(Errors.unavailable);
+    expect(formatError(new ProviderError('bad-request', 'x'))).toBe(Errors.generic);
+  });
+
+  it('reads other errors by message and status, never echoing them', () => {
+    expect(formatError(new Error('Missing API key'))).toBe(Errors.invalidKey);
+    expect(formatError(Object.assign(new Error('Too many'), { status: 429 }))).toBe(Errors.rateLimit);
+    expect(formatError(new Error('You exceeded your quota'))).toBe(Errors.quotaExceeded);
+    expect(formatError(new Error('secret internals'))).toBe(Errors.generic);
+    expect(formatError('a string')).toBe(Errors.generic);
+  });
+});
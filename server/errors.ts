@@ -0,0 +1,45 @@
+import { ProviderError } from './providers';
+
+/** Retryable HTTP codes */
+const RETRYABLE = new Set([408, 429, 500, 502, 503, 504, 529]);
+/** The `status` of an SDK or fetch error, if it carries one */
+const statusOf = (err: unknown): unknown =>
+  typeof err === 'object' && err !== null && 'status' in err ? err.status : undefined;
+
+export const isRetryable = (err: unknown) => {
+  if (err instanceof ProviderError) return err.kind === 'rate-limit' || err.kind === 'unavailable';
+  const status = statusOf(err);
+  return typeof status === 'number' && RETRYABLE.has(status);
+};
+
+/** Friendly error messages */
+export const Errors = {
+  invalidKey:    'Invalid API key. Please verify your AI provider configuration.',
+  rateLimit:     'Rate limit reached. Try again later.',
+  quotaExceeded: 'Quota exceeded. Check billing or upgrade.',
+  unavailable:   'The AI provider is unavailable right now. Please retry shortly.',
+  generic:       'Failed to generate content. Please retry later.',
+};
+export function formatError(err: unknown): string {
+  if (err instanceof ProviderError) {
+    switch (err.kind) {
+      case 'auth':        return Errors.invalidKey;
+      case 'rate-limit':  return Errors.rateLimit;
+      case 'quota':       return Errors.quotaExceeded;
+      case 'unavailable': return Errors.unavailable;
+      default:            return Errors.generic;
+    }
+  }
+  const message = err instanceof Error ? err.message : '';
+  if (message.includes('API key'))       return Errors.invalidKey;
+  if (statusOf(err) === 429)             return Errors.rateLimit;
+  if (message.includes('quota'))         return Errors.quotaExceeded;
+  return Errors.generic;
+}
+
+/** An error with an HTTP status the router can send back verbatim */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
@@ -0,0 +1,46 @@
+import type { IncomingMessage } from 'node:http';
+import { describe, expect, it } from 'vitest';
+import { clientId, readCookie } from './http';
+
+const request = (headers: IncomingMessage['headers'], remoteAddress = '10.0.0.1') =>
+  ({ headers, socket: { remoteAddress } }) as unknown as IncomingMessage;
+
+describe('readCookie', () => {
+  it('finds a cookie among others and decodes it', () => {
+    const req = request({ cookie: 'theme=dark; free_ed_session=a%2Bb%3Dc; lang=hi' });
+    expect(readCookie(req, 'free_ed_session')).toBe('a+b=c');
+    expect(readCookie(req, 'lang')).toBe('hi');
+  });
+
+  it('returns undefined when the cookie is missing', () => {
+    expect(readCookie(request({}), 'free_ed_session')).toBeUndefined();
+    expect(readCookie(request({ cookie: 'theme=dark' }), 'free_ed_session')).toBeUndefined();
+  });
+
+  it('treats a value that is not valid percent-encoding as absent', () => {
+    expect(readCookie(request({ cookie: 'free_ed_session=%E0%A4%A' }), 'free_ed_session')).toBeUndefined();
+  });
+});
+
+describe('clientId', () => {
+  const forwarded = (value: string) => request({ 'x-forwarded-for': value }, '10.0.0.1');
+
+  it('uses the socket address and ignores X-Forwarded-For without trusted proxies', () => {
+    expect(clientId(forwarded('203.0.113.7'))).toBe('10.0.0.1');
+    expect(clientId({ headers: {}, socket: {} } as unknown as IncomingMessage)).toBe('unknown');
+  });
+
+  it('takes the address the last trusted proxy saw', () => {
+    expect(clientId(forwarded('203.0.113.7'), 1)).toBe('203.0.113.7');
+    expect(clientId(forwarded('203.0.113.7, 192.168.1.2'), 2)).toBe('203.0.113.7');
+  });
+
+  it('ignores hops the client wrote itself', () => {
+    expect(clientId(forwarded('1.2.3.4, 203.0.113.7'), 1)).toBe('203.0.113.7');
+  });
+
+  it('falls back to the leftmost hop when there are fewer hops than proxies', () => {
+    expect(clientId(forwarded('203.0.113.7'), 3)).toBe('203.0.113.7');
+    expect(clientId(request({}), 1)).toBe('10.0.0.1');
+  });
+});
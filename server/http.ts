@@ -0,0 +1,71 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { HttpError } from './errors';
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+/** Read and parse a JSON request body, rejecting oversized or malformed input */
+export async function readJson(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON.');
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Identify a client for rate limiting. With `trustedProxies` proxies in
+ * front of the server, each appends the address it saw to X-Forwarded-For,
+ * so the client is that many hops back from the socket address; anything
+ * further left was written by the client and is ignored. With none, the
+ * header is ignored entirely.
+ */
+export function clientId(req: IncomingMessage, trustedProxies = 0): string {
+  const socket = req.socket.remoteAddress || 'unknown';
+  if (trustedProxies <= 0) return socket;
+  const header = req.headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(header) ? header.join(',') : header ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  const hops = [...forwarded, socket];
+  return hops[Math.max(0, hops.length - 1 - trustedProxies)];
+}
+
+/** Value of one cookie from the request, if present; a malformed value counts as absent */
+export function readCookie(req: IncomingMessage, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join('='));
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/** Set an HttpOnly cookie for the whole site; a `maxAgeMs` of 0 deletes it */
+export function setCookie(res: ServerResponse, name: string, value: string, maxAgeMs: number, secure: boolean) {
+  const attributes = [
+    `${name}=${encodeURIComponent(value)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${Math.floor(maxAgeMs / 1000)}`,
+  ];
+  if (secure) attributes.push('Secure');
+  res.setHeader('Set-Cookie', attributes.join('; '));
+}
@@ -0,0 +1,132 @@
+import { rmSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// Before the server's config is read: one trusted proxy, so each test can act
+// as its own client through X-Forwarded-For, and a fresh data directory
+const dataDir = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('node:fs');
+  const { tmpdir } = await import('node:os');
+  const { join } = await import('node:path');
+  process.env.RATE_LIMIT = '3';
+  process.env.TRUST_PROXY = '1';
+  process.env.DATA_DIR = mkdtempSync(join(tmpdir(), 'free-ed-routes-'));
+  return process.env.DATA_DIR;
+});
+
+const { server } = await import('./index');
+
+let base: string;
+let clients = 0;
+const newClient = () => `203.0.113.${++clients}`;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+interface Call {
+  method?: string;
+  body?: unknown;
+  client?: string;
+  cookie?: string;
+}
+
+const call = (path: string, { method = 'POST', body, client = newClient(), cookie }: Call = {}) =>
+  fetch(`${base}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Forwarded-For': client,
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+describe('generation routes', () => {
+  it('reports the provider on /api/health', async () => {
+    const resp = await call('/api/health', { method: 'GET' });
+    expect(await resp.json()).toEqual({ ok: true, provider: 'mock', model: 'mock' });
+  });
+
+  it('returns a lesson that follows its outline', async () => {
+    const resp = await call('/api/generate', { body: { topic: 'Friction', type: 'explain-simply' } });
+    expect(resp.status).toBe(200);
+    expect((await resp.json() as { content: string }).content).toMatch(/^## Overview\n/);
+  });
+
+  it('streams deltas as NDJSON and ends with the full text', async () => {
+    const resp = await call('/api/generate/stream', { body: { topic: 'Friction', type: 'visual-guide' } });
+    expect(resp.headers.get('content-type')).toBe('application/x-ndjson');
+    const events = (await resp.text()).trim().split('\n').map(line => JSON.parse(line));
+    const done = events.pop();
+    expect(events.length).toBeGreaterThan(1);
+    expect(done).toEqual({ done: true, content: events.map(e => e.delta).join('') });
+  });
+
+  it('rejects malformed requests with 400', async () => {
+    const cases: [unknown, string][] = [
+      [{ topic: 'Friction', type: 'poem' }, 'Unknown prompt type.'],
+      [{ topic: '  ', type: 'explain-simply' }, 'A topic of 1–200 characters is required.'],
+      [{ topic: 'Friction', type: 'explain-simply', context: { level: 'genius' } }, 'context.level must be one of struggling, steady, strong.'],
+      ['{not json', 'Request body must be valid JSON.'],
+    ];
+    for (const [body, error] of cases) {
+      const resp = await call('/api/generate', { body });
+      expect(resp.status).toBe(400);
+      expect(await resp.json()).toEqual({ error });
+    }
+  });
+
+  it('limits each client separately, as identified behind the trusted proxy', async () => {
+    const client = newClient();
+    const generate = (from = client) => call('/api/generate', { body: { topic: 'Friction', type: 'explain-simply' }, client: from });
+    for (let i = 0; i < 3; i++) expect((await generate()).status).toBe(200);
+    const limited = await generate();
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await generate(newClient())).status).toBe(200);
+  });
+
+  it('answers unknown routes with 404', async () => {
+    expect((await call('/api/nothing', { method: 'GET' })).status).toBe(404);
+  });
+});
+
+describe('account routes', () => {
+  it('signs up, syncs data and signs out', async () => {
+    const credentials = { email: 'ada@example.com', password: 'correct horse' };
+    const registered = await call('/api/auth/register', { body: credentials });
+    expect(registered.status).toBe(201);
+    const cookie = registered.headers.get('set-cookie')!.split(';')[0];
+
+    const me = await call('/api/auth/me', { method: 'GET', cookie });
+    expect((await me.json() as { user: unknown }).user).toMatchObject({ email: 'ada@example.com', role: 'student' });
+
+    const empty = await call('/api/account/data', { method: 'GET', cookie });
+    expect(await empty.json()).toEqual({ updatedAt: null, data: null });
+    const put = await call('/api/account/data', { method: 'PUT', cookie, body: { data: { progress: { units: 1 } } } });
+    expect(put.status).toBe(200);
+    const synced = await call('/api/account/data', { method: 'GET', cookie });
+    expect((await synced.json() as { data: unknown }).data).toEqual({ progress: { units: 1 } });
+
+    await call('/api/auth/logout', { cookie });
+    expect((await call('/api/auth/me', { method: 'GET', cookie })).status).toBe(401);
+  });
+
+  it('refuses a second account for the same email', async () => {
+    const credentials = { email: 'grace@example.com', password: 'correct horse' };
+    expect((await call('/api/auth/register', { body: credentials })).status).toBe(201);
+    expect((await call('/api/auth/register', { body: credentials })).status).toBe(409);
+  });
+
+  it('treats a malformed session cookie as signed out', async () => {
+    const resp = await call('/api/auth/me', { method: 'GET', cookie: 'free_ed_session=%E0%A4%A' });
+    expect(resp.status).toBe(401);
+  });
+});
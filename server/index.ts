@@ -0,0 +1,268 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import type { GenerationContext, LearnerLevel, User } from '../src/types';
+import { isLearnerProfile } from '../src/services/learnerProfile';
+import { accountStore, readCredentials } from './accounts';
+import { config } from './config';
+import { contentService, isPromptType } from './contentService';
+import { HttpError } from './errors';
+import type { ChatMessage } from './providers';
+import { clientId, readCookie, readJson, sendJson, setCookie } from './http';
+import { RateLimiter } from './rateLimiter';
+import { TEMPLATE_VERSION } from './templates';
+
+const limiter = new RateLimiter(config.rateLimit, config.rateWindowMs);
+setInterval(() => limiter.prune(), config.rateWindowMs).unref();
+
+const LEARNER_LEVELS: LearnerLevel[] = ['struggling', 'steady', 'strong'];
+
+/** Validate the optional `context` object of a generate request */
+function readContext(value: unknown): GenerationContext {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object') throw new HttpError(400, 'context must be an object.');
+  const { question, lesson, subject, level, profile } = value as Record<string, unknown>;
+  if (question !== undefined && (typeof question !== 'string' || question.length > 500)) {
+    throw new HttpError(400, 'context.question must be a string of at most 500 characters.');
+  }
+  if (lesson !== undefined && (typeof lesson !== 'string' || lesson.length > 20000)) {
+    throw new HttpError(400, 'context.lesson must be a string of at most 20000 characters.');
+  }
+  if (subject !== undefined && (typeof subject !== 'string' || !/^[a-z0-9-]{1,64}$/.test(subject))) {
+    throw new HttpError(400, 'context.subject must be a subject id.');
+  }
+  if (level !== undefined && !LEARNER_LEVELS.includes(level as LearnerLevel)) {
+    throw new HttpError(400, `context.level must be one of ${LEARNER_LEVELS.join(', ')}.`);
+  }
+  if (profile !== undefined && !isLearnerProfile(profile)) {
+    throw new HttpError(400, 'context.profile must have a known grade, examTarget, language and depth.');
+  }
+  return {
+    question: question?.trim() || undefined,
+    lesson: lesson || undefined,
+    subject: subject || undefined,
+    level: level === 'steady' ? undefined : level as LearnerLevel | undefined,
+    profile,
+  };
+}
+
+/** Count the request against the client's quota, rejecting it once the quota is spent */
+function enforceRateLimit(req: IncomingMessage, res: ServerResponse) {
+  const verdict = limiter.hit(clientId(req, config.trustProxy));
+  if (!verdict.allowed) {
+    res.setHeader('Retry-After', String(verdict.retryAfter));
+    throw new HttpError(429, 'Rate limit reached. Try again later.');
+  }
+}
+
+/** Validate the `topic` field shared by every generation endpoint */
+function readTopic(value: unknown): string {
+  const topic = typeof value === 'string' ? value.trim() : '';
+  if (!topic || topic.length > 200) throw new HttpError(400, 'A topic of 1–200 characters is required.');
+  return topic;
+}
+
+/** Count the request against the client's quota and validate `{ topic, type, context? }` */
+async function readGenerateRequest(req: IncomingMessage, res: ServerResponse) {
+  enforceRateLimit(req, res);
+
+  const body = await readJson(req) as { topic?: unknown; type?: unknown; context?: unknown };
+  const topic = readTopic(body.topic);
+  if (!isPromptType(body.type))     throw new HttpError(400, 'Unknown prompt type.');
+  return { topic, type: body.type, context: readContext(body.context) };
+}
+
+/** POST /api/generate  { topic, type, context? } → { content } */
+async function handleGenerate(req: IncomingMessage, res: ServerResponse) {
+  const { topic, type, context } = await readGenerateRequest(req, res);
+  const content = await contentService.generate(topic, type, context);
+  sendJson(res, 200, { content });
+}
+
+/**
+ * Relay a text stream to the client as NDJSON lines: `{"delta":"…"}` while
+ * generating, then `{"done":true,"content":"…"}` or `{"error":"…"}`.
+ * Closing the connection aborts the upstream request.
+ */
+async function sendNdjsonStream(
+  res: ServerResponse,
+  start: (signal: AbortSignal) => AsyncGenerator<string, string>
+) {
+  const upstream = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) upstream.abort();
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson',
+    'Cache-Control': 'no-cache',
+  });
+  const send = (event: object) => res.write(JSON.stringify(event) + '\n');
+
+  try {
+    const stream = start(upstream.signal);
+    let next = await stream.next();
+    while (!next.done) {
+      send({ delta: next.value });
+      next = await stream.next();
+    }
+    if (!upstream.signal.aborted) send({ done: true, content: next.value });
+  } catch (err) {
+    send({ error: err instanceof HttpError ? err.message : 'Internal server error.' });
+  }
+  res.end();
+}
+
+/** POST /api/generate/stream  { topic, type, context? } → NDJSON (see sendNdjsonStream) */
+async function handleGenerateStream(req: IncomingMessage, res: ServerResponse) {
+  const { topic, type, context } = await readGenerateRequest(req, res);
+  await sendNdjsonStream(res, signal => contentService.stream(topic, type, context, signal));
+}
+
+const MAX_CHAT_TURNS = 40;
+
+/** POST /api/chat/stream  { topic, messages, lesson?, profile? } → NDJSON (see sendNdjsonStream) */
+async function handleChatStream(req: IncomingMessage, res: ServerResponse) {
+  enforceRateLimit(req, res);
+
+  const body = await readJson(req) as { topic?: unknown; messages?: unknown; lesson?: unknown; profile?: unknown };
+  const topic = readTopic(body.topic);
+
+  const messages = Array.isArray(body.messages) ? body.messages.slice(-MAX_CHAT_TURNS) : [];
+  const history: ChatMessage[] = messages.map(m => {
+    const { role, content } = (m ?? {}) as Record<string, unknown>;
+    if ((role !== 'user' && role !== 'assistant') || typeof content !== 'string' || content.length > 8000) {
+      throw new HttpError(400, 'Each message needs a user/assistant role and content of at most 8000 characters.');
+    }
+    return { role, content };
+  });
+  if (history[history.length - 1]?.role !== 'user') {
+    throw new HttpError(400, 'The last message must come from the user.');
+  }
+  const { lesson, profile } = readContext({ lesson: body.lesson ?? undefined, profile: body.profile ?? undefined });
+
+  await sendNdjsonStream(res, signal => contentService.chat(topic, history, { lesson, profile }, signal));
+}
+
+const SESSION_COOKIE = 'free_ed_session';
+/** Synced progress, history and chats can outgrow the normal body limit */
+const MAX_ACCOUNT_DATA_BYTES = 5 * 1024 * 1024;
+
+/** The user signed in on this request, or a 401 */
+function requireUser(req: IncomingMessage): User {
+  const user = accountStore.userForSession(readCookie(req, SESSION_COOKIE));
+  if (!user) throw new HttpError(401, 'Sign in first.');
+  return user;
+}
+
+async function startSession(res: ServerResponse, user: User) {
+  const token = await accountStore.createSession(user.id);
+  setCookie(res, SESSION_COOKIE, token, config.sessionTtlMs, config.cookieSecure);
+}
+
+/** POST /api/auth/register  { email, password, teacherCode? } → { user } */
+async function handleRegister(req: IncomingMessage, res: ServerResponse) {
+  enforceRateLimit(req, res);
+
+  const body = await readJson(req) as { teacherCode?: unknown };
+  const { email, password } = readCredentials(body);
+  const wantsTeacher = typeof body.teacherCode === 'string' && body.teacherCode !== '';
+  if (wantsTeacher && (!config.teacherCode || body.teacherCode !== config.teacherCode)) {
+    throw new HttpError(403, 'That teacher code is not valid.');
+  }
+  const user = await accountStore.register(email, password, wantsTeacher ? 'teacher' : 'student');
+  await startSession(res, user);
+  sendJson(res, 201, { user });
+}
+
+/** POST /api/auth/login  { email, password } → { user } */
+async function handleLogin(req: IncomingMessage, res: ServerResponse) {
+  enforceRateLimit(req, res);
+
+  const { email, password } = readCredentials(await readJson(req));
+  const user = await accountStore.authenticate(email, password);
+  await startSession(res, user);
+  sendJson(res, 200, { user });
+}
+
+/** POST /api/auth/logout → { ok } */
+async function handleLogout(req: IncomingMessage, res: ServerResponse) {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) await accountStore.endSession(token);
+  setCookie(res, SESSION_COOKIE, '', 0, config.cookieSecure);
+  sendJson(res, 200, { ok: true });
+}
+
+/** PUT /api/account/data  { data } → { updatedAt } */
+async function handlePutAccountData(req: IncomingMessage, res: ServerResponse) {
+  const user = requireUser(req);
+  const body = await readJson(req, MAX_ACCOUNT_DATA_BYTES).catch(err => {
+    if (!(err instanceof HttpError) || err.status !== 413) throw err;
+    throw new HttpError(413, `Your study data is over the ${MAX_ACCOUNT_DATA_BYTES / 1024 / 1024} MB an account can hold, `
+      + 'so it could not be synced. Delete some old sessions in History, then retry.');
+  }) as { data?: unknown };
+  if (typeof body.data !== 'object' || body.data === null) throw new HttpError(400, 'data must be an object.');
+  const { updatedAt } = await accountStore.setData(user.id, body.data);
+  sendJson(res, 200, { updatedAt });
+}
+
+function applyCors(req: IncomingMessage, res: ServerResponse) {
+  const origin = req.headers.origin;
+  if (origin && config.allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+    // The session cookie has to travel with cross-origin requests too
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Vary', 'Origin');
+  }
+}
+
+export const server = createServer(async (req, res) => {
+  applyCors(req, res);
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+    } else if (req.method === 'GET' && path === '/api/health') {
+      sendJson(res, 200, { ok: true, provider: config.provider, model: config.model });
+    } else if (req.method === 'GET' && path === '/api/meta') {
+      // Everything a client needs to key its own cache of generated lessons
+      sendJson(res, 200, { model: `${config.provider}/${config.model}`, templateVersion: TEMPLATE_VERSION });
+    } else if (req.method === 'POST' && path === '/api/generate') {
+      await handleGenerate(req, res);
+    } else if (req.method === 'POST' && path === '/api/generate/stream') {
+      await handleGenerateStream(req, res);
+    } else if (req.method === 'POST' && path === '/api/chat/stream') {
+      await handleChatStream(req, res);
+    } else if (req.method === 'POST' && path === '/api/auth/register') {
+      await handleRegister(req, res);
+    } else if (req.method === 'POST' && path === '/api/auth/login') {
+      await handleLogin(req, res);
+    } else if (req.method === 'POST' && path === '/api/auth/logout') {
+      await handleLogout(req, res);
+    } else if (req.method === 'GET' && path === '/api/auth/me') {
+      sendJson(res, 200, { user: requireUser(req) });
+    } else if (req.method === 'GET' && path === '/api/account/data') {
+      // null until the account's first sync
+      sendJson(res, 200, await accountStore.getData(requireUser(req).id) ?? { updatedAt: null, data: null });
+    } else if (req.method === 'PUT' && path === '/api/account/data') {
+      await handlePutAccountData(req, res);
+    } else {
+      throw new HttpError(404, 'Not found.');
+    }
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error('Unhandled server error:', err);
+    const message = err instanceof HttpError ? err.message : 'Internal server error.';
+    if (!res.headersSent) sendJson(res, status, { error: message });
+    else res.end();
+  }
+});
+
+// Listen only when run directly; tests import the server and pick their own port
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  server.listen(config.port, () => {
+    console.log(`AI proxy listening on http://localhost:${config.port} (provider: ${config.provider}, model: ${config.model})`);
+  });
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnthropicProvider } from './anthropic';
+import type { CompletionRequest } from './types';
+
+const request: CompletionRequest = {
+  model: 'claude-test',
+  messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }],
+  temperature: 0.7,
+  maxTokens: 100,
+};
+
+const respond = (status: number, body: unknown) =>
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json(body, { status })));
+
+const failure = (status: number, message: string) =>
+  respond(status, { type: 'error', error: { type: 'error', message } });
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('AnthropicProvider', () => {
+  const provider = new AnthropicProvider('key');
+
+  it('sends system messages separately and returns the text blocks', async () => {
+    respond(200, { content: [{ type: 'text', text: 'Hello' }, { type: 'text', text: ' there' }] });
+    expect(await provider.complete(request)).toBe('Hello there');
+    const [, init] = vi.mocked(fetch).mock.calls[0];
+    expect(JSON.parse(init!.body as string)).toMatchObject({
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_tokens: 100,
+    });
+  });
+
+  it('classifies a low credit balance as quota, whatever the status', async () => {
+    failure(400, 'Your credit balance is too low to access the Anthropic API.');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'quota', status: 400 });
+  });
+
+  it('classifies an overloaded API as unavailable', async () => {
+    failure(529, 'Overloaded');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'unavailable', status: 529 });
+  });
+
+  it('falls back to the status for other errors', async () => {
+    failure(401, 'invalid x-api-key');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'auth', message: 'invalid x-api-key' });
+    failure(429, 'Number of requests has exceeded your rate limit');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'rate-limit' });
+  });
+
+  it('turns an overloaded error mid-stream into an unavailable error', async () => {
+    const events = [
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+    ];
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(events.map(e => `data: ${JSON.stringify(e)}\n\n`).join(''))));
+    const deltas: string[] = [];
+    const read = async () => {
+      for await (const delta of await provider.stream(request, new AbortController().signal)) deltas.push(delta);
+    };
+    await expect(read()).rejects.toMatchObject({ kind: 'unavailable', message: 'Overloaded' });
+    expect(deltas).toEqual(['Hel']);
+  });
+});
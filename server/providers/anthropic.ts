@@ -0,0 +1,58 @@
+import { classifyStatus, postJson, readSse, type ErrorClassifier } from './http';
+import { ProviderError, type CompletionRequest, type LLMProvider } from './types';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+
+const classify: ErrorClassifier = (status, message) => {
+  if (/credit balance/i.test(message)) return 'quota';
+  if (status === 529)                  return 'unavailable'; // overloaded
+  return classifyStatus(status);
+};
+
+/** Anthropic's Messages API, called over plain fetch */
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic';
+
+  constructor(private apiKey: string) {}
+
+  private send(req: CompletionRequest, stream: boolean, signal?: AbortSignal) {
+    const system = req.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return postJson(API_URL, {
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01',
+    }, {
+      model: req.model,
+      system: system || undefined,
+      messages: req.messages.filter(m => m.role !== 'system'),
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      stream,
+    }, classify, signal);
+  }
+
+  async complete(req: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    const resp = await this.send(req, false, signal);
+    const data = await resp.json() as { content?: { type: string; text?: string }[] };
+    const txt = data.content?.filter(b => b.type === 'text').map(b => b.text).join('');
+    if (!txt) throw new ProviderError('unknown', 'No content returned');
+    return txt;
+  }
+
+  async stream(req: CompletionRequest, signal: AbortSignal): Promise<AsyncIterable<string>> {
+    const resp = await this.send(req, true, signal);
+    return (async function* () {
+      for await (const data of readSse(resp)) {
+        const event = JSON.parse(data) as {
+          type: string;
+          delta?: { type: string; text?: string };
+          error?: { type: string; message: string };
+        };
+        if (event.type === 'error') {
+          const kind = event.error?.type === 'overloaded_error' ? 'unavailable' : 'unknown';
+          throw new ProviderError(kind, event.error?.message ?? 'Stream failed', 529);
+        }
+        if (event.type === 'content_block_delta' && event.delta?.text) yield event.delta.text;
+      }
+    })();
+  }
+}
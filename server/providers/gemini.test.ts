@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GeminiProvider } from './gemini';
+import type { CompletionRequest } from './types';
+
+const request: CompletionRequest = {
+  model: 'gemini-test',
+  messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }],
+  temperature: 0.7,
+  maxTokens: 100,
+};
+
+const failure = (status: number, message: string) =>
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: { code: status, message } }, { status })));
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('GeminiProvider', () => {
+  const provider = new GeminiProvider('key');
+
+  it('maps roles onto Gemini contents and joins the reply parts', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+      candidates: [{ content: { parts: [{ text: 'Hello' }, { text: ' there' }] } }],
+    })));
+    expect(await provider.complete(request)).toBe('Hello there');
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-test:generateContent');
+    expect(JSON.parse(init!.body as string)).toMatchObject({
+      systemInstruction: { parts: [{ text: 'Be brief.' }] },
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }, { role: 'model', parts: [{ text: 'Hello' }] }],
+    });
+  });
+
+  it('classifies a rejected API key as auth, though Gemini sends 400', async () => {
+    failure(400, 'API key not valid. Please pass a valid API key.');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'auth', status: 400 });
+  });
+
+  it('tells an exhausted quota apart from a rate limit', async () => {
+    failure(429, 'You exceeded your current quota, please check your plan and billing details.');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'quota' });
+    failure(429, 'Resource has been exhausted (e.g. check quota).');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'rate-limit' });
+  });
+
+  it('falls back to the status for other errors', async () => {
+    failure(503, 'The model is overloaded.');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'unavailable', status: 503 });
+    failure(400, 'Invalid JSON payload received.');
+    await expect(provider.complete(request)).rejects.toMatchObject({ kind: 'bad-request' });
+  });
+});
@@ -0,0 +1,54 @@
+import { classifyStatus, postJson, readSse, type ErrorClassifier } from './http';
+import { ProviderError, type CompletionRequest, type LLMProvider } from './types';
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+const classify: ErrorClassifier = (status, message) => {
+  if (/API key/i.test(message))        return 'auth';
+  if (status === 429 && /quota/i.test(message) && /billing|plan/i.test(message)) return 'quota';
+  return classifyStatus(status);
+};
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+const textOf = (data: GeminiResponse) =>
+  data.candidates?.[0]?.content?.parts?.map(p => p.text ?? '').join('') ?? '';
+
+/** Google's Gemini generateContent API, called over plain fetch */
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini';
+
+  constructor(private apiKey: string) {}
+
+  private send(req: CompletionRequest, method: string, signal?: AbortSignal) {
+    const system = req.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return postJson(`${API_BASE}/${encodeURIComponent(req.model)}:${method}`, {
+      'x-goog-api-key': this.apiKey,
+    }, {
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      contents: req.messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      generationConfig: { temperature: req.temperature, maxOutputTokens: req.maxTokens },
+    }, classify, signal);
+  }
+
+  async complete(req: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    const resp = await this.send(req, 'generateContent', signal);
+    const txt = textOf(await resp.json() as GeminiResponse);
+    if (!txt) throw new ProviderError('unknown', 'No content returned');
+    return txt;
+  }
+
+  async stream(req: CompletionRequest, signal: AbortSignal): Promise<AsyncIterable<string>> {
+    const resp = await this.send(req, 'streamGenerateContent?alt=sse', signal);
+    return (async function* () {
+      for await (const data of readSse(resp)) {
+        const delta = textOf(JSON.parse(data) as GeminiResponse);
+        if (delta) yield delta;
+      }
+    })();
+  }
+}
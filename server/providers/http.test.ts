@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyStatus, postJson, readSse } from './http';
+import { ProviderError } from './types';
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('classifyStatus', () => {
+  it('maps HTTP statuses to provider-neutral kinds', () => {
+    expect(classifyStatus(401)).toBe('auth');
+    expect(classifyStatus(403)).toBe('auth');
+    expect(classifyStatus(429)).toBe('rate-limit');
+    expect(classifyStatus(500)).toBe('unavailable');
+    expect(classifyStatus(503)).toBe('unavailable');
+    expect(classifyStatus(400)).toBe('bad-request');
+    expect(classifyStatus(404)).toBe('bad-request');
+    expect(classifyStatus(0)).toBe('unknown');
+  });
+});
+
+describe('postJson', () => {
+  it('passes the status, message and body of a failed response to the classifier', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: { message: 'Slow down' } }, { status: 429 })));
+    const classify = vi.fn(() => 'rate-limit' as const);
+    await expect(postJson('https://api.example.com/v1', {}, {}, classify)).rejects.toMatchObject({
+      kind: 'rate-limit', message: 'Slow down', status: 429,
+    });
+    expect(classify).toHaveBeenCalledWith(429, 'Slow down', { error: { message: 'Slow down' } });
+  });
+
+  it('reports an unreachable host as unavailable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+    const err = await postJson('https://api.example.com/v1', {}, {}, classifyStatus).catch(e => e);
+    expect(err).toBeInstanceOf(ProviderError);
+    expect(err).toMatchObject({ kind: 'unavailable', message: 'Could not reach api.example.com', status: 503 });
+  });
+
+  it('lets an abort through untouched', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const abort = new DOMException('aborted', 'AbortError');
+    vi.stubGlobal('fetch', vi.fn(async () => { throw abort; }));
+    await expect(postJson('https://api.example.com/v1', {}, {}, classifyStatus, controller.signal)).rejects.toBe(abort);
+  });
+});
+
+describe('readSse', () => {
+  it('yields the data of each event, however the chunks split', async () => {
+    const body = new Blob(['data: one\n\nda', 'ta: two\r\n\r\nevent: ping\ndata: thr', 'ee\n\n']).stream();
+    const events: string[] = [];
+    for await (const data of readSse(new Response(body))) events.push(data);
+    expect(events).toEqual(['one', 'two', 'three']);
+  });
+});
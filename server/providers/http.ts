@@ -0,0 +1,66 @@
+import { ProviderError, type ProviderErrorKind } from './types';
+
+/** Maps a failed HTTP response (status + parsed body) to a provider-neutral kind */
+export type ErrorClassifier = (status: number, message: string, body: unknown) => ProviderErrorKind;
+
+/** Fallback classification shared by every HTTP-based provider */
+export function classifyStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429)                   return 'rate-limit';
+  if (status >= 500)                    return 'unavailable';
+  if (status >= 400)                    return 'bad-request';
+  return 'unknown';
+}
+
+/** POST JSON and throw a `ProviderError` for any non-2xx response */
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  classify: ErrorClassifier,
+  signal?: AbortSignal
+): Promise<Response> {
+  let resp: Response;
+  try {
+    resp = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new ProviderError('unavailable', `Could not reach ${new URL(url).host}`, 503);
+  }
+  if (resp.ok) return resp;
+
+  const data = await resp.json().catch(() => ({})) as { error?: { message?: string } | string };
+  const message = typeof data.error === 'string' ? data.error : data.error?.message ?? resp.statusText;
+  throw new ProviderError(classify(resp.status, message, data), message, resp.status);
+}
+
+/** Yield the `data:` payload of each server-sent event in a response body */
+export async function* readSse(resp: Response): AsyncIterable<string> {
+  if (!resp.body) return;
+  const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const events = buffered.split(/\r?\n\r?\n/);
+      buffered = events.pop() ?? '';
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
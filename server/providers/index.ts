@@ -0,0 +1,24 @@
+import { config } from '../config';
+import { AnthropicProvider } from './anthropic';
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import { OpenAIProvider } from './openai';
+import type { LLMProvider } from './types';
+
+export type { ChatMessage, CompletionRequest, LLMProvider } from './types';
+export { ProviderError } from './types';
+
+/** Build the provider selected by AI_PROVIDER */
+export function createProvider(): LLMProvider {
+  switch (config.provider) {
+    case 'openai':    return new OpenAIProvider({ apiKey: config.apiKeys.openai });
+    case 'anthropic': return new AnthropicProvider(config.apiKeys.anthropic);
+    case 'gemini':    return new GeminiProvider(config.apiKeys.gemini);
+    case 'local':     return new OpenAIProvider({
+      id: 'local',
+      apiKey: config.apiKeys.local,
+      baseURL: config.localBaseUrl,
+    });
+    case 'mock':      return new MockProvider();
+  }
+}
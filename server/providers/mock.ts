@@ -0,0 +1,107 @@
+import type { CompletionRequest, LLMProvider } from './types';
+
+/** One question of each kind, so every practice input can be exercised offline */
+const mockPracticeSet = {
+  title: 'Mock practice set (offline mode)',
+  tips: ['Check units before substituting into $E = mc^2$.'],
+  questions: [
+    {
+      id: 'q1', kind: 'mcq', difficulty: 'easy',
+      prompt: 'Which constant is $c$ in $E = mc^2$?',
+      options: ['Speed of light', 'Planck constant', 'Charge of an electron', 'Gravitational constant'],
+      answer: 0,
+      solution: '$c$ is the speed of light in vacuum, about $3 \\times 10^8$ m/s.',
+    },
+    {
+      id: 'q2', kind: 'multi-select', difficulty: 'medium',
+      prompt: 'Which of these are SI base units?',
+      options: ['metre', 'newton', 'kilogram', 'joule'],
+      answers: [0, 2],
+      solution: 'The metre and kilogram are base units; the newton and joule are derived.',
+    },
+    {
+      id: 'q3', kind: 'numeric', difficulty: 'hard',
+      prompt: 'A 2 kg mass falls freely for 1 s from rest. How far does it fall? Take $g = 9.8$ m/s².',
+      answer: 4.9, tolerance: 0.05, unit: 'm',
+      solution: '$$\ns = \\tfrac{1}{2} g t^2 = \\tfrac{1}{2} (9.8)(1)^2 = 4.9\\,\\text{m}\n$$',
+    },
+  ],
+};
+
+/** A small graph with a node of every role */
+const mockConceptMap = {
+  title: 'Mock concept map (offline mode)',
+  nodes: [
+    { id: 'n1', label: 'Mock topic', role: 'topic', note: 'The topic being mapped.' },
+    { id: 'n2', label: 'Laws of Motion', role: 'prerequisite', note: 'Needed to follow the reasoning.' },
+    { id: 'n3', label: 'Mock related idea', role: 'related', note: 'Shares the same principle.' },
+    { id: 'n4', label: 'Mock application', role: 'advanced', note: 'Where the topic is used.' },
+  ],
+  edges: [
+    { from: 'n2', to: 'n1', label: 'is needed for' },
+    { from: 'n1', to: 'n3', label: 'relates to' },
+    { from: 'n1', to: 'n4', label: 'is applied in' },
+  ],
+  studyPath: ['n2', 'n1', 'n3', 'n4'],
+};
+
+/** Section bodies with a shape the contract or the app relies on */
+const mockBodies: Record<string, string> = {
+  '## Diagram': '```mermaid\nflowchart LR\n  A["Mass"] --> C["Energy"]\n  B["Speed of light"] --> C\n```',
+  '## Comparison': '| Quantity | Symbol | Unit |\n|---|---|---|\n| Energy | $E$ | J |\n| Mass | $m$ | kg |',
+  // Outlines ask for numbered "1. Label: …" items here, which must not split the section
+  '## Examples': '1. Rest energy: a 1 kg mass holds $9 \\times 10^{16}$ J.\n2. Fission: the lost mass is released as energy.',
+};
+
+/**
+ * Deterministic offline provider for tests and local development. It follows
+ * whatever outline the prompt asks for, so template changes show up here too.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+
+  async complete({ messages }: CompletionRequest): Promise<string> {
+    const prompt = messages[messages.length - 1]?.content ?? '';
+    if (/flashcards/i.test(prompt)) {
+      return JSON.stringify(
+        Array.from({ length: 4 }, (_, i) => ({ front: `Mock cue ${i + 1}?`, back: `Mock answer ${i + 1} with $E = mc^2$.` }))
+      );
+    }
+    if (/JSON array/i.test(prompt)) {
+      const categories = ['explanation', 'example', 'question', 'summary'];
+      const difficulties = ['easy', 'easy', 'medium', 'medium', 'hard'];
+      return JSON.stringify(
+        Array.from({ length: 5 }, (_, i) => ({
+          id: `q${i + 1}`,
+          question: `Mock follow-up question ${i + 1}?`,
+          contentType: categories[i % categories.length],
+          difficulty: difficulties[i],
+        }))
+      );
+    }
+    if (prompt.includes('"kind": "mcq"')) return JSON.stringify(mockPracticeSet);
+    if (prompt.includes('"nodes"')) return JSON.stringify(mockConceptMap);
+    // Numbered outlines ("## Application 1", "## Application 2"…) get five entries
+    const headings = (prompt.match(/^## .+$/gm) ?? ['## Overview']).flatMap(h => {
+      const numbered = h.match(/^## (.+?) (\d+)\b/);
+      if (!numbered) return [h];
+      return numbered[2] === '1' ? [1, 2, 3, 4, 5].map(n => `## ${numbered[1]} ${n}`) : [];
+    });
+    const intro = prompt.split('\n')[0];
+    return headings
+      .map(h => `${h}\n${mockBodies[h] ?? `Mock content for "${intro}" (offline mode).\n\n$$\nE = mc^2\n$$`}`)
+      .join('\n\n');
+  }
+
+  /** Replays the mock reply a few words at a time so streaming can be exercised offline */
+  async stream(req: CompletionRequest, signal: AbortSignal): Promise<AsyncIterable<string>> {
+    const words = (await this.complete(req)).split(/(?<=\s)/);
+    return (async function* () {
+      for (let i = 0; i < words.length; i += 4) {
+        if (signal.aborted) return;
+        await new Promise(r => setTimeout(r, 30));
+        yield words.slice(i, i + 4).join('');
+      }
+    })();
+  }
+}
@@ -0,0 +1,67 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { OpenAIProvider } from './openai';
+import type { CompletionRequest } from './types';
+
+const request: CompletionRequest = {
+  model: 'gpt-test',
+  messages: [{ role: 'user', content: 'Hi' }],
+  temperature: 0.7,
+  maxTokens: 100,
+};
+
+/** What the fake server answers next: a status and an OpenAI-style body */
+let reply: { status: number; body: unknown } = { status: 200, body: {} };
+let server: Server;
+let baseURL: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    req.resume().on('end', () => {
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const failWith = (status: number, message: string, code?: string) => {
+  reply = { status, body: { error: { message, type: 'error', code } } };
+};
+
+describe('OpenAIProvider', () => {
+  const provider = () => new OpenAIProvider({ apiKey: 'key', baseURL });
+
+  it('returns the first choice', async () => {
+    reply = { status: 200, body: { choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' } }] } };
+    expect(await provider().complete(request)).toBe('Hello');
+  });
+
+  it('classifies API errors by status', async () => {
+    failWith(401, 'Incorrect API key provided');
+    await expect(provider().complete(request)).rejects.toMatchObject({ kind: 'auth', status: 401 });
+    failWith(429, 'Rate limit reached');
+    await expect(provider().complete(request)).rejects.toMatchObject({ kind: 'rate-limit', status: 429 });
+    failWith(500, 'The server had an error');
+    await expect(provider().complete(request)).rejects.toMatchObject({ kind: 'unavailable', status: 500 });
+  });
+
+  it('classifies insufficient_quota as quota, though OpenAI sends 429', async () => {
+    failWith(429, 'You exceeded your current quota', 'insufficient_quota');
+    await expect(provider().complete(request)).rejects.toMatchObject({ kind: 'quota', status: 429 });
+  });
+
+  it('reports an unreachable server as unavailable', async () => {
+    const closed = new OpenAIProvider({ apiKey: 'key', baseURL: 'http://127.0.0.1:9/v1' });
+    await expect(closed.complete(request)).rejects.toMatchObject({ kind: 'unavailable', status: 503 });
+  });
+
+  it('maps errors that reject a stream before it starts', async () => {
+    failWith(403, 'Project does not have access');
+    await expect(provider().stream(request, new AbortController().signal)).rejects.toMatchObject({ kind: 'auth' });
+  });
+});
@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import { classifyStatus } from './http';
+import { ProviderError, type CompletionRequest, type LLMProvider } from './types';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  /** Point at any OpenAI-compatible server (Ollama, llama.cpp, vLLM …) */
+  baseURL?: string;
+  id?: string;
+}
+
+/** OpenAI's chat completions API, or anything that speaks the same protocol */
+export class OpenAIProvider implements LLMProvider {
+  readonly id: string;
+  private client: OpenAI;
+
+  constructor({ apiKey, baseURL, id = 'openai' }: OpenAIProviderOptions) {
+    this.id = id;
+    // Local servers ignore the key, but the SDK refuses to start without one.
+    // ContentService does the retrying, so the SDK's own retries are off.
+    this.client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL, maxRetries: 0 });
+  }
+
+  private mapError(err: unknown): unknown {
+    if (err instanceof OpenAI.APIUserAbortError) return err;
+    if (err instanceof OpenAI.APIConnectionError) {
+      return new ProviderError('unavailable', err.message, 503);
+    }
+    if (err instanceof OpenAI.APIError) {
+      const kind = err.code === 'insufficient_quota' ? 'quota' : classifyStatus(err.status ?? 0);
+      return new ProviderError(kind, err.message, err.status);
+    }
+    return err;
+  }
+
+  async complete(req: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    try {
+      const resp = await this.client.chat.completions.create({
+        model: req.model,
+        messages: req.messages,
+        temperature: req.temperature,
+        max_tokens: req.maxTokens,
+      }, { signal });
+      const txt = resp.choices?.[0]?.message?.content;
+      if (!txt) throw new ProviderError('unknown', 'No content returned');
+      return txt;
+    } catch (err) {
+      throw this.mapError(err);
+    }
+  }
+
+  async stream(req: CompletionRequest, signal: AbortSignal): Promise<AsyncIterable<string>> {
+    const stream = await this.client.chat.completions.create({
+      model: req.model,
+      messages: req.messages,
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      stream: true,
+    }, { signal }).catch(err => { throw this.mapError(err); });
+
+    const mapError = this.mapError.bind(this);
+    return (async function* () {
+      try {
+        for await (const chunk of stream) {
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      } catch (err) {
+        throw mapError(err);
+      }
+    })();
+  }
+}
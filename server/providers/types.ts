@@ -0,0 +1,41 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+}
+
+/** What went wrong upstream, independent of which vendor reported it */
+export type ProviderErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'quota'
+  | 'unavailable'
+  | 'bad-request'
+  | 'unknown';
+
+export class ProviderError extends Error {
+  constructor(
+    public kind: ProviderErrorKind,
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+  }
+}
+
+export interface LLMProvider {
+  readonly id: string;
+  /** Send one completion and return its full text */
+  complete(req: CompletionRequest, signal?: AbortSignal): Promise<string>;
+  /**
+   * Start a streamed completion. The promise settles once the provider has
+   * accepted the request, so callers can retry failures before any text arrives.
+   */
+  stream(req: CompletionRequest, signal: AbortSignal): Promise<AsyncIterable<string>>;
+}
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+
+beforeEach(() => vi.useFakeTimers());
+afterEach(() => vi.useRealTimers());
+
+describe('RateLimiter', () => {
+  it('allows the limit per window, then says how long to wait', () => {
+    const limiter = new RateLimiter(2, 60_000);
+    expect(limiter.hit('a')).toEqual({ allowed: true });
+    expect(limiter.hit('a')).toEqual({ allowed: true });
+    vi.advanceTimersByTime(15_000);
+    expect(limiter.hit('a')).toEqual({ allowed: false, retryAfter: 45 });
+  });
+
+  it('counts each client separately', () => {
+    const limiter = new RateLimiter(1, 60_000);
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('b').allowed).toBe(true);
+    expect(limiter.hit('a').allowed).toBe(false);
+  });
+
+  it('starts a fresh window once the old one ends', () => {
+    const limiter = new RateLimiter(1, 60_000);
+    limiter.hit('a');
+    vi.advanceTimersByTime(60_000);
+    expect(limiter.hit('a').allowed).toBe(true);
+  });
+
+  it('prunes only expired windows', () => {
+    const limiter = new RateLimiter(1, 60_000);
+    limiter.hit('a');
+    vi.advanceTimersByTime(30_000);
+    limiter.hit('b');
+    vi.advanceTimersByTime(30_000);
+    limiter.prune();
+    // b's window survived the sweep, so it is still over its limit
+    expect(limiter.hit('b').allowed).toBe(false);
+    expect(limiter.hit('a').allowed).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+/** Fixed-window request counter per client id */
+interface Window { count: number; resetAt: number; }
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+  constructor(private limit: number, private windowMs: number) {}
+
+  /** Counts one request for `clientId`; returns seconds to wait when over the limit */
+  hit(clientId: string): { allowed: true } | { allowed: false; retryAfter: number } {
+    const now = Date.now();
+    let w = this.windows.get(clientId);
+    if (!w || now >= w.resetAt) {
+      w = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(clientId, w);
+    }
+    if (w.count >= this.limit) {
+      return { allowed: false, retryAfter: Math.ceil((w.resetAt - now) / 1000) };
+    }
+    w.count++;
+    return { allowed: true };
+  }
+
+  /** Drop expired windows so idle clients don't accumulate */
+  prune() {
+    const now = Date.now();
+    for (const [id, w] of this.windows) {
+      if (now >= w.resetAt) this.windows.delete(id);
+    }
+  }
+}
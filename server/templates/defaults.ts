@@ -0,0 +1,284 @@
+import type { PromptType } from '../../src/types';
+
+/** System message for subjects without a persona of their own */
+export const DEFAULT_PERSONA =
+  'You are an expert, encouraging tutor. Always output in Markdown with headings, bullet lists, and LaTeX for any math.';
+
+// Define each template separately—no self reference!
+const explainSimplyTemplate = `
+Generate a clear, well-structured explanation of **%TOPIC%**. Use exactly this Markdown outline:
+
+## Overview
+A concise definition and why it matters.
+
+## Analogy
+A simple real-world analogy.
+
+## Core Concepts
+- Concept: description
+(3–5 bullet points)
+
+## Key Rules
+The central definitions, rules or formulas of the topic. Put any formula in display
+math ($$…$$) and explain each symbol or term below it.
+
+## Examples
+1. First practical example with step-by-step solution.
+2. Second illustrative example.
+
+## Takeaways
+- Key point 1
+- Key point 2
+
+Return only the raw Markdown, with ## headings, - bullets, numbered lists, and $$…$$ math. No extra formatting instructions.
+`.trim();
+
+const visualGuideTemplate = `
+Teach '%TOPIC%' visually, in Markdown that the app draws as real diagrams:
+
+## Visual Summary
+Two or three sentences on what the diagram shows and how to read it.
+
+## Diagram
+One Mermaid diagram in a \`\`\`mermaid code block: a flowchart (\`flowchart LR\` or \`flowchart TD\`)
+for a process or cause and effect, a \`mindmap\` for how the parts fit together, or a
+\`sequenceDiagram\` or \`timeline\` for steps in order. Use at most 15 nodes, short node ids
+(A, B, C…) and labels in double quotes, e.g. \`A["Light hits the leaf"] --> B["Chlorophyll absorbs it"]\`.
+No HTML, no click, link or style lines, and no %%{init}%% directives.
+
+## Comparison
+A Markdown table with a header row comparing 2–4 related cases, quantities or ideas
+side by side.
+
+## Key Notes
+- What to notice in the diagram
+- How the compared cases differ
+
+Return raw Markdown only.
+`.trim();
+
+/** JSON shape shared by the practice templates; validated by parsePracticeSet */
+export const practiceSetSchema = `
+Return a single JSON object, with no Markdown around it and no code fences:
+{
+  "title": string,
+  "tips": [string],                      // optional
+  "questions": [
+    { "id": "q1", "kind": "mcq", "prompt": string, "options": [string], "answer": <index of the correct option>,
+      "difficulty": "easy" | "medium" | "hard", "solution": string },
+    { "id": "q2", "kind": "multi-select", "prompt": string, "options": [string], "answers": [<indices of every correct option>],
+      "difficulty": …, "solution": string },
+    { "id": "q3", "kind": "numeric", "prompt": string, "answer": number, "tolerance": number, "unit": string,
+      "difficulty": …, "solution": string }
+  ]
+}
+Prompts, options, tips and solutions are Markdown strings with LaTeX ($…$ inline, $$…$$ display);
+escape backslashes for JSON ("\\\\frac"). Option indices start at 0. "tolerance" is the absolute
+error still marked correct, in the same unit as "answer"; omit "unit" for dimensionless answers.
+Each "solution" is a complete worked solution, step by step.
+`.trim();
+
+const interactivePracticeTemplate = `
+Create a practice set for '%TOPIC%' that builds from a warm-up to harder problems:
+6 questions — 2 easy, 2 medium, 2 hard — mixing mcq, multi-select and numeric kinds,
+with at least one numeric question.
+
+${practiceSetSchema}
+`.trim();
+
+const questionBankTemplate = `
+Create a bank of 12 exam questions on '%TOPIC%' for assembling mock papers:
+4 easy, 4 medium and 4 hard, each labelled with its difficulty. Include at least
+3 mcq, 3 multi-select and 3 numeric questions. Questions must stand alone, without
+referring to each other.
+
+${practiceSetSchema}
+`.trim();
+
+const realApplicationsTemplate = `
+List 4–6 real-world applications of '%TOPIC%' in Markdown:
+
+## Application 1
+…
+
+## Application 2
+…
+
+…
+
+Return raw Markdown only.
+`.trim();
+
+const deepDiveTemplate = `
+Deep dive into '%TOPIC%':
+
+## Theory
+…
+
+## Formal Detail
+Precise definitions, derivations or rules, with LaTeX for any math.
+
+## Edge Cases
+…
+
+## Research
+…
+
+Return raw Markdown only.
+`.trim();
+
+const examMasteryTemplate = `
+Create an exam-style practice set for '%TOPIC%': 8 questions at the level of the
+real exam, mostly medium and hard, mixing mcq, multi-select and numeric kinds.
+Put 3–5 exam strategies and common pitfalls for this topic in "tips".
+
+${practiceSetSchema}
+`.trim();
+
+const conceptMapTemplate = `
+Draw a concept map for '%TOPIC%' as a graph: the topic itself, 2–4 prerequisites,
+2–4 related topics and 2–4 advanced uses, with edges saying how they connect.
+
+Return a single JSON object, with no Markdown around it and no code fences:
+{
+  "title": string,
+  "nodes": [
+    { "id": "n1", "label": string, "role": "topic" | "prerequisite" | "related" | "advanced", "note": string }
+  ],
+  "edges": [
+    { "from": <node id>, "to": <node id>, "label": string }
+  ],
+  "studyPath": [<node ids in the order to study them>]
+}
+Exactly one node has the role "topic". Labels are short topic names (2–5 words) as a
+syllabus would title them, without LaTeX. Each "note" is one sentence on how the concept
+connects to '%TOPIC%'. Edge labels are short verb phrases read from → to, such as
+"is needed for" or "is applied in", and every edge connects two listed nodes.
+`.trim();
+
+const commonMistakesTemplate = `
+Top 5 misconceptions in '%TOPIC%', one section each:
+
+## Mistake 1: <the misconception in a few words>
+- Why it's wrong: …
+- Correction: …
+
+## Mistake 2: …
+
+… repeat for each …
+
+Return raw Markdown only.
+`.trim();
+
+const followUpTemplate = `
+Suggest 5 follow-up questions a student could ask next, having just read this lesson on '%TOPIC%':
+"""
+%LESSON%
+"""
+
+Each question must build on something the lesson actually covers. Give each one a category:
+- "explanation": why or how something in the lesson works
+- "example": a worked example or an application of it
+- "question": a problem that checks the student's understanding
+- "summary": a recap of, or comparison between, ideas in the lesson
+Use at least three categories, and order the questions from easiest to hardest.
+
+Return a pure JSON array:
+[{"id":"q1","question":"…","contentType":"explanation" | "example" | "question" | "summary","difficulty":"easy" | "medium" | "hard"},…]
+No Markdown, no code fences.
+`.trim();
+
+const followUpAnswerTemplate = `
+Answer the student's follow-up question on '%TOPIC%':
+
+Question: %QUESTION%
+
+The student has just read the lesson below. Build on it, reuse its notation,
+and do not contradict it:
+"""
+%LESSON%
+"""
+
+## Explanation
+…
+
+## Key Idea
+…
+
+## Example
+…
+
+## Resources
+…
+
+Return raw Markdown only.
+`.trim();
+
+const followUpExampleTemplate = `
+Work through an example the student asked for on '%TOPIC%':
+
+Request: %QUESTION%
+
+The student has just read the lesson below. Build on it, reuse its notation,
+and do not contradict it:
+"""
+%LESSON%
+"""
+
+## Setup
+The situation, what is given and what is asked.
+
+## Worked Solution
+Each step with the reasoning behind it, with LaTeX for any math and code blocks for any code.
+
+## Check
+How to confirm the result is right, or what changes if one condition changes.
+
+## Try This
+A similar problem for the student, with only its final answer.
+
+Return raw Markdown only.
+`.trim();
+
+const flashcardsTemplate = `
+Write 8–12 flashcards that help a student remember '%TOPIC%' a week from now.
+Cover the core concepts, key formulas and takeaways of the lesson below, one fact per card:
+"""
+%LESSON%
+"""
+
+Return a pure JSON array of flashcards: [{"front":"…","back":"…"},…]
+Fronts are short questions or cues; backs are the answers in one or two sentences.
+Use LaTeX ($…$) for formulas and escape backslashes for JSON. No Markdown, no code fences.
+`.trim();
+
+const translateTemplate = `
+Translate this lesson on '%TOPIC%' into English for a student who reads it side by side with the original:
+"""
+%LESSON%
+"""
+
+Translate it sentence by sentence, in the same order, so each part lines up with the original.
+Keep every "## " heading, paragraph break, list item and table row where it is. Do not add,
+drop, shorten or explain anything. Leave LaTeX, code, Mermaid diagrams, units and numbers unchanged.
+
+Return raw Markdown only.
+`.trim();
+
+/** Templates for every prompt type, used wherever a subject has no override */
+export const defaultTemplates: Record<PromptType, string> = {
+  'explain-simply':       explainSimplyTemplate,
+  'visual-guide':         visualGuideTemplate,
+  'interactive-practice': interactivePracticeTemplate,
+  'real-applications':    realApplicationsTemplate,
+  'deep-dive':            deepDiveTemplate,
+  'exam-mastery':         examMasteryTemplate,
+  'concept-map':          conceptMapTemplate,
+  'common-mistakes':      commonMistakesTemplate,
+  'follow-up':            followUpTemplate,
+  'follow-up-answer':     followUpAnswerTemplate,
+  'follow-up-example':    followUpExampleTemplate,
+  'flashcards':           flashcardsTemplate,
+  'question-bank':        questionBankTemplate,
+  'translate':            translateTemplate,
+};
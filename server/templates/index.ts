@@ -0,0 +1,111 @@
+import type { GenerationContext, LanguageCode, LearnerLevel, LearnerProfile, PromptType, StudyDepth } from '../../src/types';
+import { DEFAULT_PROFILE, labelOf } from '../../src/services/learnerProfile';
+import { isPracticeType } from '../../src/services/practice';
+import { DEFAULT_PERSONA, defaultTemplates } from './defaults';
+import { subjectTemplates } from './subjects';
+
+/** Bump whenever a template changes so clients stop serving lessons built from the old one */
+export const TEMPLATE_VERSION = 13;
+
+/** Every known prompt type, with its subject-neutral template */
+export const promptTemplates = defaultTemplates;
+
+/** The subject's own outline for a prompt type, or the default when it has none */
+export function templateFor(type: PromptType, subjectId?: string): string {
+  return (subjectId && subjectTemplates[subjectId]?.templates[type]) || defaultTemplates[type];
+}
+
+/** System message for generating a subject's lessons */
+export function systemPromptFor(subjectId?: string): string {
+  return (subjectId && subjectTemplates[subjectId]?.persona) || DEFAULT_PERSONA;
+}
+
+/** Appended to the prompt when the learner model has placed the student on the topic */
+const levelGuidance: Record<Exclude<LearnerLevel, 'steady'>, { lesson: string; practice: string }> = {
+  struggling: {
+    lesson: `The student has been finding '%TOPIC%' hard. Use plain language and everyday
+analogies, build up in small steps, and work one simple example fully before any harder one.`,
+    practice: `The student has been finding '%TOPIC%' hard. Shift the mix towards easy and
+medium questions, and make each solution spell out every step.`,
+  },
+  strong: {
+    lesson: `The student already handles '%TOPIC%' well. Keep the basics brief and spend the
+space on subtleties, edge cases and multi-step reasoning.`,
+    practice: `The student already handles '%TOPIC%' well. Shift the mix towards hard,
+multi-concept questions, keeping at most one easy question.`,
+  },
+};
+
+const depthGuidance: Record<StudyDepth, string> = {
+  brief:    'Keep it brief: the essentials only, in about half the usual length.',
+  standard: 'Give each part of the outline its usual length.',
+  detailed: 'Go into depth: fuller derivations or analysis and an extra worked example where the outline has examples.',
+};
+
+/** Script each language is written in, named so the model doesn't fall back to romanisation */
+const scripts: Record<Exclude<LanguageCode, 'en'>, string> = {
+  hi: 'Devanagari',
+  ta: 'Tamil',
+  bn: 'Bengali',
+};
+
+/** Who the output is for, appended to every prompt */
+export function audienceNote(profile: LearnerProfile = DEFAULT_PROFILE): string {
+  const grade = labelOf('grade', profile.grade);
+  const student = profile.grade === 'adult' ? 'an adult learner'
+    : profile.grade === 'undergraduate' ? 'an undergraduate student'
+    : `a ${grade} student`;
+  const lines = [
+    profile.examTarget === 'none'
+      ? `Audience: ${student}. Pitch vocabulary, examples and difficulty at that level.`
+      : `Audience: ${student} preparing for ${labelOf('examTarget', profile.examTarget)}. Pitch vocabulary, `
+        + 'examples and difficulty at that level, and follow that exam\'s syllabus and question style.',
+    depthGuidance[profile.depth],
+  ];
+  if (profile.language !== 'en') {
+    // The app matches "## " headings and JSON fields in English and translates headings itself
+    lines.push(`Write the prose in ${labelOf('language', profile.language)}, in ${scripts[profile.language]} script. `
+      + 'Keep every "## " heading from the outline exactly as written in English. Keep LaTeX, code, Mermaid syntax, units '
+      + 'and Western digits unchanged, and keep JSON field names and fixed values such as "kind", '
+      + '"difficulty", "contentType" and "role" in English.');
+  }
+  return lines.join('\n');
+}
+
+/** Longest slice of the previous lesson quoted back to the model */
+const MAX_LESSON_CHARS = 12000;
+
+export function buildPrompt(topic: string, type: PromptType, context: GenerationContext = {}) {
+  const lesson = context.lesson?.slice(0, MAX_LESSON_CHARS) || '(no previous lesson)';
+  const guidance = context.level && context.level !== 'steady' ? levelGuidance[context.level] : null;
+  const base = templateFor(type, context.subject);
+  const adaptations: string[] = [];
+  // A translation keeps the lesson as written, so the audience and level notes would only distort it
+  if (type !== 'translate') {
+    adaptations.push(audienceNote(context.profile));
+    if (guidance) adaptations.push(isPracticeType(type) ? guidance.practice : guidance.lesson);
+  }
+  const template = [base, ...adaptations].join('\n\n');
+  return template
+    .replace(/%TOPIC%/g, topic)
+    .replace(/%QUESTION%/g, () => context.question || `Explain ${topic} further.`)
+    .replace(/%LESSON%/g, () => lesson);
+}
+
+/** System prompt for the free-form tutor chat attached to a topic */
+export function buildChatSystemPrompt(
+  topic: string,
+  { lesson, profile }: Pick<GenerationContext, 'lesson' | 'profile'> = {}
+) {
+  const grounding = lesson
+    ? `\n\nThe student has this lesson open. Stay consistent with it and reuse its notation:\n"""\n${lesson.slice(0, MAX_LESSON_CHARS)}\n"""`
+    : '';
+  return `
+You are a patient tutor helping a student with '${topic}'. Answer their questions
+conversationally and concisely, in Markdown with LaTeX ($…$ inline, $$…$$ display).
+When they quote part of a lesson, focus your answer on that part. If a question
+strays from the topic, answer briefly and steer back.
+
+${audienceNote(profile)}
+`.trim() + grounding;
+}
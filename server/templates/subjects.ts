@@ -0,0 +1,314 @@
+import type { PromptType } from '../../src/types';
+import { practiceSetSchema } from './defaults';
+
+/** How one subject is taught: its system persona and the outlines that differ from the defaults */
+export interface SubjectTemplates {
+  persona: string;
+  templates: Partial<Record<PromptType, string>>;
+}
+
+const physics: SubjectTemplates = {
+  persona:
+    'You are an experienced physics teacher who prepares students for school boards and entrance exams. '
+    + 'Always output in Markdown with headings, bullet lists, and LaTeX for every formula and unit.',
+  templates: {
+    'explain-simply': `
+Generate an exam-ready explanation of **%TOPIC%**. Use exactly this Markdown outline:
+
+## Overview
+A concise definition and why it matters.
+
+## Analogy
+A simple real-world analogy.
+
+## Core Concepts
+- Concept: description
+(3–5 bullet points)
+
+## Formula & Derivation
+The governing law or formula of this topic in display math ($$…$$), derived in short
+steps, with each symbol and its SI unit explained below.
+
+## Examples
+1. A numerical example solved step by step, with units carried through.
+2. A conceptual example.
+
+## Takeaways
+- Key point 1
+- Key point 2
+
+Return only the raw Markdown, with ## headings, - bullets, numbered lists, and $$…$$ math.
+`.trim(),
+  },
+};
+
+const mathematics: SubjectTemplates = {
+  persona:
+    'You are a rigorous but friendly mathematics teacher. Always output in Markdown with headings, '
+    + 'bullet lists, and LaTeX ($…$ inline, $$…$$ display) for all mathematics.',
+  templates: {
+    'explain-simply': `
+Generate a clear explanation of **%TOPIC%**. Use exactly this Markdown outline:
+
+## Overview
+What the idea is and where it is used.
+
+## Analogy
+An intuitive picture of the idea.
+
+## Core Concepts
+- Definition or property: description
+(3–5 bullet points)
+
+## Theorem & Proof
+The central result in display math, with a short proof or proof sketch.
+
+## Examples
+1. A worked example, every step shown.
+2. A harder example that uses the result in a less obvious way.
+
+## Takeaways
+- Key point 1
+- Key point 2
+
+Return only the raw Markdown, with ## headings, - bullets, numbered lists, and $$…$$ math.
+`.trim(),
+  },
+};
+
+const chemistry: SubjectTemplates = {
+  persona:
+    'You are an experienced chemistry teacher. Always output in Markdown with headings and bullet lists. '
+    + 'Write chemical formulas and equations in LaTeX with \\mathrm{} and \\rightarrow (no \\ce), '
+    + 'and balance every equation.',
+  templates: {
+    'explain-simply': `
+Generate a clear explanation of **%TOPIC%**. Use exactly this Markdown outline:
+
+## Overview
+A concise definition and why it matters.
+
+## Analogy
+A simple everyday analogy.
+
+## Core Concepts
+- Concept: description
+(3–5 bullet points)
+
+## Reactions & Mechanisms
+The key reactions as balanced equations in display math, with conditions (reagents,
+catalyst, temperature) over the arrow. Walk through the mechanism step by step:
+which bonds break and form, where electrons move, and any intermediates.
+
+## Examples
+1. A worked example, e.g. predicting a product or a stoichiometry calculation.
+2. A second example that contrasts with the first.
+
+## Takeaways
+- Key point 1
+- Key point 2
+
+Return only the raw Markdown, with ## headings, - bullets, numbered lists, and $$…$$ math.
+`.trim(),
+    'deep-dive': `
+Deep dive into '%TOPIC%':
+
+## Theory
+…
+
+## Mechanism
+Step-by-step mechanism with intermediates and transition states, equations in LaTeX.
+
+## Energetics & Kinetics
+…
+
+## Exceptions
+…
+
+## Research
+…
+
+Return raw Markdown only.
+`.trim(),
+  },
+};
+
+const biology: SubjectTemplates = {
+  persona:
+    'You are an experienced biology teacher. Always output in Markdown with headings and bullet lists. '
+    + 'Use precise terminology, define each term the first time it appears, and use LaTeX only for '
+    + 'quantities and ratios.',
+  templates: {
+    'explain-simply': `
+Generate a clear explanation of **%TOPIC%**. Use exactly this Markdown outline:
+
+## Overview
+A concise definition and why it matters to living things.
+
+## Analogy
+A simple everyday analogy.
+
+## Core Concepts
+- Term or structure: description
+(3–5 bullet points)
+
+## Process
+The process step by step: where in the organism or cell each step happens, which
+structures and molecules take part, and what controls it.
+
+## Examples
+1. An example from a real organism.
+2. An example of what happens when the process goes wrong.
+
+## Takeaways
+- Key point 1
+- Key point 2
+
+Return only the raw Markdown, with ## headings, - bullets and numbered lists.
+`.trim(),
+  },
+};
+
+/** English practice cannot have numeric answers */
+const englishPracticeKinds = `
+mixing mcq and multi-select kinds (no numeric questions). Quote any lines or passage
+a question depends on inside its prompt.
+`.trim();
+
+const english: SubjectTemplates = {
+  persona:
+    'You are an experienced English literature and language teacher. Always output in Markdown with '
+    + 'headings and bullet lists. Quote texts accurately and briefly, and never use LaTeX.',
+  templates: {
+    'explain-simply': `
+Generate a clear explanation of **%TOPIC%**. Use exactly this Markdown outline:
+
+## Overview
+What the text or skill is and why it matters.
+
+## Context
+For a poem, story or essay: the author, period, form and background. For a reading
+or writing skill: when it is used and what examiners look for.
+
+## Core Concepts
+For a text: its themes and central ideas. For a skill: its format and conventions.
+(3–5 bullet points)
+
+## Close Reading
+For a text: short quoted lines, the literary device each uses, and its effect. For a
+skill: an annotated model answer, such as a sample letter or summary with notes.
+
+## Examples
+1. An exam-style question with a model answer.
+2. A second example that shows a different angle.
+
+## Takeaways
+- Key point 1
+- Key point 2
+
+Return only the raw Markdown, with ## headings, - bullets and numbered lists.
+`.trim(),
+    'deep-dive': `
+Deep dive into '%TOPIC%':
+
+## Interpretations
+…
+
+## Language & Form
+…
+
+## Critical Perspectives
+…
+
+## Connections
+Links to other texts, writers or real-world writing.
+
+Return raw Markdown only.
+`.trim(),
+    'interactive-practice': `
+Create a practice set for '%TOPIC%' that builds from a warm-up to harder questions:
+6 questions — 2 easy, 2 medium, 2 hard — ${englishPracticeKinds}
+
+${practiceSetSchema}
+`.trim(),
+    'exam-mastery': `
+Create an exam-style practice set for '%TOPIC%': 8 questions at the level of the
+real exam, mostly medium and hard, ${englishPracticeKinds}
+Put 3–5 exam strategies and common pitfalls for this topic in "tips".
+
+${practiceSetSchema}
+`.trim(),
+    'question-bank': `
+Create a bank of 12 exam questions on '%TOPIC%' for assembling mock papers:
+4 easy, 4 medium and 4 hard, each labelled with its difficulty, ${englishPracticeKinds}
+Questions must stand alone, without referring to each other.
+
+${practiceSetSchema}
+`.trim(),
+  },
+};
+
+const computerScience: SubjectTemplates = {
+  persona:
+    'You are an experienced computer science teacher. Always output in Markdown with headings and '
+    + 'bullet lists. Put code in fenced blocks tagged with their language, using Java unless the topic '
+    + 'calls for another language, and use LaTeX only for complexity and math.',
+  templates: {
+    'explain-simply': `
+Generate a clear explanation of **%TOPIC%**. Use exactly this Markdown outline:
+
+## Overview
+A concise definition and why programmers need it.
+
+## Analogy
+A simple everyday analogy.
+
+## Core Concepts
+- Concept: description
+(3–5 bullet points)
+
+## Code
+A short, complete, commented example in a fenced code block, followed by what it
+prints and a trace of how it gets there.
+
+## Complexity
+Time and space complexity in Big-O ($O(n)$), and why.
+
+## Takeaways
+- Key point 1
+- Key point 2
+
+Return only the raw Markdown, with ## headings, - bullets, numbered lists and fenced code.
+`.trim(),
+    'deep-dive': `
+Deep dive into '%TOPIC%':
+
+## Theory
+…
+
+## Implementation
+A complete implementation in a fenced code block, with the design choices explained.
+
+## Complexity
+…
+
+## Edge Cases
+…
+
+## Further Reading
+…
+
+Return raw Markdown only.
+`.trim(),
+  },
+};
+
+/** Per-subject personas and outlines, keyed by subject id from the syllabi */
+export const subjectTemplates: Record<string, SubjectTemplates> = {
+  physics,
+  mathematics,
+  chemistry,
+  biology,
+  english,
+  'computer-science': computerScience,
+};
@@ -1,31 +1,72 @@
-import React, { useState } from 'react';
-import { Subject } from './types';
+import { useEffect } from 'react';
+import { Navigate, Route, Routes, useNavigate, useParams } from 'react-router-dom';
 import HomePage from './pages/HomePage';
 import SubjectPage from './pages/SubjectPage';
+import HistoryPage from './pages/HistoryPage';
+import ReviewPage from './pages/ReviewPage';
+import MockExamPage from './pages/MockExamPage';
+import { getSubjectById, getTopicById, topicTree } from './data/curriculum';
+import { isKnownPromptType } from './data/promptTypes';
+import { authStore } from './services/authService';
+import { startAccountSync } from './services/accountSync';
+import { useI18n } from './hooks/useI18n';
+import { homePath, subjectPath, topicPath } from './routes';
 
-function App() {
-  const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
+function HomeRoute() {
+  const navigate = useNavigate();
+  return <HomePage onSelectSubject={subject => navigate(subjectPath(subject.id))} />;
+}
+
+function SubjectRoute() {
+  const { subjectId = '', topicId, promptType } = useParams();
+  const subject = getSubjectById(subjectId);
+  if (!subject) return <Navigate to={homePath()} replace />;
+  if (topicId !== undefined) {
+    // Unknown topics fall back to the subject, topics of another subject move
+    // under their own, and an unknown prompt mode is dropped
+    if (!getTopicById(topicId)) return <Navigate to={subjectPath(subject.id)} replace />;
+    const owner = topicTree.subjectOf(topicId) ?? subject.id;
+    const mode = isKnownPromptType(promptType) ? promptType : undefined;
+    if (owner !== subject.id || mode !== promptType) return <Navigate to={topicPath(owner, topicId, mode)} replace />;
+  }
+  return <SubjectPage subject={subject} />;
+}
 
-  const handleSelectSubject = (subject: Subject) => {
-    setSelectedSubject(subject);
-  };
+function ExamRoute() {
+  const { subjectId = '' } = useParams();
+  const subject = getSubjectById(subjectId);
+  if (!subject) return <Navigate to={homePath()} replace />;
+  return <MockExamPage subject={subject} />;
+}
+
+function App() {
+  useEffect(() => {
+    const stop = startAccountSync();
+    authStore.refresh();
+    return stop;
+  }, []);
 
-  const handleBackToSubjects = () => {
-    setSelectedSubject(null);
-  };
+  // Screen readers and fonts pick the script from the document language
+  const { language } = useI18n();
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
 
   return (
     <div className="min-h-screen bg-gray-50">
-      {selectedSubject ? (
-        <SubjectPage 
-          subject={selectedSubject} 
-          onBackToSubjects={handleBackToSubjects} 
-        />
-      ) : (
-        <HomePage onSelectSubject={handleSelectSubject} />
-      )}
+      <Routes>
+        <Route path="/" element={<HomeRoute />} />
+        <Route path="/subjects/:subjectId" element={<SubjectRoute />} />
+        <Route path="/subjects/:subjectId/exam" element={<ExamRoute />} />
+        <Route path="/subjects/:subjectId/topics/:topicId" element={<SubjectRoute />} />
+        <Route path="/subjects/:subjectId/topics/:topicId/:promptType" element={<SubjectRoute />} />
+        <Route path="/history" element={<HistoryPage />} />
+        <Route path="/history/lessons/:lessonId" element={<HistoryPage />} />
+        <Route path="/review" element={<ReviewPage />} />
+        <Route path="*" element={<Navigate to={homePath()} replace />} />
+      </Routes>
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
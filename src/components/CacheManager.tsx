@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { CachedLesson, contentCache } from '../services/contentCache';
+import { promptTypeLabel } from '../i18n';
+import { useI18n } from '../hooks/useI18n';
+import ContentSection from './ContentSection';
+
+interface CacheManagerProps {
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const CacheManager: React.FC<CacheManagerProps> = ({ onClose }) => {
+  const [lessons, setLessons] = useState<CachedLesson[]>([]);
+  const [viewing, setViewing] = useState<CachedLesson | null>(null);
+  const { language } = useI18n();
+  const promptLabel = (type: string) => promptTypeLabel(language, type);
+
+  useEffect(() => {
+    const load = () => contentCache.list().then(setLessons).catch(() => setLessons([]));
+    load();
+    return contentCache.subscribe(load);
+  }, []);
+
+  const totalBytes = lessons.reduce((sum, l) => sum + l.size, 0);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Saved lessons"
+    >
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Saved lessons</h2>
+            <p className="text-sm text-gray-500">
+              {lessons.length} lessons · {formatBytes(totalBytes)} · readable offline
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {lessons.length > 0 && (
+              <button
+                onClick={() => {
+                  setViewing(null);
+                  contentCache.clear();
+                }}
+                className="text-sm text-red-600 hover:text-red-700"
+              >
+                Clear all
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-500 hover:text-gray-700"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-4">
+          {viewing ? (
+            <div className="space-y-4">
+              <button
+                onClick={() => setViewing(null)}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                ← Back to saved lessons
+              </button>
+              <ContentSection
+                content={{ title: viewing.question ?? viewing.topic, content: viewing.content }}
+                isLoading={false}
+              />
+            </div>
+          ) : lessons.length === 0 ? (
+            <p className="py-8 text-center text-gray-500">
+              Lessons you generate are saved here automatically.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500">
+                <tr>
+                  <th className="py-2 font-medium">Topic</th>
+                  <th className="py-2 font-medium">Mode</th>
+                  <th className="py-2 font-medium">Size</th>
+                  <th className="py-2 font-medium">Last opened</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {lessons.map(lesson => (
+                  <tr key={lesson.key} className="border-t border-gray-100">
+                    <td className="py-2 text-gray-800">
+                      {lesson.topic}
+                      {lesson.question && (
+                        <span className="block text-xs text-gray-500">{lesson.question}</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-gray-600">{promptLabel(lesson.type)}</td>
+                    <td className="py-2 text-gray-600">{formatBytes(lesson.size)}</td>
+                    <td className="py-2 text-gray-600">
+                      {new Date(lesson.lastAccess).toLocaleDateString()}
+                    </td>
+                    <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                      {lesson.type !== 'follow-up' && (
+                        <button
+                          onClick={() => setViewing(lesson)}
+                          className="text-blue-600 hover:underline"
+                        >
+                          View
+                        </button>
+                      )}
+                      <button
+                        onClick={() => contentCache.delete(lesson.key)}
+                        className="text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheManager;
@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatTurn, Topic } from '../types';
+import { chatStore, newTurnId } from '../services/chatService';
+import { contentService } from '../services/aiService';
+import MarkdownRenderer from './MarkdownRenderer';
+import { useI18n } from '../hooks/useI18n';
+
+export interface ChatSeed {
+  section: string;
+  text: string;
+}
+
+interface ChatPanelProps {
+  topic: Topic;
+  /** The lesson currently on screen, sent so answers stay consistent with it */
+  lesson?: string;
+  /** A lesson section the student wants to ask about */
+  seed?: ChatSeed | null;
+  onSeedConsumed?: () => void;
+}
+
+/** Keeps a quoted section well inside the server's per-message limit */
+const MAX_QUOTE_CHARS = 2000;
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ topic, lesson, seed, onSeedConsumed }) => {
+  const { t } = useI18n();
+  const [turns, setTurns] = useState<ChatTurn[]>(() => chatStore.getThread(topic.id));
+  const [input, setInput] = useState('');
+  const [quote, setQuote] = useState<ChatSeed | null>(null);
+  const [reply, setReply] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const request = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    setTurns(chatStore.getThread(topic.id));
+    setReply(null);
+    setError(null);
+    const unsubscribe = chatStore.subscribe(() => setTurns(chatStore.getThread(topic.id)));
+    return () => {
+      unsubscribe();
+      request.current?.abort();
+    };
+  }, [topic.id]);
+
+  // Branching from a lesson section: attach it as a quote and prefill the question
+  useEffect(() => {
+    if (!seed) return;
+    setQuote({ ...seed, text: seed.text.slice(0, MAX_QUOTE_CHARS) });
+    setInput(`Can you explain the "${seed.section}" part again, step by step?`);
+    inputRef.current?.focus();
+    onSeedConsumed?.();
+  }, [seed, onSeedConsumed]);
+
+  const send = async () => {
+    const text = input.trim();
+    if (!text || reply !== null) return;
+
+    const userTurn: ChatTurn = {
+      id: newTurnId(),
+      role: 'user',
+      content: text,
+      createdAt: Date.now(),
+      ...(quote && { quote }),
+    };
+    chatStore.append(topic.id, userTurn);
+    setInput('');
+    setQuote(null);
+    setError(null);
+    setReply('');
+
+    const controller = new AbortController();
+    request.current = controller;
+    try {
+      for await (const update of contentService.streamChat(
+        topic.title,
+        [...chatStore.getThread(topic.id)],
+        { lesson, signal: controller.signal }
+      )) {
+        setReply(update.content);
+        if (update.done) {
+          chatStore.append(topic.id, {
+            id: newTurnId(),
+            role: 'assistant',
+            content: update.content,
+            createdAt: Date.now(),
+          });
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (request.current === controller) {
+        request.current = null;
+        setReply(null);
+      }
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      send();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-800">{t('chat.heading', { topic: topic.title })}</h3>
+        {turns.length > 0 && reply === null && (
+          <button
+            onClick={() => chatStore.clear(topic.id)}
+            className="text-sm text-gray-500 hover:text-red-600 transition-colors"
+          >
+            {t('chat.clear')}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4 mb-4">
+        {turns.map(turn => (
+          <div
+            key={turn.id}
+            className={`rounded-lg p-4 ${
+              turn.role === 'user' ? 'bg-blue-50 ml-8' : 'bg-gray-50 mr-8'
+            }`}
+          >
+            {turn.quote && (
+              <p className="text-xs text-gray-500 border-l-2 border-blue-300 pl-2 mb-2 line-clamp-3">
+                {turn.quote.section}: {turn.quote.text}
+              </p>
+            )}
+            {turn.role === 'user'
+              ? <p className="text-gray-800 whitespace-pre-wrap">{turn.content}</p>
+              : <MarkdownRenderer>{turn.content}</MarkdownRenderer>}
+          </div>
+        ))}
+
+        {reply !== null && (
+          <div className="rounded-lg p-4 bg-gray-50 mr-8" aria-live="polite">
+            {reply
+              ? <MarkdownRenderer>{reply}</MarkdownRenderer>
+              : <span className="text-gray-500 animate-pulse">{t('chat.thinking')}</span>}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {quote && (
+        <div className="flex items-start justify-between gap-2 text-xs text-gray-600 bg-blue-50 rounded p-2 mb-2">
+          <span className="line-clamp-2">{t('chat.askingAbout', { section: quote.section })} {quote.text}</span>
+          <button onClick={() => setQuote(null)} className="shrink-0 text-gray-400 hover:text-gray-600" aria-label={t('chat.removeQuote')}>
+            ✕
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <textarea
+          ref={inputRef}
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder={t('chat.placeholder')}
+          className="flex-1 p-2 border border-gray-200 rounded-lg text-sm resize-none focus:outline-none focus:border-blue-400"
+        />
+        {reply !== null ? (
+          <button
+            onClick={() => request.current?.abort()}
+            className="px-4 rounded-lg text-sm bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            {t('chat.stop')}
+          </button>
+        ) : (
+          <button
+            onClick={send}
+            disabled={!input.trim()}
+            className="px-4 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('chat.send')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import slugify from 'slugify';
+import { ConceptMap, ConceptNode, ConceptRole } from '../types';
+import { layoutConceptMap, NODE_HEIGHT, NODE_WIDTH } from '../services/conceptMap';
+
+interface ConceptMapViewProps {
+  map: ConceptMap;
+  /** Open the curriculum topic a node stands for */
+  onSelectTopic: (topicId: string) => void;
+}
+
+/** Fill and stroke per role, as SVG attributes so exported files keep them */
+const ROLE_STYLES: Record<ConceptRole, { fill: string; stroke: string; label: string }> = {
+  prerequisite: { fill: '#fef3c7', stroke: '#d97706', label: 'Prerequisite' },
+  topic:        { fill: '#dbeafe', stroke: '#2563eb', label: 'This topic' },
+  related:      { fill: '#f3f4f6', stroke: '#6b7280', label: 'Related' },
+  advanced:     { fill: '#ede9fe', stroke: '#7c3aed', label: 'Advanced use' },
+};
+
+const FONT = 'system-ui, -apple-system, sans-serif';
+const MIN_SCALE = 0.4;
+const MAX_SCALE = 4;
+const LINE_CHARS = 22;
+
+/** Up to two lines of a label, cut short with an ellipsis */
+function wrapLabel(label: string): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of label.split(/\s+/)) {
+    if (line && (line + ' ' + word).length > LINE_CHARS) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  lines.push(line);
+  if (lines.length <= 2) return lines;
+  return [lines[0], `${lines[1].slice(0, LINE_CHARS - 1)}…`];
+}
+
+/** Point where the line from `from` to `to` leaves the box around `from` */
+function boxExit(from: { x: number; y: number }, to: { x: number; y: number }) {
+  const dx = to.x - from.x, dy = to.y - from.y;
+  const t = Math.min(
+    dx ? (NODE_WIDTH / 2) / Math.abs(dx) : Infinity,
+    dy ? (NODE_HEIGHT / 2) / Math.abs(dy) : Infinity
+  );
+  return { x: from.x + dx * t, y: from.y + dy * t };
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** The whole diagram as standalone SVG markup, whatever the current pan and zoom */
+function serialise(svg: SVGSVGElement, { x, y, width, height }: { x: number; y: number; width: number; height: number }) {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+  copy.removeAttribute('class');
+  return new XMLSerializer().serializeToString(copy);
+}
+
+/** Rasterise SVG markup at twice its size on a white background */
+async function toPng(markup: string, width: number, height: number): Promise<Blob> {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = width * 2;
+  canvas.height = height * 2;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render the PNG.'))), 'image/png')
+  );
+}
+
+/**
+ * A concept map drawn as a graph: drag to pan, scroll or use the buttons to
+ * zoom. Nodes that stand for a curriculum topic open it when clicked.
+ */
+const ConceptMapView: React.FC<ConceptMapViewProps> = ({ map, onSelectTopic }) => {
+  const { positions, bounds } = useMemo(() => layoutConceptMap(map), [map]);
+  const home = useMemo(
+    () => ({ cx: bounds.x + bounds.width / 2, cy: bounds.y + bounds.height / 2, scale: 1 }),
+    [bounds]
+  );
+  const [view, setView] = useState(home);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number; cx: number; cy: number } | null>(null);
+  /** Set once a press has moved far enough to be a pan, so the release isn't a click */
+  const panned = useRef(false);
+
+  useEffect(() => setView(home), [home]);
+
+  const viewWidth = bounds.width / view.scale;
+  const viewHeight = bounds.height / view.scale;
+  const viewBox = `${view.cx - viewWidth / 2} ${view.cy - viewHeight / 2} ${viewWidth} ${viewHeight}`;
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const fx = (e.clientX - rect.left) / rect.width - 0.5;
+      const fy = (e.clientY - rect.top) / rect.height - 0.5;
+      setView(v => {
+        const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, v.scale * Math.exp(-e.deltaY * 0.0015)));
+        // Keep the point under the pointer where it is
+        const before = { w: bounds.width / v.scale, h: bounds.height / v.scale };
+        const after = { w: bounds.width / scale, h: bounds.height / scale };
+        return { scale, cx: v.cx + fx * (before.w - after.w), cy: v.cy + fy * (before.h - after.h) };
+      });
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, [bounds]);
+
+  const zoom = (factor: number) =>
+    setView(v => ({ ...v, scale: Math.min(MAX_SCALE, Math.max(MIN_SCALE, v.scale * factor)) }));
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    drag.current = { x: e.clientX, y: e.clientY, cx: view.cx, cy: view.cy };
+    panned.current = false;
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const start = drag.current;
+    const svg = svgRef.current;
+    if (!start || !svg) return;
+    const dx = e.clientX - start.x, dy = e.clientY - start.y;
+    if (!panned.current && Math.hypot(dx, dy) < 4) return;
+    panned.current = true;
+    const unitsPerPixel = viewWidth / svg.getBoundingClientRect().width;
+    setView(v => ({ ...v, cx: start.cx - dx * unitsPerPixel, cy: start.cy - dy * unitsPerPixel }));
+  };
+  const endDrag = () => { drag.current = null; };
+
+  const openNode = (node: ConceptNode) => {
+    if (!panned.current && node.topicId) onSelectTopic(node.topicId);
+  };
+
+  const filename = slugify(map.title, { lower: true, strict: true }) || 'concept-map';
+  const exportAs = async (format: 'svg' | 'png') => {
+    if (!svgRef.current) return;
+    setExportError(null);
+    const markup = serialise(svgRef.current, bounds);
+    try {
+      if (format === 'svg') download(new Blob([markup], { type: 'image/svg+xml' }), `${filename}.svg`);
+      else download(await toPng(markup, bounds.width, bounds.height), `${filename}.png`);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const byId = new Map(map.nodes.map(n => [n.id, n]));
+  const studyPath = (map.studyPath ?? []).map(id => byId.get(id)).filter((n): n is ConceptNode => !!n);
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-2xl font-semibold text-gray-800 mr-auto">🗺️ {map.title}</h2>
+        <button onClick={() => zoom(1.25)} className="px-2 py-1 text-sm rounded border border-gray-300 hover:bg-gray-50" aria-label="Zoom in">＋</button>
+        <button onClick={() => zoom(0.8)} className="px-2 py-1 text-sm rounded border border-gray-300 hover:bg-gray-50" aria-label="Zoom out">－</button>
+        <button onClick={() => setView(home)} className="px-2 py-1 text-sm rounded border border-gray-300 hover:bg-gray-50">Reset</button>
+        <button onClick={() => exportAs('svg')} className="px-2 py-1 text-sm rounded border border-gray-300 hover:bg-gray-50">Export SVG</button>
+        <button onClick={() => exportAs('png')} className="px-2 py-1 text-sm rounded border border-gray-300 hover:bg-gray-50">Export PNG</button>
+      </div>
+      {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+
+      <svg
+        ref={svgRef}
+        viewBox={viewBox}
+        className="w-full h-[28rem] rounded border border-gray-200 bg-gray-50 cursor-grab active:cursor-grabbing touch-none select-none"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerLeave={endDrag}
+        role="img"
+        aria-label={`Concept map: ${map.title}`}
+      >
+        <defs>
+          <marker id="concept-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+          </marker>
+        </defs>
+
+        {map.edges.map((edge, i) => {
+          const from = positions[edge.from], to = positions[edge.to];
+          if (!from || !to) return null;
+          const start = boxExit(from, to), end = boxExit(to, from);
+          return (
+            <g key={i}>
+              <line
+                x1={start.x} y1={start.y} x2={end.x} y2={end.y}
+                stroke="#9ca3af" strokeWidth={1.5} markerEnd="url(#concept-arrow)"
+              />
+              {edge.label && (
+                <text
+                  x={(start.x + end.x) / 2} y={(start.y + end.y) / 2 - 4}
+                  textAnchor="middle" fontSize={10} fill="#6b7280" fontFamily={FONT}
+                >
+                  {edge.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {map.nodes.map(node => {
+          const { x, y } = positions[node.id];
+          const style = ROLE_STYLES[node.role];
+          const lines = wrapLabel(node.label);
+          return (
+            <g
+              key={node.id}
+              onClick={() => openNode(node)}
+              style={{ cursor: node.topicId ? 'pointer' : 'inherit' }}
+            >
+              <title>{node.note ? `${node.label}: ${node.note}` : node.label}</title>
+              <rect
+                x={x - NODE_WIDTH / 2} y={y - NODE_HEIGHT / 2} width={NODE_WIDTH} height={NODE_HEIGHT} rx={10}
+                fill={style.fill} stroke={style.stroke}
+                strokeWidth={node.role === 'topic' ? 2.5 : 1.5}
+                strokeDasharray={node.topicId ? undefined : '4 3'}
+              />
+              {lines.map((line, i) => (
+                <text
+                  key={i}
+                  x={x} y={y + (i - (lines.length - 1) / 2) * 15 + 4}
+                  textAnchor="middle" fontSize={12} fontFamily={FONT}
+                  fontWeight={node.role === 'topic' ? 600 : 400}
+                  fill={node.topicId ? '#1d4ed8' : '#1f2937'}
+                >
+                  {line}
+                </text>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {(Object.keys(ROLE_STYLES) as ConceptRole[]).map(role => (
+          <span key={role} className="flex items-center gap-1">
+            <span
+              className="inline-block h-3 w-3 rounded-sm border"
+              style={{ background: ROLE_STYLES[role].fill, borderColor: ROLE_STYLES[role].stroke }}
+            />
+            {ROLE_STYLES[role].label}
+          </span>
+        ))}
+        <span>Solid outline: opens the topic · dashed: not in the curriculum</span>
+      </div>
+
+      {studyPath.length > 0 && (
+        <div>
+          <h3 className="font-medium text-gray-800 mb-2">Study path</h3>
+          <ol className="list-decimal list-inside space-y-1 text-gray-700">
+            {studyPath.map(node => (
+              <li key={node.id}>
+                {node.topicId ? (
+                  <button onClick={() => onSelectTopic(node.topicId!)} className="text-blue-600 hover:underline">
+                    {node.label}
+                  </button>
+                ) : node.label}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConceptMapView;
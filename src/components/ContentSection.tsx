@@ -1,19 +1,28 @@
 import React, { useMemo } from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm   from 'remark-gfm';
-import remarkMath  from 'remark-math';
-import rehypeKatex from 'rehype-katex';
-import rehypeRaw   from 'rehype-raw';
-import slugify     from 'slugify';
+import MarkdownRenderer from './MarkdownRenderer';
+import VisualAidView from './VisualAidView';
+import { useI18n } from '../hooks/useI18n';
+import { isMessageKey, translate, type Translate } from '../i18n';
+import { parseSections } from '../services/lessonSections';
+import { splitAtVisualAid } from '../services/visualAids';
+import type { LanguageCode, VisualAid } from '../types';
 
 export interface Content {
   title:   string;
   content: string;   // AI returns a Markdown string
+  /** Drawn in place of the Markdown block it was read from */
+  visualAid?: VisualAid;
 }
 
 interface Props {
   content:   Content | null;
   isLoading: boolean;
+  /** True while `content` is still arriving token by token */
+  isStreaming?: boolean;
+  /** Branch a tutor chat off one section ("explain this step again") */
+  onAskAboutSection?: (section: { section: string; text: string }) => void;
+  /** Language for section headings and labels; defaults to the learner profile's */
+  language?: LanguageCode;
 }
 
 const COLORS: Record<string,string> = {
@@ -23,6 +32,20 @@ const COLORS: Record<string,string> = {
   'Formula & Derivation':'border-purple-500 bg-purple-50',
   Examples:              'border-indigo-500 bg-indigo-50',
   Takeaways:             'border-teal-500 bg-teal-50',
+  // Subject-specific sections
+  'Key Rules':           'border-purple-500 bg-purple-50',
+  'Theorem & Proof':     'border-purple-500 bg-purple-50',
+  'Reactions & Mechanisms':'border-purple-500 bg-purple-50',
+  Process:               'border-purple-500 bg-purple-50',
+  'Close Reading':       'border-purple-500 bg-purple-50',
+  Code:                  'border-purple-500 bg-purple-50',
+  Context:               'border-yellow-500 bg-yellow-50',
+  Complexity:            'border-indigo-500 bg-indigo-50',
+  // Visual guide
+  'Visual Summary':      'border-blue-500 bg-blue-50',
+  Diagram:               'border-indigo-500 bg-indigo-50',
+  Comparison:            'border-purple-500 bg-purple-50',
+  'Key Notes':           'border-teal-500 bg-teal-50',
 };
 
 const ICONS: Record<string,string> = {
@@ -32,10 +55,70 @@ const ICONS: Record<string,string> = {
   'Formula & Derivation':'📐',
   Examples:              '📝',
   Takeaways:             '✅',
+  'Key Rules':           '📐',
+  'Theorem & Proof':     '📐',
+  'Reactions & Mechanisms':'⚗️',
+  Process:               '🔄',
+  'Close Reading':       '🔎',
+  Code:                  '💻',
+  Context:               '📜',
+  Complexity:            '⏱️',
+  'Visual Summary':      '👀',
+  Diagram:               '📊',
+  Comparison:            '⚖️',
+  'Key Notes':           '📌',
 };
 
-const ContentSection: React.FC<Props> = ({ content, isLoading }) => {
-  if (isLoading) {
+/**
+ * Make a half-received Markdown string safe to render: close an open `$$`
+ * block or code fence, and drop a trailing inline `$` that has no partner yet.
+ */
+function closePartialMarkdown(text: string): string {
+  let out = text;
+  if ((out.match(/```/g) ?? []).length % 2) out += '\n```';
+  if ((out.match(/\$\$/g) ?? []).length % 2) out += '\n$$';
+
+  const lastLine = out.slice(out.lastIndexOf('\n') + 1);
+  const inline = lastLine.replace(/\$\$/g, '').match(/\$/g) ?? [];
+  if (inline.length % 2) out = out.slice(0, out.lastIndexOf('$'));
+  return out;
+}
+
+const ContentSection: React.FC<Props> = ({
+  content,
+  isLoading,
+  isStreaming = false,
+  onAskAboutSection,
+  language,
+}) => {
+  const raw = content?.content ?? '';
+  const { language: preferred } = useI18n();
+  const t: Translate = (key, params) => translate(language ?? preferred, key, params);
+
+  // Headings stay English in the Markdown (COLORS/ICONS key on them); only the label is localised
+  const headingOf = (title: string) => {
+    const key = `section.${title}`;
+    return isMessageKey(key) ? t(key) : title;
+  };
+
+  // Split on "## " headings; older lessons' "1) Overview:" lines count as headings too
+  const sections = useMemo(
+    () => parseSections(isStreaming ? closePartialMarkdown(raw) : raw),
+    [raw, isStreaming]
+  );
+
+  // The section holding the lesson's main visual draws it from `visualAid`
+  const aid = content?.visualAid;
+  const aidPlacement = useMemo(() => {
+    if (!aid) return null;
+    for (const sec of sections) {
+      const split = splitAtVisualAid(sec.body, aid);
+      if (split) return { slug: sec.slug, ...split };
+    }
+    return null;
+  }, [aid, sections]);
+
+  if (isLoading && !content) {
     return (
       <div className="bg-white rounded-lg p-6 shadow-sm animate-pulse">
         <div className="h-8 bg-gray-200 rounded w-1/3 mb-6" />
@@ -54,51 +137,25 @@ const ContentSection: React.FC<Props> = ({ content, isLoading }) => {
       <div className="bg-white rounded-lg p-6 shadow-sm flex flex-col items-center justify-center h-96">
         <div className="text-6xl mb-4">🔍</div>
         <h3 className="text-xl font-medium text-gray-700 mb-2">
-          No content selected
+          {t('content.empty')}
         </h3>
         <p className="text-gray-500 text-center max-w-md">
-          Select a topic to generate educational content.
+          {t('content.emptyHint')}
         </p>
       </div>
     );
   }
 
-  // Convert AI's "1) Overview:" etc. into real Markdown headings
-  const normalized = useMemo(() => {
-    return content.content
-      .replace(/^\s*\d+\)\s*([^:\n]+):/gm, '## $1')
-      .replace(/^\s*\d+\.\s*([^:\n]+):/gm, '## $1')
-      .replace(/^Core concepts:/gim, '## Core Concepts:')
-      .trim();
-  }, [content.content]);
-
-  // Split into discrete sections on "## "
-  const sections = useMemo(() => {
-    return normalized
-      .split(/^##\s+/gm)
-      .map(chunk => chunk.trim())
-      .filter(Boolean)
-      .map(chunk => {
-        const [rawTitle, ...rest] = chunk.split('\n');
-        const title = rawTitle.replace(/:$/, '').trim();
-        return {
-          title,
-          slug:  slugify(title, { lower: true }),
-          body:  rest.join('\n').trim(),
-        };
-      });
-  }, [normalized]);
-
   return (
     <div className="flex flex-col lg:flex-row gap-8">
       {/* Sticky TOC for desktop */}
       <nav className="hidden lg:block sticky top-24 self-start w-56 prose">
-        <h4 className="font-semibold mb-2">On this page</h4>
+        <h4 className="font-semibold mb-2">{t('content.onThisPage')}</h4>
         <ul className="space-y-1">
           {sections.map(sec => (
             <li key={sec.slug}>
               <a href={`#${sec.slug}`} className="text-blue-600 hover:underline">
-                {sec.title}
+                {headingOf(sec.title)}
               </a>
             </li>
           ))}
@@ -119,44 +176,35 @@ const ContentSection: React.FC<Props> = ({ content, isLoading }) => {
           >
             <h2 className="flex items-center gap-2 text-2xl font-semibold mb-4">
               <span>{ICONS[sec.title] ?? '✨'}</span>
-              {sec.title}
+              {headingOf(sec.title)}
+              {onAskAboutSection && !isStreaming && (
+                <button
+                  onClick={() => onAskAboutSection({ section: sec.title, text: sec.body })}
+                  className="ml-auto text-sm font-normal text-blue-600 hover:underline"
+                >
+                  {t('content.askAbout')}
+                </button>
+              )}
             </h2>
 
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm, remarkMath]}
-              rehypePlugins={[rehypeRaw, rehypeKatex]}
-              components={{
-                p:    ({ node, ...props }) => <p className="mb-4 leading-relaxed" {...props} />,
-                div:  ({ node, className, children, ...props }) =>
-                  className?.includes('katex-display') ? (
-                    <div className="my-6 p-4 bg-white rounded-lg shadow-sm text-center" {...props}>
-                      {children}
-                    </div>
-                  ) : (
-                    <div {...props}>{children}</div>
-                  ),
-                ul:   ({ node, ...props }) => <ul className="list-disc list-inside mb-4 space-y-1" {...props} />,
-                ol:   ({ node, ...props }) => <ol className="list-decimal list-inside mb-4 space-y-1" {...props} />,
-                table:({ node, ...props }) => <table className="w-full table-auto border border-gray-200 mb-6" {...props} />,
-                thead:({ node, ...props }) => <thead className="bg-gray-100" {...props} />,
-                th:   ({ node, ...props }) => <th className="px-4 py-2 text-left font-medium" {...props} />,
-                td:   ({ node, ...props }) => <td className="px-4 py-2 border-t" {...props} />,
-                code: ({ inline, children, ...props }) =>
-                  inline ? (
-                    <code className="bg-gray-100 px-1 rounded" {...props}>
-                      {children}
-                    </code>
-                  ) : (
-                    <pre className="bg-gray-100 p-4 rounded overflow-x-auto" {...props}>
-                      {children}
-                    </pre>
-                  ),
-              }}
-            >
-              {sec.body}
-            </ReactMarkdown>
+            {aid && aidPlacement?.slug === sec.slug ? (
+              <>
+                <MarkdownRenderer>{aidPlacement.before}</MarkdownRenderer>
+                <VisualAidView aid={aid} />
+                <MarkdownRenderer>{aidPlacement.after}</MarkdownRenderer>
+              </>
+            ) : (
+              <MarkdownRenderer diagrams={!isStreaming}>{sec.body}</MarkdownRenderer>
+            )}
           </section>
         ))}
+
+        {isStreaming && (
+          <p className="flex items-center gap-2 text-sm text-blue-600" aria-live="polite">
+            <span className="inline-block h-4 w-2 bg-blue-500 animate-pulse" />
+            {t('content.writing')}
+          </p>
+        )}
       </article>
     </div>
   );
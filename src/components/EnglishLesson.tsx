@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { contentService } from '../services/aiService';
+import { useI18n } from '../hooks/useI18n';
+import ContentSection, { Content } from './ContentSection';
+
+interface EnglishLessonProps {
+  title: string;
+  /** The lesson on screen, in the student's language */
+  lesson: string;
+  subject?: string;
+}
+
+/** An English translation of the lesson on screen, section for section, shown beside it */
+const EnglishLesson: React.FC<EnglishLessonProps> = ({ title, lesson, subject }) => {
+  const { t } = useI18n();
+  const [content, setContent] = useState<Content | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setContent(null);
+    setError(null);
+    contentService.generate(title, 'translate', { context: { lesson, subject } })
+      .then(text => { if (!cancelled) setContent({ title, content: text }); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [title, lesson, subject]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-500">{t('lesson.english')}</p>
+      {error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+      ) : (
+        <>
+          {!content && <p className="text-sm text-gray-500">{t('lesson.loadingEnglish')}</p>}
+          <ContentSection content={content} isLoading={!content} language="en" />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EnglishLesson;
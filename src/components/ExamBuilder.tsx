@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Subject } from '../types';
+import { getTopicsBySubject, topicTree } from '../data/curriculum';
+import { ExamConfig, JEE_MARKING, MIX_PRESETS, randomSeed } from '../services/mockExam';
+
+interface ExamBuilderProps {
+  subject: Subject;
+  onBuild: (config: ExamConfig) => void;
+}
+
+const QUESTION_COUNTS = [10, 15, 30, 45, 75];
+const DURATIONS = [30, 60, 90, 180];
+/** Each topic costs one generation, so papers draw on at most this many */
+const MAX_TOPICS = 10;
+
+const ExamBuilder: React.FC<ExamBuilderProps> = ({ subject, onBuild }) => {
+  const topics = getTopicsBySubject(subject.id);
+  const [topicIds, setTopicIds] = useState<string[]>([]);
+  const [questionCount, setQuestionCount] = useState(15);
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [presetId, setPresetId] = useState('balanced');
+  const [seed, setSeed] = useState(randomSeed);
+
+  const toggle = (id: string) =>
+    setTopicIds(ids => (ids.includes(id) ? ids.filter(t => t !== id) : [...ids, id]));
+
+  const mix = MIX_PRESETS.find(p => p.id === presetId)!.mix;
+  const canBuild = topicIds.length > 0 && topicIds.length <= MAX_TOPICS && Number.isInteger(seed);
+
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        if (canBuild) onBuild({ subjectId: subject.id, topicIds, questionCount, durationMinutes, mix, seed });
+      }}
+      className="bg-white rounded-lg p-6 shadow-sm space-y-6"
+    >
+      <fieldset>
+        <legend className="font-medium text-gray-800 mb-2">
+          Topics <span className="text-sm font-normal text-gray-500">({topicIds.length} of up to {MAX_TOPICS})</span>
+        </legend>
+        <ul className="max-h-72 overflow-y-auto border border-gray-100 rounded-lg p-2 space-y-1">
+          {topics.map(topic => (
+            <li key={topic.id} style={{ paddingLeft: `${topicTree.depth(topic.id) * 1.25}rem` }}>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={topicIds.includes(topic.id)}
+                  onChange={() => toggle(topic.id)}
+                  disabled={!topicIds.includes(topic.id) && topicIds.length >= MAX_TOPICS}
+                />
+                {topic.title}
+              </label>
+            </li>
+          ))}
+        </ul>
+      </fieldset>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <label className="text-sm text-gray-700">
+          Questions
+          <select
+            value={questionCount}
+            onChange={e => setQuestionCount(Number(e.target.value))}
+            className="mt-1 block w-full border border-gray-300 rounded-lg px-2 py-1.5"
+          >
+            {QUESTION_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Duration
+          <select
+            value={durationMinutes}
+            onChange={e => setDurationMinutes(Number(e.target.value))}
+            className="mt-1 block w-full border border-gray-300 rounded-lg px-2 py-1.5"
+          >
+            {DURATIONS.map(n => <option key={n} value={n}>{n} minutes</option>)}
+          </select>
+        </label>
+      </div>
+
+      <fieldset>
+        <legend className="text-sm text-gray-700 mb-2">Difficulty mix</legend>
+        <div className="flex flex-wrap gap-2">
+          {MIX_PRESETS.map(preset => (
+            <label
+              key={preset.id}
+              className={`cursor-pointer rounded-lg border px-3 py-1.5 text-sm ${
+                preset.id === presetId ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600'
+              }`}
+            >
+              <input
+                type="radio"
+                name="mix"
+                value={preset.id}
+                checked={preset.id === presetId}
+                onChange={() => setPresetId(preset.id)}
+                className="sr-only"
+              />
+              {preset.label}
+              <span className="block text-xs opacity-75">
+                {Math.round(preset.mix.easy * 100)}/{Math.round(preset.mix.medium * 100)}/{Math.round(preset.mix.hard * 100)}
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="block text-sm text-gray-700">
+        Seed
+        <span className="ml-1 text-gray-400">— the same seed and settings give the same paper</span>
+        <div className="mt-1 flex gap-2">
+          <input
+            type="number"
+            value={Number.isNaN(seed) ? '' : seed}
+            onChange={e => setSeed(Number.parseInt(e.target.value, 10))}
+            className="w-40 border border-gray-300 rounded-lg px-2 py-1.5"
+          />
+          <button
+            type="button"
+            onClick={() => setSeed(randomSeed())}
+            className="text-sm text-gray-600 border border-gray-200 rounded-lg px-3"
+            aria-label="New random seed"
+          >
+            🎲
+          </button>
+        </div>
+      </label>
+
+      <p className="text-xs text-gray-500">
+        Marking: +{JEE_MARKING.single.correct} / {JEE_MARKING.single.wrong} for single-correct and numerical answers;
+        +{JEE_MARKING.multiple.correct} / {JEE_MARKING.multiple.wrong} for multiple-correct,
+        with +{JEE_MARKING.multiple.partial} per correct option when no wrong option is ticked. Unanswered: 0.
+      </p>
+
+      <button
+        type="submit"
+        disabled={!canBuild}
+        className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg px-4 py-2 text-sm"
+      >
+        Build paper
+      </button>
+    </form>
+  );
+};
+
+export default ExamBuilder;
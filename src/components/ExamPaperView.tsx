@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { PracticeAnswer } from '../types';
+import { ExamPaper, ExamQuestion, SECTIONS } from '../services/mockExam';
+import { parseNumericInput } from '../services/practice';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface ExamPaperViewProps {
+  paper: ExamPaper;
+  answers: Record<string, PracticeAnswer>;
+  onAnswer: (examId: string, answer: PracticeAnswer | undefined) => void;
+  /** Epoch ms when time runs out; the paper is submitted automatically then */
+  endsAt: number;
+  onSubmit: () => void;
+}
+
+const formatClock = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600), m = Math.floor((total % 3600) / 60), s = total % 60;
+  return `${h > 0 ? `${h}:` : ''}${String(m).padStart(h > 0 ? 2 : 1, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+const isAnswered = (answer: PracticeAnswer | undefined) =>
+  answer !== undefined && !(Array.isArray(answer) && answer.length === 0);
+
+const AnswerInput: React.FC<{
+  question: ExamQuestion;
+  answer: PracticeAnswer | undefined;
+  onChange: (answer: PracticeAnswer | undefined) => void;
+}> = ({ question, answer, onChange }) => {
+  const [typed, setTyped] = useState(typeof answer === 'number' && question.kind === 'numeric' ? String(answer) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  if (question.kind === 'numeric') {
+    return (
+      <div>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={typed}
+            onChange={e => {
+              setTyped(e.target.value);
+              if (!e.target.value.trim()) {
+                setError(null);
+                onChange(undefined);
+                return;
+              }
+              const parsed = parseNumericInput(e.target.value, question.unit);
+              setError('error' in parsed ? parsed.error : null);
+              onChange('error' in parsed ? undefined : parsed.value);
+            }}
+            aria-label="Your answer"
+            className="w-40 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {question.unit && <span className="text-sm text-gray-600">{question.unit}</span>}
+        </div>
+        {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  const chosen = Array.isArray(answer) ? answer : answer === undefined ? [] : [answer];
+  return (
+    <ul className="space-y-2">
+      {question.options.map((option, i) => (
+        <li key={i}>
+          <label className={`flex items-start gap-3 border rounded-lg px-3 py-2 text-sm cursor-pointer ${
+            chosen.includes(i) ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+          }`}>
+            <input
+              type={question.kind === 'mcq' ? 'radio' : 'checkbox'}
+              name={question.examId}
+              checked={chosen.includes(i)}
+              onChange={() => {
+                if (question.kind === 'mcq') onChange(i);
+                else onChange(chosen.includes(i) ? chosen.filter(c => c !== i) : [...chosen, i].sort((a, b) => a - b));
+              }}
+              className="mt-1"
+            />
+            <span className="font-medium text-gray-500">{String.fromCharCode(65 + i)}.</span>
+            <span className="[&_p]:mb-0"><MarkdownRenderer>{option}</MarkdownRenderer></span>
+          </label>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/** The paper while it is being sat: countdown, question palette and answer inputs */
+const ExamPaperView: React.FC<ExamPaperViewProps> = ({ paper, answers, onAnswer, endsAt, onSubmit }) => {
+  const [now, setNow] = useState(Date.now());
+  const [current, setCurrent] = useState(0);
+  // Remounts the input so "Clear response" also empties a typed number
+  const [cleared, setCleared] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (now >= endsAt) onSubmit();
+  }, [now, endsAt, onSubmit]);
+
+  const question = paper.questions[current];
+  const section = SECTIONS.find(s => s.id === question.section)!;
+  const unanswered = paper.questions.filter(q => !isAnswered(answers[q.examId])).length;
+  const remaining = endsAt - now;
+
+  const submit = () => {
+    const note = unanswered > 0 ? `${unanswered} question${unanswered === 1 ? ' is' : 's are'} unanswered. ` : '';
+    if (window.confirm(`${note}Submit the paper?`)) onSubmit();
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <aside className="md:w-56 space-y-4">
+        <div
+          className={`rounded-lg p-4 text-center shadow-sm ${remaining < 5 * 60 * 1000 ? 'bg-red-50 text-red-700' : 'bg-white text-gray-800'}`}
+          aria-live="off"
+        >
+          <div className="text-xs uppercase tracking-wide opacity-75">Time left</div>
+          <div className="text-2xl font-mono">{formatClock(remaining)}</div>
+        </div>
+
+        <nav aria-label="Questions" className="bg-white rounded-lg p-3 shadow-sm">
+          {SECTIONS.filter(s => paper.questions.some(q => q.section === s.id)).map(s => (
+            <div key={s.id} className="mb-3 last:mb-0">
+              <div className="text-xs text-gray-500 mb-1">{s.title}</div>
+              <div className="grid grid-cols-5 gap-1">
+                {paper.questions.map((q, i) => q.section === s.id && (
+                  <button
+                    key={q.examId}
+                    onClick={() => setCurrent(i)}
+                    aria-current={i === current ? 'step' : undefined}
+                    className={`h-8 rounded text-xs ${
+                      i === current ? 'ring-2 ring-blue-500 ' : ''
+                    }${isAnswered(answers[q.examId]) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                  >
+                    {i + 1}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </nav>
+
+        <button
+          onClick={submit}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 text-sm"
+        >
+          Submit paper
+        </button>
+      </aside>
+
+      <section className="flex-1 bg-white rounded-lg p-6 shadow-sm space-y-4">
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>{section.title}</span>
+          <span>Question {current + 1} of {paper.questions.length}</span>
+        </div>
+        <div className="prose max-w-none">
+          <MarkdownRenderer>{question.prompt}</MarkdownRenderer>
+        </div>
+        <AnswerInput
+          key={`${question.examId}-${cleared}`}
+          question={question}
+          answer={answers[question.examId]}
+          onChange={answer => onAnswer(question.examId, answer)}
+        />
+        <div className="flex items-center justify-between pt-2">
+          <button
+            onClick={() => setCurrent(c => c - 1)}
+            disabled={current === 0}
+            className="text-sm text-gray-600 disabled:opacity-40"
+          >
+            ← Previous
+          </button>
+          <button
+            onClick={() => {
+              onAnswer(question.examId, undefined);
+              setCleared(c => c + 1);
+            }}
+            className="text-sm text-gray-500 hover:text-red-600"
+          >
+            Clear response
+          </button>
+          <button
+            onClick={() => setCurrent(c => c + 1)}
+            disabled={current === paper.questions.length - 1}
+            className="text-sm text-blue-600 disabled:opacity-40"
+          >
+            Next →
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ExamPaperView;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { PracticeAnswer } from '../types';
+import { ExamPaper, ExamReport, ScoreLine } from '../services/mockExam';
+import { getTopicById } from '../data/curriculum';
+import { topicPath } from '../routes';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface ExamReportViewProps {
+  paper: ExamPaper;
+  answers: Record<string, PracticeAnswer>;
+  report: ExamReport;
+  onRetake: () => void;
+  onNewPaper: () => void;
+}
+
+const OUTCOME_STYLES = {
+  correct:    'text-green-700',
+  partial:    'text-yellow-700',
+  wrong:      'text-red-700',
+  unanswered: 'text-gray-500',
+};
+
+const topicTitle = (topicId: string) => getTopicById(topicId)?.title ?? topicId;
+
+const describeAnswer = (paper: ExamPaper, examId: string, answer: PracticeAnswer | undefined) => {
+  const q = paper.questions.find(x => x.examId === examId)!;
+  if (answer === undefined || (Array.isArray(answer) && answer.length === 0)) return '—';
+  if (q.kind === 'numeric') return `${answer}${q.unit ? ` ${q.unit}` : ''}`;
+  return (Array.isArray(answer) ? answer : [answer]).map(i => String.fromCharCode(65 + i)).join(', ');
+};
+
+const correctAnswer = (paper: ExamPaper, examId: string) => {
+  const q = paper.questions.find(x => x.examId === examId)!;
+  if (q.kind === 'numeric') return `${q.answer}${q.unit ? ` ${q.unit}` : ''}${q.tolerance ? ` (± ${q.tolerance})` : ''}`;
+  return (q.kind === 'mcq' ? [q.answer] : q.answers).map(i => String.fromCharCode(65 + i)).join(', ');
+};
+
+const Row: React.FC<{ label: React.ReactNode; line: ScoreLine }> = ({ label, line }) => (
+  <tr className="border-t border-gray-100">
+    <td className="py-2 pr-4">{label}</td>
+    <td className="py-2 pr-4 text-right">{line.attempted}</td>
+    <td className="py-2 pr-4 text-right text-green-700">{line.correct}</td>
+    <td className="py-2 pr-4 text-right text-red-700">{line.wrong}</td>
+    <td className="py-2 text-right font-medium">{line.score} / {line.maxScore}</td>
+  </tr>
+);
+
+const TableHead: React.FC<{ first: string }> = ({ first }) => (
+  <thead className="text-gray-500 text-left">
+    <tr>
+      <th className="py-2 pr-4 font-normal">{first}</th>
+      <th className="py-2 pr-4 font-normal text-right">Attempted</th>
+      <th className="py-2 pr-4 font-normal text-right">Correct</th>
+      <th className="py-2 pr-4 font-normal text-right">Wrong</th>
+      <th className="py-2 font-normal text-right">Score</th>
+    </tr>
+  </thead>
+);
+
+/** Score report for a submitted paper: sections, weakest topics, then every question with its solution */
+const ExamReportView: React.FC<ExamReportViewProps> = ({ paper, answers, report, onRetake, onNewPaper }) => {
+  const { subjectId } = paper.config;
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-lg p-6 shadow-sm">
+        <div className="flex flex-wrap items-baseline justify-between gap-4">
+          <div>
+            <div className="text-sm text-gray-500">Your score</div>
+            <div className="text-4xl font-bold text-gray-800">
+              {report.total.score} <span className="text-xl font-normal text-gray-500">/ {report.total.maxScore}</span>
+            </div>
+          </div>
+          <div className="space-x-4 text-sm">
+            <button onClick={onRetake} className="text-blue-600 hover:underline">Retake this paper</button>
+            <button onClick={onNewPaper} className="text-blue-600 hover:underline">Build another</button>
+          </div>
+        </div>
+
+        <table className="w-full text-sm mt-6">
+          <TableHead first="Section" />
+          <tbody>
+            {report.sections.map(s => <Row key={s.id} label={s.title} line={s} />)}
+            <Row label={<strong>Total</strong>} line={report.total} />
+          </tbody>
+        </table>
+      </section>
+
+      <section className="bg-white rounded-lg p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Topics to work on</h3>
+        <p className="text-sm text-gray-500 mb-3">Weakest first. Marks lost to negative marking are shown separately.</p>
+        <table className="w-full text-sm">
+          <TableHead first="Topic" />
+          <tbody>
+            {report.topics.map(t => (
+              <Row
+                key={t.topicId}
+                line={t}
+                label={
+                  <span className="flex flex-wrap items-center gap-2">
+                    {topicTitle(t.topicId)}
+                    {t.penalty > 0 && <span className="text-xs text-red-600">−{t.penalty} in penalties</span>}
+                    {t.ratio < 0.6 && (
+                      <Link
+                        to={topicPath(subjectId, t.topicId, 'interactive-practice')}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Practise →
+                      </Link>
+                    )}
+                  </span>
+                }
+              />
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800">Solutions</h3>
+        {paper.questions.map((q, i) => {
+          const result = report.marks[q.examId];
+          return (
+            <article key={q.examId} className="bg-white rounded-lg p-5 shadow-sm space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-500">Question {i + 1} · {topicTitle(q.topicId)}</span>
+                <span className={`font-medium ${OUTCOME_STYLES[result.outcome]}`}>
+                  {result.marks > 0 ? `+${result.marks}` : result.marks} ({result.outcome})
+                </span>
+              </div>
+              <div className="prose max-w-none">
+                <MarkdownRenderer>{q.prompt}</MarkdownRenderer>
+              </div>
+              {q.kind !== 'numeric' && (
+                <ol className="text-sm text-gray-700 space-y-1">
+                  {q.options.map((option, j) => (
+                    <li key={j} className="flex gap-2">
+                      <span className="font-medium text-gray-500">{String.fromCharCode(65 + j)}.</span>
+                      <span className="[&_p]:mb-0"><MarkdownRenderer>{option}</MarkdownRenderer></span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <p className="text-sm text-gray-600">
+                Your answer: {describeAnswer(paper, q.examId, answers[q.examId])} · Correct: {correctAnswer(paper, q.examId)}
+              </p>
+              <div className="border-l-4 border-indigo-500 bg-indigo-50 rounded-lg p-4 prose max-w-none">
+                <MarkdownRenderer>{q.solution}</MarkdownRenderer>
+              </div>
+            </article>
+          );
+        })}
+      </section>
+    </div>
+  );
+};
+
+export default ExamReportView;
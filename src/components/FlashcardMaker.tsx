@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Topic } from '../types';
+import { contentService } from '../services/aiService';
+import { extractFlashcards, FlashcardDraft, parseFlashcardDrafts } from '../services/flashcards';
+import { parseSections } from '../services/lessonSections';
+import { useFlashcards } from '../hooks/useFlashcards';
+import { reviewPath } from '../routes';
+
+interface FlashcardMakerProps {
+  subjectId: string;
+  topic: Topic;
+  /** The finished Markdown lesson */
+  lesson: string;
+}
+
+/** Turns the lesson on screen into flashcards for spaced review */
+const FlashcardMaker: React.FC<FlashcardMakerProps> = ({ subjectId, topic, lesson }) => {
+  const flashcards = useFlashcards();
+  const [asking, setAsking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const extracted = useMemo(
+    () => extractFlashcards(parseSections(lesson), topic.title),
+    [lesson, topic.title]
+  );
+  const topicCards = flashcards.forTopic(topic.id).length;
+
+  const save = (drafts: FlashcardDraft[], source: 'lesson' | 'model') => {
+    const added = flashcards.add(subjectId, topic.id, drafts, source);
+    const skipped = drafts.length - added;
+    setMessage(`${added} card${added === 1 ? '' : 's'} added${skipped ? ` (${skipped} already saved)` : ''}.`);
+  };
+
+  const askModel = async () => {
+    setAsking(true);
+    setError(null);
+    try {
+      const text = await contentService.generate(topic.title, 'flashcards', { context: { lesson, subject: subjectId } });
+      save(parseFlashcardDrafts(text), 'model');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-lg">🗂️</span>
+        <span className="text-gray-700 mr-auto">
+          Remember this next week
+          {topicCards > 0 && (
+            <span className="text-sm text-gray-500">
+              {' '}· {topicCards} card{topicCards === 1 ? '' : 's'} for this topic ·{' '}
+              <Link to={reviewPath()} className="text-blue-600 hover:underline">Review</Link>
+            </span>
+          )}
+        </span>
+        {extracted.length > 0 && (
+          <button
+            onClick={() => save(extracted, 'lesson')}
+            className="text-sm border border-blue-200 text-blue-700 hover:bg-blue-50 rounded-lg px-3 py-1.5"
+          >
+            Save {extracted.length} cards from this lesson
+          </button>
+        )}
+        <button
+          onClick={askModel}
+          disabled={asking}
+          className="text-sm border border-gray-200 text-gray-700 hover:bg-gray-50 disabled:opacity-50 rounded-lg px-3 py-1.5"
+        >
+          {asking ? 'Writing cards…' : 'Ask AI for cards'}
+        </button>
+      </div>
+      {message && <p className="mt-2 text-sm text-green-700" aria-live="polite">{message}</p>}
+      {error && <p className="mt-2 text-sm text-red-600" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default FlashcardMaker;
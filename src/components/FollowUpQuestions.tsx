@@ -1,11 +1,24 @@
 import React from 'react';
-import { FollowUpQuestion } from '../types';
+import { FollowUpCategory, FollowUpQuestion, PracticeDifficulty } from '../types';
 
 interface FollowUpQuestionsProps {
   questions: FollowUpQuestion[];
   onSelectQuestion: (question: FollowUpQuestion) => void;
 }
 
+const ICONS: Record<FollowUpCategory, string> = {
+  explanation: '🧠',
+  example:     '📝',
+  question:    '❓',
+  summary:     '📊',
+};
+
+const DIFFICULTY_STYLES: Record<PracticeDifficulty, string> = {
+  easy:   'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  hard:   'bg-red-100 text-red-700',
+};
+
 const FollowUpQuestions: React.FC<FollowUpQuestionsProps> = ({ 
   questions, 
   onSelectQuestion 
@@ -21,12 +34,15 @@ const FollowUpQuestions: React.FC<FollowUpQuestionsProps> = ({
             className="w-full text-left p-3 rounded-lg bg-gray-50 hover:bg-blue-50 text-gray-700 hover:text-blue-700 transition-colors border border-gray-200 hover:border-blue-200"
           >
             <div className="flex items-start">
-              <span className="mr-2 text-blue-500">
-                {question.contentType === 'explanation' ? '🧠' : 
-                 question.contentType === 'example' ? '📝' : 
-                 question.contentType === 'question' ? '❓' : '📊'}
+              <span className="mr-2 text-blue-500" title={question.contentType}>
+                {ICONS[question.contentType] ?? '💬'}
               </span>
-              <span>{question.question}</span>
+              <span className="flex-1">{question.question}</span>
+              {question.difficulty && (
+                <span className={`ml-2 shrink-0 rounded px-2 py-0.5 text-xs ${DIFFICULTY_STYLES[question.difficulty]}`}>
+                  {question.difficulty}
+                </span>
+              )}
             </div>
           </button>
         ))}
@@ -35,4 +51,4 @@ const FollowUpQuestions: React.FC<FollowUpQuestionsProps> = ({
   );
 };
 
-export default FollowUpQuestions;
\ No newline at end of file
+export default FollowUpQuestions;
@@ -1,54 +1,151 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BookOpen } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Subject, Topic } from '../types';
+import { historyPath, homePath, reviewPath, subjectPath, topicPath } from '../routes';
+import { getTopicPath } from '../data/curriculum';
+import { useAuth } from '../hooks/useAuth';
+import { useFlashcards } from '../hooks/useFlashcards';
+import { useI18n } from '../hooks/useI18n';
+import { useLearnerProfile } from '../hooks/useLearnerProfile';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { labelOf } from '../services/learnerProfile';
+import { signOutAndForget, syncNow } from '../services/accountSync';
+import CacheManager from './CacheManager';
+import SessionTransfer from './SessionTransfer';
+import ProfileDialog from './ProfileDialog';
+import SignInDialog from './SignInDialog';
 
 interface HeaderProps {
-  onBackToSubjects: () => void;
-  currentSubject?: string;
-  currentTopic?: string;
+  currentSubject?: Subject;
+  currentTopic?: Topic | null;
 }
 
 const Header: React.FC<HeaderProps> = ({ 
-  onBackToSubjects, 
   currentSubject,
   currentTopic 
 }) => {
+  const [showSaved, setShowSaved] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showSignIn, setShowSignIn] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  const [signOutError, setSignOutError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const syncError = useSyncStatus();
+  const dueCards = useFlashcards().due().length;
+  const { profile } = useLearnerProfile();
+  const { t } = useI18n();
+  const profileSummary = [
+    labelOf('grade', profile.grade),
+    profile.examTarget !== 'none' && labelOf('examTarget', profile.examTarget),
+  ].filter(Boolean).join(' · ');
+
+  const handleSignOut = () => {
+    setSignOutError(null);
+    signOutAndForget().catch(err => setSignOutError(err instanceof Error ? err.message : String(err)));
+  };
+
   return (
     <header className="bg-white border-b border-gray-200 py-4 px-6 sticky top-0 z-10">
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-2">
-          <BookOpen className="h-6 w-6 text-blue-600" />
-          <h1 className="text-xl font-bold text-gray-800">AiLearn</h1>
+          <Link to={homePath()} className="flex items-center space-x-2">
+            <BookOpen className="h-6 w-6 text-blue-600" />
+            <h1 className="text-xl font-bold text-gray-800">AiLearn</h1>
+          </Link>
           {currentSubject && (
-            <div className="flex items-center text-sm text-gray-500">
+            <nav aria-label="Breadcrumb" className="flex items-center text-sm text-gray-500">
               <span className="mx-2">/</span>
-              <button 
-                onClick={onBackToSubjects}
+              <Link 
+                to={subjectPath(currentSubject.id)}
                 className="hover:text-blue-600 transition-colors"
               >
-                {currentSubject}
-              </button>
-              {currentTopic && (
-                <>
+                {currentSubject.name}
+              </Link>
+              {currentTopic && getTopicPath(currentTopic.id).map(topic => (
+                <React.Fragment key={topic.id}>
                   <span className="mx-2">/</span>
-                  <span className="text-gray-500">{currentTopic}</span>
-                </>
-              )}
-            </div>
+                  <Link
+                    to={topicPath(currentSubject.id, topic.id)}
+                    className="hover:text-blue-600 transition-colors"
+                    aria-current={topic.id === currentTopic.id ? 'page' : undefined}
+                  >
+                    {topic.title}
+                  </Link>
+                </React.Fragment>
+              ))}
+            </nav>
           )}
         </div>
         
         <div className="flex items-center space-x-4">
-          <button className="text-sm text-gray-500 hover:text-blue-600 transition-colors">
-            History
+          <button
+            onClick={() => setShowProfile(true)}
+            className="text-sm text-gray-500 hover:text-blue-600 transition-colors"
+            title={t('header.profile')}
+          >
+            {profileSummary}
           </button>
-          <button className="text-sm text-gray-500 hover:text-blue-600 transition-colors">
-            Save Session
+          <button
+            onClick={() => setShowSaved(true)}
+            className="text-sm text-gray-500 hover:text-blue-600 transition-colors"
+          >
+            {t('header.savedLessons')}
           </button>
-          <button className="bg-blue-600 hover:bg-blue-700 text-white rounded-full px-4 py-1.5 text-sm transition-colors">
-            Sign In
+          <Link to={historyPath()} className="text-sm text-gray-500 hover:text-blue-600 transition-colors">
+            {t('header.history')}
+          </Link>
+          <Link to={reviewPath()} className="text-sm text-gray-500 hover:text-blue-600 transition-colors">
+            {t('header.review')}
+            {dueCards > 0 && (
+              <span className="ml-1 rounded-full bg-blue-600 px-1.5 py-0.5 text-xs text-white">{dueCards}</span>
+            )}
+          </Link>
+          <button
+            onClick={() => setShowTransfer(true)}
+            className="text-sm text-gray-500 hover:text-blue-600 transition-colors"
+          >
+            {t('header.saveSession')}
           </button>
+          {user ? (
+            <div className="flex items-center space-x-3 text-sm">
+              <span className="text-gray-700" title={user.email}>
+                {user.email}
+                {user.role === 'teacher' && (
+                  <span className="ml-2 rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700">{t('header.teacher')}</span>
+                )}
+              </span>
+              <button
+                onClick={handleSignOut}
+                className="text-gray-500 hover:text-blue-600 transition-colors"
+              >
+                {t('header.signOut')}
+              </button>
+              {signOutError && <span className="text-red-600" role="alert">{signOutError}</span>}
+              {syncError && !signOutError && (
+                <span className="flex items-center gap-2 text-amber-700" role="alert">
+                  {t('header.syncFailed')}: {syncError}
+                  <button onClick={() => syncNow().catch(() => {})} className="underline hover:text-amber-900">
+                    {t('header.retrySync')}
+                  </button>
+                </span>
+              )}
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowSignIn(true)}
+              className="bg-blue-600 hover:bg-blue-700 text-white rounded-full px-4 py-1.5 text-sm transition-colors"
+            >
+              {t('header.signIn')}
+            </button>
+          )}
         </div>
       </div>
+
+      {showSaved && <CacheManager onClose={() => setShowSaved(false)} />}
+      {showTransfer && <SessionTransfer onClose={() => setShowTransfer(false)} />}
+      {showSignIn && <SignInDialog onClose={() => setShowSignIn(false)} />}
+      {showProfile && <ProfileDialog onClose={() => setShowProfile(false)} />}
     </header>
   );
 };
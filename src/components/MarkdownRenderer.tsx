@@ -0,0 +1,76 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import type { Element } from 'hast';
+import remarkGfm   from 'remark-gfm';
+import remarkMath  from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeRaw   from 'rehype-raw';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import MermaidDiagram from './MermaidDiagram';
+
+interface MarkdownRendererProps {
+  /** Markdown with GFM tables, $…$ / $$…$$ LaTeX and ```mermaid diagrams */
+  children: string;
+  /** Draw ```mermaid blocks; off while a lesson is still streaming in */
+  diagrams?: boolean;
+  /** Leave out paragraph spacing, for short text such as a table cell */
+  inline?: boolean;
+}
+
+/**
+ * Raw HTML from the model is allowed (rehypeRaw) but sanitised before KaTeX
+ * runs; the math classes remark-math puts on code elements must survive.
+ */
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+/** Source of a ```mermaid block, given the `<pre>` element around it */
+function mermaidSource(pre?: Element): string | null {
+  const code = pre?.children[0];
+  if (code?.type !== 'element' || code.tagName !== 'code') return null;
+  const classes = code.properties.className;
+  if (!Array.isArray(classes) || !classes.includes('language-mermaid')) return null;
+  return code.children.map(child => (child.type === 'text' ? child.value : '')).join('');
+}
+
+/** The Markdown + KaTeX pipeline shared by lessons and tutor chat */
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ children, diagrams = true, inline = false }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm, remarkMath]}
+    rehypePlugins={[rehypeRaw, [rehypeSanitize, sanitizeSchema], rehypeKatex]}
+    components={{
+      p:    ({ node, ...props }) => <p className={inline ? 'inline' : 'mb-4 leading-relaxed'} {...props} />,
+      div:  ({ node, className, children, ...props }) =>
+        className?.includes('katex-display') ? (
+          <div className="my-6 p-4 bg-white rounded-lg shadow-sm text-center" {...props}>
+            {children}
+          </div>
+        ) : (
+          <div {...props}>{children}</div>
+        ),
+      ul:   ({ node, ...props }) => <ul className="list-disc list-inside mb-4 space-y-1" {...props} />,
+      ol:   ({ node, ...props }) => <ol className="list-decimal list-inside mb-4 space-y-1" {...props} />,
+      table:({ node, ...props }) => <table className="w-full table-auto border border-gray-200 mb-6" {...props} />,
+      thead:({ node, ...props }) => <thead className="bg-gray-100" {...props} />,
+      th:   ({ node, ...props }) => <th className="px-4 py-2 text-left font-medium" {...props} />,
+      td:   ({ node, ...props }) => <td className="px-4 py-2 border-t" {...props} />,
+      pre:  ({ node, ...props }) => {
+        const spec = diagrams ? mermaidSource(node) : null;
+        return spec !== null
+          ? <MermaidDiagram spec={spec} />
+          : <pre className="bg-gray-100 p-4 rounded overflow-x-auto" {...props} />;
+      },
+      code: ({ node, className, ...props }) =>
+        <code className={className ?? 'bg-gray-100 px-1 rounded'} {...props} />,
+    }}
+  >
+    {children}
+  </ReactMarkdown>
+);
+
+export default MarkdownRenderer;
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import type { Mermaid } from 'mermaid';
+import { checkMermaid, sanitizeMermaid } from '../services/visualAids';
+
+interface MermaidDiagramProps {
+  /** Mermaid source, as written in a ```mermaid block */
+  spec: string;
+}
+
+let loader: Promise<Mermaid> | null = null;
+let renders = 0;
+
+/** Mermaid is large, so it is only fetched once a lesson has a diagram */
+function loadMermaid(): Promise<Mermaid> {
+  loader ??= import('mermaid').then(({ default: mermaid }) => {
+    // 'strict' encodes HTML in labels and turns off click handlers
+    mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'neutral' });
+    return mermaid;
+  });
+  return loader;
+}
+
+async function renderDiagram(spec: string): Promise<string> {
+  const mermaid = await loadMermaid();
+  // parse first: a failed render leaves its error graphic in the page
+  await mermaid.parse(spec);
+  const { svg } = await mermaid.render(`mermaid-diagram-${++renders}`, spec);
+  return svg;
+}
+
+/** A Mermaid diagram drawn as SVG; a spec that won't draw is shown as source instead */
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ spec }) => {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSvg(null);
+    setFailure(null);
+    const clean = sanitizeMermaid(spec);
+    const problems = checkMermaid(clean);
+    if (problems.length > 0) {
+      setFailure(problems.join('; '));
+      return;
+    }
+    renderDiagram(clean)
+      .then(result => { if (!cancelled) setSvg(result); })
+      .catch(err => { if (!cancelled) setFailure(err instanceof Error ? err.message.split('\n')[0] : String(err)); });
+    return () => { cancelled = true; };
+  }, [spec]);
+
+  if (failure) {
+    return (
+      <figure className="my-6">
+        <figcaption className="mb-2 text-sm text-amber-700">
+          This diagram couldn't be drawn ({failure}). Its description:
+        </figcaption>
+        <pre className="bg-gray-100 p-4 rounded overflow-x-auto text-sm"><code>{spec}</code></pre>
+      </figure>
+    );
+  }
+  if (!svg) {
+    return <div className="my-6 h-40 rounded-lg bg-gray-100 animate-pulse" aria-label="Drawing diagram" />;
+  }
+  // Mermaid's output is sanitised by Mermaid itself under securityLevel 'strict'
+  return (
+    <div
+      className="my-6 flex justify-center overflow-x-auto rounded-lg bg-white p-4 shadow-sm"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+};
+
+export default MermaidDiagram;
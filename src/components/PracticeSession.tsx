@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { PracticeAnswer, PracticeQuestion, PracticeSet } from '../types';
+import { gradeAnswer, parseNumericInput } from '../services/practice';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface PracticeSessionProps {
+  practiceSet: PracticeSet;
+  /** Called once per question with whether the first attempt was right */
+  onAnswered?: (question: PracticeQuestion, correct: boolean) => void;
+}
+
+interface Attempt {
+  answer: PracticeAnswer;
+  correct: boolean;
+}
+
+const DIFFICULTY_STYLES: Record<string, string> = {
+  easy:   'bg-green-50 text-green-700',
+  medium: 'bg-yellow-50 text-yellow-700',
+  hard:   'bg-red-50 text-red-700',
+};
+
+const optionLetter = (i: number) => String.fromCharCode(65 + i);
+
+/** Inline Markdown for option labels, without the paragraph spacing */
+const Inline: React.FC<{ children: string }> = ({ children }) => (
+  <span className="[&_p]:mb-0 [&_p]:inline">
+    <MarkdownRenderer>{children}</MarkdownRenderer>
+  </span>
+);
+
+interface QuestionCardProps {
+  index: number;
+  question: PracticeQuestion;
+  attempt?: Attempt;
+  onSubmit: (answer: PracticeAnswer) => void;
+}
+
+const QuestionCard: React.FC<QuestionCardProps> = ({ index, question, attempt, onSubmit }) => {
+  const [choice, setChoice] = useState<number | null>(null);
+  const [chosen, setChosen] = useState<number[]>([]);
+  const [typed, setTyped] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+  const locked = !!attempt;
+
+  const submit = () => {
+    if (question.kind === 'mcq') {
+      if (choice !== null) onSubmit(choice);
+    } else if (question.kind === 'multi-select') {
+      if (chosen.length > 0) onSubmit(chosen);
+    } else {
+      const parsed = parseNumericInput(typed, question.unit);
+      if ('error' in parsed) setInputError(parsed.error);
+      else {
+        setInputError(null);
+        onSubmit(parsed.value);
+      }
+    }
+  };
+
+  const optionState = (i: number) => {
+    if (!attempt) return 'border-gray-200 hover:border-blue-300';
+    const right = question.kind === 'mcq' ? i === question.answer
+      : question.kind === 'multi-select' && question.answers.includes(i);
+    const picked = Array.isArray(attempt.answer) ? attempt.answer.includes(i) : attempt.answer === i;
+    if (right) return 'border-green-400 bg-green-50';
+    return picked ? 'border-red-400 bg-red-50' : 'border-gray-200 opacity-70';
+  };
+
+  return (
+    <section className="bg-white rounded-lg p-5 shadow-sm space-y-4">
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <span className="font-medium text-gray-700">Question {index + 1}</span>
+        <span>· {question.kind === 'multi-select' ? 'Select all that apply' : question.kind === 'mcq' ? 'Choose one' : 'Enter a number'}</span>
+        {question.difficulty && (
+          <span className={`ml-auto rounded-full px-2 py-0.5 text-xs ${DIFFICULTY_STYLES[question.difficulty]}`}>
+            {question.difficulty}
+          </span>
+        )}
+      </div>
+
+      <div className="prose max-w-none">
+        <MarkdownRenderer>{question.prompt}</MarkdownRenderer>
+      </div>
+
+      {question.kind === 'numeric' ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={typed}
+            disabled={locked}
+            onChange={e => setTyped(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && submit()}
+            aria-label={`Answer to question ${index + 1}`}
+            className="w-40 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+          />
+          {question.unit && <span className="text-sm text-gray-600">{question.unit}</span>}
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {question.options.map((option, i) => (
+            <li key={i}>
+              <label className={`flex items-start gap-3 border rounded-lg px-3 py-2 text-sm cursor-pointer ${optionState(i)}`}>
+                <input
+                  type={question.kind === 'mcq' ? 'radio' : 'checkbox'}
+                  name={`${question.id}-option`}
+                  disabled={locked}
+                  checked={question.kind === 'mcq' ? choice === i : chosen.includes(i)}
+                  onChange={() => question.kind === 'mcq'
+                    ? setChoice(i)
+                    : setChosen(c => (c.includes(i) ? c.filter(x => x !== i) : [...c, i]))}
+                  className="mt-1"
+                />
+                <span className="font-medium text-gray-500">{optionLetter(i)}.</span>
+                <Inline>{option}</Inline>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {inputError && <p className="text-sm text-red-600" role="alert">{inputError}</p>}
+
+      {attempt ? (
+        <div className="space-y-3">
+          <p className={`text-sm font-medium ${attempt.correct ? 'text-green-700' : 'text-red-700'}`} aria-live="polite">
+            {attempt.correct ? '✅ Correct' : '❌ Not quite'}
+            {!attempt.correct && question.kind === 'numeric' && (
+              <span className="font-normal text-gray-600">
+                {' '}— expected {question.answer}{question.unit ? ` ${question.unit}` : ''}
+                {question.tolerance > 0 && ` (± ${question.tolerance})`}
+              </span>
+            )}
+          </p>
+          <div className="border-l-4 border-indigo-500 bg-indigo-50 rounded-lg p-4 prose max-w-none">
+            <h4 className="font-semibold mb-2">Worked solution</h4>
+            <MarkdownRenderer>{question.solution}</MarkdownRenderer>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={submit}
+          className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 text-sm"
+        >
+          Check answer
+        </button>
+      )}
+    </section>
+  );
+};
+
+/** A generated practice set with answer inputs, graded on the spot */
+const PracticeSession: React.FC<PracticeSessionProps> = ({ practiceSet, onAnswered }) => {
+  const [attempts, setAttempts] = useState<Record<string, Attempt>>({});
+  // Remounts the cards so their inputs clear on "Try again"
+  const [round, setRound] = useState(0);
+
+  const answered = Object.values(attempts);
+  const correct = answered.filter(a => a.correct).length;
+  const total = practiceSet.questions.length;
+
+  const handleSubmit = (question: PracticeQuestion, answer: PracticeAnswer) => {
+    const isCorrect = gradeAnswer(question, answer);
+    setAttempts(a => ({ ...a, [question.id]: { answer, correct: isCorrect } }));
+    onAnswered?.(question, isCorrect);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h1 className="text-3xl font-bold text-gray-800">{practiceSet.title}</h1>
+        <span className="text-sm text-gray-600" aria-live="polite">
+          {correct} / {answered.length} correct · {total - answered.length} left
+        </span>
+      </div>
+
+      {practiceSet.tips && practiceSet.tips.length > 0 && (
+        <section className="border-l-4 border-teal-500 bg-teal-50 rounded-lg p-4">
+          <h2 className="font-semibold text-gray-800 mb-2">Before you start</h2>
+          <ul className="list-disc list-inside space-y-1 text-sm">
+            {practiceSet.tips.map((tip, i) => <li key={i}><Inline>{tip}</Inline></li>)}
+          </ul>
+        </section>
+      )}
+
+      {practiceSet.questions.map((question, i) => (
+        <QuestionCard
+          key={`${round}-${question.id}`}
+          index={i}
+          question={question}
+          attempt={attempts[question.id]}
+          onSubmit={answer => handleSubmit(question, answer)}
+        />
+      ))}
+
+      {answered.length === total && (
+        <div className="flex items-center justify-between bg-white rounded-lg p-4 shadow-sm">
+          <span className="text-gray-700">
+            You scored {correct} out of {total}.
+          </span>
+          <button
+            onClick={() => {
+              setAttempts({});
+              setRound(r => r + 1);
+            }}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeSession;
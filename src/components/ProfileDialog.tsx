@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { LearnerProfile } from '../types';
+import { DEPTH_OPTIONS, EXAM_OPTIONS, GRADE_OPTIONS, LANGUAGE_OPTIONS } from '../services/learnerProfile';
+import { profileStore } from '../services/profileService';
+
+interface ProfileDialogProps {
+  onClose: () => void;
+}
+
+const selectClass = 'mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/** Pick the grade, exam, language and depth every lesson is written for */
+const ProfileDialog: React.FC<ProfileDialogProps> = ({ onClose }) => {
+  const [profile, setProfile] = useState<LearnerProfile>(profileStore.profile);
+
+  const field = <K extends keyof LearnerProfile>(
+    key: K,
+    label: string,
+    options: { value: LearnerProfile[K]; label: string }[]
+  ) => (
+    <label className="block text-sm text-gray-700">
+      {label}
+      <select
+        value={profile[key]}
+        onChange={e => setProfile(p => ({ ...p, [key]: e.target.value }))}
+        className={selectClass}
+      >
+        {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Learner profile"
+    >
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-sm">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Learner profile</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            profileStore.set(profile);
+            onClose();
+          }}
+          className="p-4 space-y-4"
+        >
+          <p className="text-sm text-gray-500">
+            Lessons, practice and tutor chats are written for this profile. Changing it
+            generates fresh lessons rather than reusing ones saved for another profile.
+          </p>
+          {field('grade', 'Grade', GRADE_OPTIONS)}
+          {field('examTarget', 'Preparing for', EXAM_OPTIONS)}
+          {field('language', 'Language', LANGUAGE_OPTIONS)}
+          {field('depth', 'Depth', DEPTH_OPTIONS)}
+          <button
+            type="submit"
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 text-sm"
+          >
+            Save profile
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileDialog;
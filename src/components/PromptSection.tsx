@@ -1,23 +1,37 @@
 import React, { useState, useEffect } from 'react';
 import PromptButton from './PromptButton';
 import { Topic } from '../types';
-import { promptTypes } from '../data/mockData';
+import { promptTypes } from '../data/promptTypes';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../i18n';
 
 interface PromptSectionProps {
   selectedTopic: Topic | null;
   onGenerateContent: (promptType: string) => void;
   isGenerating: boolean;
+  /** Stops the generation currently in progress */
+  onCancel?: () => void;
+  /** Prompt type shown as active, e.g. the one named in the URL */
+  selectedPromptType?: string | null;
+  isCompleted?: boolean;
+  onToggleComplete?: () => void;
 }
 
 const PromptSection: React.FC<PromptSectionProps> = ({ 
   selectedTopic, 
   onGenerateContent,
-  isGenerating
+  isGenerating,
+  onCancel,
+  selectedPromptType = null,
+  isCompleted = false,
+  onToggleComplete
 }) => {
-  const [selectedPromptType, setSelectedPromptType] = useState<string | null>(null);
   const [hoveredPrompt, setHoveredPrompt] = useState<string | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [mostUsedPrompts, setMostUsedPrompts] = useState<string[]>([]);
+  const { t } = useI18n();
+  const label = (id: string) => t(`promptType.${id}.label` as MessageKey);
+  const description = (id: string) => t(`promptType.${id}.description` as MessageKey);
 
   // Load most used prompts from localStorage
   useEffect(() => {
@@ -40,7 +54,6 @@ const PromptSection: React.FC<PromptSectionProps> = ({
   };
 
   const handlePromptClick = (promptTypeId: string) => {
-    setSelectedPromptType(promptTypeId);
     updatePromptUsage(promptTypeId);
     onGenerateContent(promptTypeId);
   };
@@ -51,22 +64,40 @@ const PromptSection: React.FC<PromptSectionProps> = ({
   if (!selectedTopic) {
     return (
       <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-        <p className="text-gray-500 text-center">Select a topic to see prompt options</p>
+        <p className="text-gray-500 text-center">{t('prompts.selectTopic')}</p>
       </div>
     );
   }
 
+  // The topic is highlighted wherever the language puts it in the sentence
+  const [headingBefore, headingAfter = ''] = t('prompts.heading').split('{topic}');
+
   return (
     <div className="bg-white rounded-lg p-6 shadow-sm">
-      <h3 className="text-xl font-medium text-gray-800 mb-4">
-        What would you like to learn about <span className="text-blue-600 font-semibold">{selectedTopic.title}</span>?
-      </h3>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <h3 className="text-xl font-medium text-gray-800">
+          {headingBefore}<span className="text-blue-600 font-semibold">{selectedTopic.title}</span>{headingAfter}
+        </h3>
+        {onToggleComplete && (
+          <button
+            onClick={onToggleComplete}
+            className={`shrink-0 px-3 py-1 rounded-full text-sm transition-colors ${
+              isCompleted
+                ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+            aria-pressed={isCompleted}
+          >
+            {isCompleted ? t('prompts.completed') : t('prompts.markComplete')}
+          </button>
+        )}
+      </div>
       
       <div className="space-y-4">
         <div 
           className="grid grid-cols-2 md:grid-cols-3 gap-3"
           role="group"
-          aria-label="Learning options"
+          aria-label={t('prompts.learningOptions')}
         >
           {regularPrompts.map(promptType => (
             <div
@@ -87,7 +118,7 @@ const PromptSection: React.FC<PromptSectionProps> = ({
               >
                 <div className="flex flex-col items-center text-center gap-2">
                   <span className="text-2xl mb-1">{promptType.icon}</span>
-                  <span className="font-medium text-sm">{promptType.label}</span>
+                  <span className="font-medium text-sm">{label(promptType.id)}</span>
                 </div>
               </button>
               
@@ -97,7 +128,7 @@ const PromptSection: React.FC<PromptSectionProps> = ({
                   role="tooltip"
                 >
                   <div className="relative">
-                    {promptType.description}
+                    {description(promptType.id)}
                     <div className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 w-2 h-2 bg-gray-800 rotate-45"></div>
                   </div>
                 </div>
@@ -112,7 +143,7 @@ const PromptSection: React.FC<PromptSectionProps> = ({
             className="text-sm text-gray-600 hover:text-blue-600 transition-colors"
             aria-expanded={showAdvanced}
           >
-            {showAdvanced ? 'Hide' : 'Show'} Advanced Options
+            {showAdvanced ? t('prompts.hideAdvanced') : t('prompts.showAdvanced')}
           </button>
         </div>
 
@@ -120,7 +151,7 @@ const PromptSection: React.FC<PromptSectionProps> = ({
           <div 
             className="grid grid-cols-2 md:grid-cols-3 gap-3 pt-4 border-t border-gray-200"
             role="group"
-            aria-label="Advanced learning options"
+            aria-label={t('prompts.advancedOptions')}
           >
             {advancedPrompts.map(promptType => (
               <div
@@ -141,7 +172,7 @@ const PromptSection: React.FC<PromptSectionProps> = ({
                 >
                   <div className="flex flex-col items-center text-center gap-2">
                     <span className="text-2xl mb-1">{promptType.icon}</span>
-                    <span className="font-medium text-sm">{promptType.label}</span>
+                    <span className="font-medium text-sm">{label(promptType.id)}</span>
                   </div>
                 </button>
                 
@@ -151,7 +182,7 @@ const PromptSection: React.FC<PromptSectionProps> = ({
                     role="tooltip"
                   >
                     <div className="relative">
-                      {promptType.description}
+                      {description(promptType.id)}
                       <div className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 w-2 h-2 bg-gray-800 rotate-45"></div>
                     </div>
                   </div>
@@ -165,7 +196,15 @@ const PromptSection: React.FC<PromptSectionProps> = ({
       {isGenerating && (
         <div className="mt-6 flex items-center justify-center p-4 bg-blue-50 rounded-lg">
           <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500 mr-3"></div>
-          <span className="text-blue-700">Generating personalized content...</span>
+          <span className="text-blue-700">{t('prompts.generating')}</span>
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="ml-4 text-sm text-blue-700 underline hover:text-blue-900"
+            >
+              {t('prompts.stop')}
+            </button>
+          )}
         </div>
       )}
     </div>
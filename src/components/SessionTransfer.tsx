@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { UserSession } from '../types';
+import { historyStore } from '../services/historyService';
+import {
+  downloadSessionFile,
+  exportSession,
+  importSession,
+  parseSessionFile,
+  SessionFile
+} from '../services/sessionFile';
+import { historyPath } from '../routes';
+
+interface SessionTransferProps {
+  onClose: () => void;
+}
+
+const describe = (session: UserSession) =>
+  `${new Date(session.startedAt).toLocaleString()} · ${session.viewedTopics.length} topics · ${session.generatedContent.length} lessons`;
+
+const SessionTransfer: React.FC<SessionTransferProps> = ({ onClose }) => {
+  const [latest, setLatest] = useState<UserSession | null>(null);
+  const [pending, setPending] = useState<SessionFile | null>(null);
+  const [withProgress, setWithProgress] = useState(false);
+  const [imported, setImported] = useState<UserSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    historyStore.sessions().then(([session]) => setLatest(session ?? null)).catch(() => setLatest(null));
+  }, []);
+
+  const handleExport = async () => {
+    if (!latest) return;
+    setError(null);
+    try {
+      downloadSessionFile(await exportSession(latest.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setImported(null);
+    setWithProgress(false);
+    try {
+      setPending(parseSessionFile(await file.text()));
+    } catch (err) {
+      setPending(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    try {
+      setImported(await importSession(pending, { progress: withProgress }));
+      setPending(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Save or open a session"
+    >
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-lg">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Save or open a session</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <section>
+            <h3 className="font-medium text-gray-800 mb-1">Save this session</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              Downloads your latest session — lessons, follow-up questions, tutor chats and progress —
+              as one file you can open on another device or share with a class.
+            </p>
+            {latest ? (
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm text-gray-600">{describe(latest)}</span>
+                <button
+                  onClick={handleExport}
+                  className="shrink-0 bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 text-sm"
+                >
+                  Download
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-400">Open a topic first — there is nothing to save yet.</p>
+            )}
+          </section>
+
+          <section>
+            <h3 className="font-medium text-gray-800 mb-1">Open a session file</h3>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFile}
+              className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700"
+            />
+            {pending && (
+              <div className="mt-3 space-y-2 bg-blue-50 rounded-lg p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm text-gray-700">{describe(pending.session)}</span>
+                  <button
+                    onClick={handleImport}
+                    className="shrink-0 bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 text-sm"
+                  >
+                    Import
+                  </button>
+                </div>
+                {Object.keys(pending.progress).length > 0 && (
+                  <label className="flex items-start gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={withProgress}
+                      onChange={e => setWithProgress(e.target.checked)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      Also add the file's progress to mine. Only tick this for your own sessions — a file
+                      from a teacher or classmate carries their progress, not yours.
+                    </span>
+                  </label>
+                )}
+              </div>
+            )}
+            {imported && (
+              <p className="mt-3 text-sm text-green-700">
+                Session imported. <Link to={historyPath()} onClick={onClose} className="underline">Open it in History</Link>
+              </p>
+            )}
+          </section>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700" role="alert">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTransfer;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { authStore } from '../services/authService';
+
+interface SignInDialogProps {
+  onClose: () => void;
+}
+
+type Mode = 'sign-in' | 'register';
+
+const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const SignInDialog: React.FC<SignInDialogProps> = ({ onClose }) => {
+  const [mode, setMode] = useState<Mode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [teacherCode, setTeacherCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (mode === 'sign-in') await authStore.signIn(email, password);
+      else await authStore.register(email, password, teacherCode.trim() || undefined);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  const title = mode === 'sign-in' ? 'Sign in' : 'Create an account';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label={title}
+    >
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-sm">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">{title}</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <p className="text-sm text-gray-500">
+            Your progress, history and tutor chats follow you to every device you sign in on.
+            Anything you studied here as a guest is added to your account.
+          </p>
+          <label className="block text-sm text-gray-700">
+            Email
+            <input
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Password
+            <input
+              type="password"
+              autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+              required
+              minLength={8}
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          {mode === 'register' && (
+            <label className="block text-sm text-gray-700">
+              Teacher code <span className="text-gray-400">(optional)</span>
+              <input
+                type="text"
+                value={teacherCode}
+                onChange={e => setTeacherCode(e.target.value)}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700" role="alert">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg px-4 py-2 text-sm"
+          >
+            {busy ? 'Please wait…' : title}
+          </button>
+          <p className="text-center text-sm text-gray-500">
+            {mode === 'sign-in' ? 'New here? ' : 'Already have an account? '}
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === 'sign-in' ? 'register' : 'sign-in');
+                setError(null);
+              }}
+              className="text-blue-600 hover:underline"
+            >
+              {mode === 'sign-in' ? 'Create an account' : 'Sign in'}
+            </button>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SignInDialog;
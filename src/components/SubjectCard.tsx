@@ -1,5 +1,7 @@
 import React from 'react';
 import { Subject } from '../types';
+import { getTopicsBySubject } from '../data/curriculum';
+import { useProgress } from '../hooks/useProgress';
 
 interface SubjectCardProps {
   subject: Subject;
@@ -7,6 +9,11 @@ interface SubjectCardProps {
 }
 
 const SubjectCard: React.FC<SubjectCardProps> = ({ subject, onClick }) => {
+  const progress = useProgress();
+  const percent = Math.round(
+    progress.completion(getTopicsBySubject(subject.id).map(topic => topic.id)) * 100
+  );
+
   return (
     <div
       className="relative h-48 rounded-xl overflow-hidden transition-all duration-300 transform hover:scale-[1.02] hover:shadow-lg cursor-pointer group"
@@ -21,6 +28,21 @@ const SubjectCard: React.FC<SubjectCardProps> = ({ subject, onClick }) => {
       <div className="absolute bottom-0 left-0 right-0 p-4 text-white">
         <h3 className="text-xl font-bold mb-1">{subject.name}</h3>
         <p className="text-sm text-white/80">{subject.description}</p>
+        {percent > 0 && (
+          <div className="mt-2 flex items-center gap-2 text-xs text-white/90">
+            <div
+              className="flex-1 h-1.5 rounded-full bg-white/30 overflow-hidden"
+              role="progressbar"
+              aria-valuenow={percent}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-label={`${subject.name} completion`}
+            >
+              <div className="h-full bg-white" style={{ width: `${percent}%` }} />
+            </div>
+            <span>{percent}% complete</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -6,7 +6,9 @@ interface TopicCardProps {
   onClick: (topic: Topic) => void;
   isActive?: boolean;
   isRecommended?: boolean;
-  status: 'completed' | 'in-progress' | 'upcoming';
+  status: 'completed' | 'in-progress' | 'locked' | 'upcoming';
+  /** Why the topic is locked, shown as a tooltip */
+  lockedReason?: string;
 }
 
 const getDifficultyColor = (difficulty: string) => {
@@ -28,8 +30,10 @@ const getStatusIcon = (status: string) => {
       return '✅';
     case 'in-progress':
       return '🔄';
-    default:
+    case 'locked':
       return '🔒';
+    default:
+      return '📘';
   }
 };
 
@@ -38,7 +42,8 @@ const TopicCard: React.FC<TopicCardProps> = ({
   onClick, 
   isActive = false,
   isRecommended = false,
-  status
+  status,
+  lockedReason
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [showFullTitle, setShowFullTitle] = useState(false);
@@ -62,7 +67,7 @@ const TopicCard: React.FC<TopicCardProps> = ({
       <div className="p-4">
         {/* Status and Tags */}
         <div className="flex flex-wrap items-center gap-2 mb-3">
-          <span className="text-xl" title={`Status: ${status}`}>
+          <span className="text-xl" title={lockedReason ?? `Status: ${status}`}>
             {getStatusIcon(status)}
           </span>
           {isRecommended && (
@@ -1,8 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Topic } from '../types';
 import TopicCard from './TopicCard';
+import TopicOutline from './TopicOutline';
+import { prerequisiteGraph } from '../data/curriculum';
+import { useProgress } from '../hooks/useProgress';
+import { recommendTopics } from '../services/learnerModel';
 import { X, Menu } from 'lucide-react';
 
+type ViewMode = 'recommended' | 'all' | 'outline';
+
 interface TopicDiscoveryPanelProps {
   topics: Topic[];
   onSelectTopic: (topic: Topic) => void;
@@ -16,44 +22,55 @@ const TopicDiscoveryPanel: React.FC<TopicDiscoveryPanelProps> = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [difficultyFilter, setDifficultyFilter] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'all' | 'recommended'>('recommended');
+  const [viewMode, setViewMode] = useState<ViewMode>('recommended');
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const [completedTopics, setCompletedTopics] = useState<string[]>([]);
-  const [inProgressTopic, setInProgressTopic] = useState<string | null>(null);
-  
-  const recommendedTopicIds = [
-    'moving-charges-magnetism',
-    'lorentz-force',
-    'electromagnetic-induction',
-    'amperes-law'
-  ];
-
-  useEffect(() => {
-    const savedProgress = localStorage.getItem('topicProgress');
-    if (savedProgress) {
-      const { completed, inProgress } = JSON.parse(savedProgress);
-      setCompletedTopics(completed);
-      setInProgressTopic(inProgress);
-    }
-  }, []);
+  const progress = useProgress();
+  const [goalTopicId, setGoalTopicId] = useState<string | null>(null);
+
+  // Until the student picks a goal, plan towards the topic they have open
+  const goalId = goalTopicId ?? selectedTopicId ?? null;
+  const mastered = progress.completedIds();
+  const learningPath = goalId ? prerequisiteGraph.learningPath(goalId, mastered) : [];
+  // What to study next, ranked by the learner model from practice results so far
+  const upNext = recommendTopics(
+    topics,
+    id => progress.estimate(id),
+    id => prerequisiteGraph.prerequisitesOf(id)
+  );
+  const recommendedTopicIds = [...upNext.map(r => r.topic.id), ...learningPath.map(topic => topic.id)];
 
   const getTopicStatus = (topicId: string) => {
-    if (completedTopics.includes(topicId)) return 'completed';
-    if (inProgressTopic === topicId) return 'in-progress';
+    const status = progress.status(topicId);
+    if (status !== 'not-started') return status;
+    if (prerequisiteGraph.isLocked(topicId, mastered)) return 'locked';
     return 'upcoming';
   };
 
+  const getStatusIcon = (topicId: string) => {
+    const status = getTopicStatus(topicId);
+    return status === 'completed' ? '✅' : status === 'in-progress' ? '🔄' : status === 'locked' ? '🔒' : '📘';
+  };
+
+  const getLockedReason = (topicId: string) => {
+    const missing = prerequisiteGraph.missing(topicId, mastered);
+    return missing.length > 0
+      ? `Learn first: ${missing.map(t => t.title).join(', ')}`
+      : undefined;
+  };
+
   const handleTopicSelect = (topic: Topic) => {
     onSelectTopic(topic);
     setIsOpen(false); // Close drawer on mobile after selection
   };
 
-  const recommendedTopics = topics.filter(topic => recommendedTopicIds.includes(topic.id));
+  const recommendedTopics = learningPath;
   const filteredTopics = difficultyFilter 
     ? topics.filter(topic => topic.difficulty === difficultyFilter)
     : topics;
 
   const displayedTopics = viewMode === 'recommended' ? recommendedTopics : filteredTopics;
+  // Topics whose parent is outside the list start the outline
+  const outlineRoots = topics.filter(topic => !topics.some(t => t.id === topic.parentId));
   const regularTopics = displayedTopics.filter(topic => topic.difficulty !== 'Advanced');
   const advancedTopics = displayedTopics.filter(topic => topic.difficulty === 'Advanced');
 
@@ -90,11 +107,12 @@ const TopicDiscoveryPanel: React.FC<TopicDiscoveryPanelProps> = ({
         <div className="px-4 pb-4">
           <select
             value={viewMode}
-            onChange={(e) => setViewMode(e.target.value as 'all' | 'recommended')}
+            onChange={(e) => setViewMode(e.target.value as ViewMode)}
             className="w-full p-2 border border-gray-200 rounded-lg text-sm md:hidden"
           >
             <option value="recommended">Recommended Topics</option>
             <option value="all">All Topics</option>
+            <option value="outline">Outline</option>
           </select>
           
           {/* Desktop view mode buttons */}
@@ -119,6 +137,16 @@ const TopicDiscoveryPanel: React.FC<TopicDiscoveryPanelProps> = ({
             >
               All Topics
             </button>
+            <button
+              className={`px-3 py-1 rounded-full text-xs ${
+                viewMode === 'outline' 
+                  ? 'bg-gray-800 text-white' 
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+              onClick={() => setViewMode('outline')}
+            >
+              Outline
+            </button>
           </div>
         </div>
       </div>
@@ -128,110 +156,164 @@ const TopicDiscoveryPanel: React.FC<TopicDiscoveryPanelProps> = ({
         {/* Learning Path */}
         {viewMode === 'recommended' && (
           <div className="px-4 py-3 space-y-2">
-            <h3 className="text-sm font-medium text-blue-800">Recommended Path</h3>
-            {recommendedTopicIds.map((topicId, index) => {
-              const topic = topics.find(t => t.id === topicId);
-              if (!topic) return null;
-              
-              const status = getTopicStatus(topicId);
-              
-              return (
-                <button
-                  key={topicId}
-                  onClick={() => handleTopicSelect(topic)}
-                  className="w-full flex items-center space-x-2 p-2 hover:bg-gray-50 rounded-lg transition-colors"
+            <h3 className="text-sm font-medium text-blue-800">Up Next For You</h3>
+            {upNext.length === 0 && (
+              <p className="text-sm text-gray-500 p-2">Nothing left to unlock here. Pick a goal below to revisit.</p>
+            )}
+            {upNext.map(({ topic, mastery, reason }) => (
+              <button
+                key={topic.id}
+                onClick={() => handleTopicSelect(topic)}
+                className="w-full flex items-center space-x-2 p-2 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                <span className="text-lg">
+                  {getStatusIcon(topic.id)}
+                </span>
+                <span className="flex-1 text-left">
+                  <span className="block text-sm">{topic.title}</span>
+                  <span className="block text-xs text-gray-500">{reason}</span>
+                </span>
+                <span
+                  className="text-xs px-2 py-1 rounded-full bg-blue-50 text-blue-700"
+                  title="Estimated chance of answering a medium question correctly"
                 >
-                  <span className="text-lg">
-                    {status === 'completed' ? '✅' : status === 'in-progress' ? '🔄' : '🔒'}
-                  </span>
-                  <span className="flex-1 text-left text-sm">
-                    {topic.title}
-                  </span>
-                  <span className="text-xs px-2 py-1 rounded-full bg-gray-100">
-                    {topic.difficulty}
-                  </span>
-                </button>
-              );
-            })}
+                  {Math.round(mastery * 100)}%
+                </span>
+              </button>
+            ))}
           </div>
         )}
 
-        {/* Filters */}
-        <div className="sticky top-0 bg-white z-10 px-4 py-3 border-t border-b border-gray-200">
-          <div className="flex space-x-2 overflow-x-auto pb-2 -mx-4 px-4">
-            <button
-              className={`scroll-snap-align-start shrink-0 px-3 py-1 rounded-full text-xs whitespace-nowrap ${
-                difficultyFilter === null 
-                  ? 'bg-gray-800 text-white' 
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-              onClick={() => setDifficultyFilter(null)}
-            >
-              All
-            </button>
-            <button
-              className={`scroll-snap-align-start shrink-0 px-3 py-1 rounded-full text-xs whitespace-nowrap ${
-                difficultyFilter === 'Beginner' 
-                  ? 'bg-green-600 text-white' 
-                  : 'bg-green-100 text-green-700 hover:bg-green-200'
-              }`}
-              onClick={() => setDifficultyFilter('Beginner')}
-            >
-              Beginner
-            </button>
-            <button
-              className={`scroll-snap-align-start shrink-0 px-3 py-1 rounded-full text-xs whitespace-nowrap ${
-                difficultyFilter === 'Intermediate' 
-                  ? 'bg-blue-600 text-white' 
-                  : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
-              }`}
-              onClick={() => setDifficultyFilter('Intermediate')}
-            >
-              Intermediate
-            </button>
-            <button
-              className={`scroll-snap-align-start shrink-0 px-3 py-1 rounded-full text-xs whitespace-nowrap ${
-                showAdvanced ? 'bg-purple-600 text-white' : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
-              }`}
-              onClick={() => setShowAdvanced(!showAdvanced)}
+        {viewMode === 'recommended' && (
+          <div className="px-4 py-3 space-y-2 border-t border-gray-100">
+            <h3 className="text-sm font-medium text-blue-800">Recommended Path</h3>
+            <select
+              value={goalId ?? ''}
+              onChange={(e) => setGoalTopicId(e.target.value || null)}
+              className="w-full p-2 border border-gray-200 rounded-lg text-sm"
+              aria-label="Goal topic"
             >
-              Advanced
-            </button>
+              <option value="">Choose a goal topic…</option>
+              {topics.map(topic => (
+                <option key={topic.id} value={topic.id}>{topic.title}</option>
+              ))}
+            </select>
+            {goalId && learningPath.length === 0 && (
+              <p className="text-sm text-gray-500 p-2">You have mastered everything this goal needs.</p>
+            )}
+            {learningPath.map((topic, index) => (
+              <button
+                key={topic.id}
+                onClick={() => handleTopicSelect(topic)}
+                className="w-full flex items-center space-x-2 p-2 hover:bg-gray-50 rounded-lg transition-colors"
+                title={getLockedReason(topic.id)}
+              >
+                <span className="text-xs text-gray-400 w-4">{index + 1}</span>
+                <span className="text-lg">
+                  {getStatusIcon(topic.id)}
+                </span>
+                <span className="flex-1 text-left text-sm">
+                  {topic.title}
+                </span>
+                <span className="text-xs px-2 py-1 rounded-full bg-gray-100">
+                  {topic.difficulty}
+                </span>
+              </button>
+            ))}
           </div>
-        </div>
+        )}
 
-        {/* Topic Cards */}
-        <div className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {regularTopics.map(topic => (
-              <TopicCard 
-                key={topic.id} 
-                topic={topic} 
-                onClick={handleTopicSelect}
-                isActive={topic.id === selectedTopicId}
-                isRecommended={recommendedTopicIds.includes(topic.id)}
-                status={getTopicStatus(topic.id)}
-              />
-            ))}
+        {viewMode === 'outline' ? (
+          <div className="px-2 py-3">
+            <TopicOutline
+              roots={outlineRoots}
+              onSelectTopic={handleTopicSelect}
+              selectedTopicId={selectedTopicId}
+              getStatusIcon={getStatusIcon}
+            />
+          </div>
+        ) : (
+          <>
+            {/* Filters */}
+            <div className="sticky top-0 bg-white z-10 px-4 py-3 border-t border-b border-gray-200">
+              <div className="flex space-x-2 overflow-x-auto pb-2 -mx-4 px-4">
+                <button
+                  className={`scroll-snap-align-start shrink-0 px-3 py-1 rounded-full text-xs whitespace-nowrap ${
+                    difficultyFilter === null 
+                      ? 'bg-gray-800 text-white' 
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  onClick={() => setDifficultyFilter(null)}
+                >
+                  All
+                </button>
+                <button
+                  className={`scroll-snap-align-start shrink-0 px-3 py-1 rounded-full text-xs whitespace-nowrap ${
+                    difficultyFilter === 'Beginner' 
+                      ? 'bg-green-600 text-white' 
+                      : 'bg-green-100 text-green-700 hover:bg-green-200'
+                  }`}
+                  onClick={() => setDifficultyFilter('Beginner')}
+                >
+                  Beginner
+                </button>
+                <button
+                  className={`scroll-snap-align-start shrink-0 px-3 py-1 rounded-full text-xs whitespace-nowrap ${
+                    difficultyFilter === 'Intermediate' 
+                      ? 'bg-blue-600 text-white' 
+                      : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                  }`}
+                  onClick={() => setDifficultyFilter('Intermediate')}
+                >
+                  Intermediate
+                </button>
+                <button
+                  className={`scroll-snap-align-start shrink-0 px-3 py-1 rounded-full text-xs whitespace-nowrap ${
+                    showAdvanced ? 'bg-purple-600 text-white' : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                  }`}
+                  onClick={() => setShowAdvanced(!showAdvanced)}
+                >
+                  Advanced
+                </button>
+              </div>
+            </div>
+
+            {/* Topic Cards */}
+            <div className="p-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {regularTopics.map(topic => (
+                  <TopicCard 
+                    key={topic.id} 
+                    topic={topic} 
+                    onClick={handleTopicSelect}
+                    isActive={topic.id === selectedTopicId}
+                    isRecommended={recommendedTopicIds.includes(topic.id)}
+                    status={getTopicStatus(topic.id)}
+                    lockedReason={getLockedReason(topic.id)}
+                  />
+                ))}
             
-            {showAdvanced && advancedTopics.map(topic => (
-              <TopicCard 
-                key={topic.id} 
-                topic={topic} 
-                onClick={handleTopicSelect}
-                isActive={topic.id === selectedTopicId}
-                isRecommended={recommendedTopicIds.includes(topic.id)}
-                status={getTopicStatus(topic.id)}
-              />
-            ))}
+                {showAdvanced && advancedTopics.map(topic => (
+                  <TopicCard 
+                    key={topic.id} 
+                    topic={topic} 
+                    onClick={handleTopicSelect}
+                    isActive={topic.id === selectedTopicId}
+                    isRecommended={recommendedTopicIds.includes(topic.id)}
+                    status={getTopicStatus(topic.id)}
+                    lockedReason={getLockedReason(topic.id)}
+                  />
+                ))}
             
-            {displayedTopics.length === 0 && (
-              <div className="col-span-full py-8 text-center text-gray-500">
-                No topics found with the selected filter.
+                {displayedTopics.length === 0 && (
+                  <div className="col-span-full py-8 text-center text-gray-500">
+                    No topics found with the selected filter.
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { Topic } from '../types';
+import { topicTree } from '../data/curriculum';
+
+interface TopicOutlineProps {
+  roots: Topic[];
+  onSelectTopic: (topic: Topic) => void;
+  selectedTopicId?: string;
+  getStatusIcon: (topicId: string) => string;
+}
+
+const TopicOutline: React.FC<TopicOutlineProps> = ({
+  roots,
+  onSelectTopic,
+  selectedTopicId,
+  getStatusIcon
+}) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Keep the selected topic visible by opening every branch above it
+  useEffect(() => {
+    if (!selectedTopicId) return;
+    const ancestors = topicTree.ancestors(selectedTopicId);
+    if (ancestors.length === 0) return;
+    setExpanded(prev => new Set([...prev, ...ancestors.map(t => t.id)]));
+  }, [selectedTopicId]);
+
+  const toggle = (topicId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(topicId)) next.delete(topicId);
+      else next.add(topicId);
+      return next;
+    });
+  };
+
+  const renderNode = (topic: Topic, depth: number): React.ReactNode => {
+    const children = topicTree.children(topic.id);
+    const isOpen = expanded.has(topic.id);
+    const isActive = topic.id === selectedTopicId;
+
+    return (
+      <li key={topic.id} role="treeitem" aria-expanded={children.length > 0 ? isOpen : undefined}>
+        <div
+          className={`flex items-center gap-1 rounded-lg pr-2 transition-colors
+            ${isActive ? 'bg-blue-50 text-blue-900 font-medium' : 'hover:bg-gray-50 text-gray-700'}`}
+          style={{ paddingLeft: `${depth * 16}px` }}
+        >
+          {children.length > 0 ? (
+            <button
+              onClick={() => toggle(topic.id)}
+              className="w-6 h-6 shrink-0 flex items-center justify-center text-xs text-gray-400 hover:text-gray-600"
+              aria-label={isOpen ? `Collapse ${topic.title}` : `Expand ${topic.title}`}
+            >
+              {isOpen ? '▼' : '▶'}
+            </button>
+          ) : (
+            <span className="w-6 shrink-0" />
+          )}
+          <button
+            onClick={() => onSelectTopic(topic)}
+            className="flex-1 flex items-center gap-2 py-1.5 text-left text-sm"
+            aria-current={isActive ? 'page' : undefined}
+          >
+            <span className="text-sm">{getStatusIcon(topic.id)}</span>
+            <span className="flex-1">{topic.title}</span>
+          </button>
+        </div>
+        {children.length > 0 && isOpen && (
+          <ul role="group">{children.map(child => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <ul role="tree" aria-label="Topic outline" className="space-y-0.5">
+      {roots.map(root => renderNode(root, 0))}
+    </ul>
+  );
+};
+
+export default TopicOutline;
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { VisualAid } from '../types';
+import MarkdownRenderer from './MarkdownRenderer';
+import MermaidDiagram from './MermaidDiagram';
+
+interface VisualAidViewProps {
+  aid: VisualAid;
+}
+
+/**
+ * A lesson's main visual, drawn from its parsed form: a Mermaid diagram, or
+ * a table whose cells may hold inline math. Comparisons read across, so
+ * their first column labels each row.
+ */
+const VisualAidView: React.FC<VisualAidViewProps> = ({ aid }) => {
+  if (aid.type === 'diagram') return <MermaidDiagram spec={aid.data.spec} />;
+
+  const comparison = aid.type === 'comparison';
+  return (
+    <div className="my-6 overflow-x-auto">
+      <table className="w-full table-auto border border-gray-200 bg-white">
+        <thead className={comparison ? 'bg-purple-100' : 'bg-gray-100'}>
+          <tr>
+            {aid.data.headers.map((header, i) => (
+              <th key={i} scope="col" className="px-4 py-2 text-left font-medium">
+                <MarkdownRenderer inline>{header}</MarkdownRenderer>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {aid.data.rows.map((row, r) => (
+            <tr key={r}>
+              {row.map((cell, c) => comparison && c === 0 ? (
+                <th key={c} scope="row" className="px-4 py-2 border-t text-left font-medium bg-gray-50">
+                  <MarkdownRenderer inline>{cell}</MarkdownRenderer>
+                </th>
+              ) : (
+                <td key={c} className="px-4 py-2 border-t">
+                  <MarkdownRenderer inline>{cell}</MarkdownRenderer>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default VisualAidView;
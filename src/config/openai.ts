@@ -1,12 +0,0 @@
-import OpenAI from 'openai';
-
-const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-
-if (!apiKey) {
-  console.error('OpenAI API key is missing! Please add VITE_OPENAI_API_KEY to your .env file');
-}
-
-export const openai = new OpenAI({
-  apiKey: apiKey,
-  dangerouslyAllowBrowser: true
-});
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { parse as parseYaml } from 'yaml';
+import type { Subject, Topic } from '../../types';
+import { CurriculumIssue, Syllabus, SyllabusTopic, validateSyllabus } from './schema';
+import { findPrerequisiteCycles } from './prerequisites';
+
+/** A syllabus file as found on disk or bundled by Vite */
+export interface SyllabusSource {
+  /** File name, used for format detection and in issue reports */
+  name: string;
+  text: string;
+}
+
+export interface SyllabusInfo {
+  id: string;
+  name: string;
+  board: string;
+  version: string;
+  source: string;
+}
+
+export interface Catalog {
+  syllabi: SyllabusInfo[];
+  subjects: Subject[];
+  topics: Topic[];
+  issues: CurriculumIssue[];
+}
+
+function parseSource({ name, text }: SyllabusSource): unknown {
+  return /\.ya?ml$/i.test(name) ? parseYaml(text) : JSON.parse(text);
+}
+
+/**
+ * Build the subject/topic catalog from syllabus files.
+ *
+ * Files that fail schema validation are skipped as a whole. Integrity problems
+ * are repaired where possible: a topic id already defined elsewhere is dropped
+ * along with its subtopics, `relatedTopics` and `prerequisites` entries
+ * pointing at unknown topics are removed, and one edge of every prerequisite
+ * cycle is dropped so learning paths can be computed. Several syllabi may
+ * contribute topics to the same subject; the first file (by name) supplies its
+ * name and description.
+ */
+export function buildCatalog(sources: SyllabusSource[]): Catalog {
+  const issues: CurriculumIssue[] = [];
+  const syllabi: SyllabusInfo[] = [];
+  const subjects = new Map<string, Subject>();
+  const topics = new Map<string, Topic>();
+  const origin = new Map<string, string>();
+
+  const sorted = [...sources].sort((a, b) => a.name.localeCompare(b.name));
+  for (const source of sorted) {
+    const report = (severity: CurriculumIssue['severity'], path: string, message: string) =>
+      issues.push({ severity, source: source.name, path, message });
+
+    let raw: unknown;
+    try {
+      raw = parseSource(source);
+    } catch (err) {
+      report('error', '', `could not parse: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    const schemaIssues = validateSyllabus(raw);
+    schemaIssues.forEach(i => issues.push({ ...i, source: source.name }));
+    if (schemaIssues.some(i => i.severity === 'error')) continue;
+
+    const syllabus = raw as Syllabus;
+    if (syllabi.some(s => s.id === syllabus.id)) {
+      report('error', 'id', `syllabus "${syllabus.id}" is already defined in ${syllabi.find(s => s.id === syllabus.id)?.source}`);
+      continue;
+    }
+    syllabi.push({
+      id: syllabus.id,
+      name: syllabus.name,
+      board: syllabus.board,
+      version: syllabus.version,
+      source: source.name,
+    });
+
+    const addTopic = (node: SyllabusTopic, path: string, parentId?: string): boolean => {
+      if (topics.has(node.id)) {
+        report('error', `${path}.id`, `topic "${node.id}" is already defined in ${origin.get(node.id)}; skipped`);
+        return false;
+      }
+      topics.set(node.id, {
+        id: node.id,
+        title: node.title,
+        description: node.description,
+        keywords: node.keywords ?? [],
+        difficulty: node.difficulty,
+        ...(parentId && { parentId }),
+        relatedTopics: node.relatedTopics ?? [],
+        prerequisites: node.prerequisites ?? [],
+      });
+      origin.set(node.id, source.name);
+      node.subtopics?.forEach((child, i) => addTopic(child, `${path}.subtopics[${i}]`, node.id));
+      return true;
+    };
+
+    syllabus.subjects.forEach((s, i) => {
+      let subject = subjects.get(s.id);
+      if (!subject) {
+        subject = { id: s.id, name: s.name, description: s.description, imageUrl: s.imageUrl, rootTopics: [] };
+        subjects.set(s.id, subject);
+      } else if (subject.name !== s.name) {
+        report('warning', `subjects[${i}].name`, `subject "${s.id}" is already named "${subject.name}"; keeping that name`);
+      }
+      s.topics.forEach((t, j) => {
+        if (addTopic(t, `subjects[${i}].topics[${j}]`)) subject.rootTopics.push(t.id);
+      });
+    });
+  }
+
+  // References can only be checked once every file is loaded
+  const checkRefs = (topic: Topic, ids: string[], label: string) =>
+    ids.filter(id => {
+      if (id === topic.id) {
+        issues.push({ severity: 'warning', source: origin.get(topic.id)!, path: topic.id, message: `lists itself as ${label}` });
+        return false;
+      }
+      if (!topics.has(id)) {
+        issues.push({ severity: 'warning', source: origin.get(topic.id)!, path: topic.id, message: `${label} "${id}" does not exist` });
+        return false;
+      }
+      return true;
+    });
+  for (const topic of topics.values()) {
+    topic.relatedTopics = checkRefs(topic, topic.relatedTopics ?? [], 'related topic');
+    topic.prerequisites = checkRefs(topic, topic.prerequisites ?? [], 'prerequisite');
+  }
+
+  for (const cycle of findPrerequisiteCycles([...topics.values()])) {
+    const [from, to] = cycle.slice(-2);
+    issues.push({
+      severity: 'error',
+      source: origin.get(from)!,
+      path: from,
+      message: `prerequisite cycle ${cycle.join(' → ')}; ignoring "${to}" as a prerequisite of "${from}"`,
+    });
+    const topic = topics.get(from)!;
+    topic.prerequisites = topic.prerequisites?.filter(id => id !== to);
+  }
+
+  return {
+    syllabi,
+    subjects: [...subjects.values()],
+    topics: [...topics.values()],
+    issues,
+  };
+}
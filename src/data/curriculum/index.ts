@@ -0,0 +1,68 @@
+import type { Subject, Topic } from '../../types';
+import { buildCatalog } from './catalog';
+import { TopicTree } from './tree';
+import { PrerequisiteGraph } from './prerequisites';
+
+export type { Catalog, SyllabusInfo, SyllabusSource } from './catalog';
+export type { CurriculumIssue, Syllabus } from './schema';
+export { TopicTree } from './tree';
+export { PrerequisiteGraph } from './prerequisites';
+
+// Every file in src/data/syllabi is picked up at build time, so adding a
+// syllabus is a matter of dropping a JSON or YAML file there
+const files = import.meta.glob<string>('../syllabi/*.{json,yaml,yml}', {
+  eager: true,
+  query: '?raw',
+  import: 'default',
+});
+
+const catalog = buildCatalog(
+  Object.entries(files).map(([path, text]) => ({ name: path.split('/').pop()!, text }))
+);
+
+if (import.meta.env.DEV) {
+  catalog.issues.forEach(i => {
+    const log = i.severity === 'error' ? console.error : console.warn;
+    log(`[curriculum] ${i.source}${i.path ? ` ${i.path}` : ''}: ${i.message}`);
+  });
+}
+
+export const syllabi = catalog.syllabi;
+export const subjects: Subject[] = catalog.subjects;
+export const topics: Topic[] = catalog.topics;
+export const curriculumIssues = catalog.issues;
+export const topicTree = new TopicTree(subjects, topics);
+export const prerequisiteGraph = new PrerequisiteGraph(topics);
+
+// Get all topics for a subject, parents before their subtopics
+export const getTopicsBySubject = (subjectId: string): Topic[] => {
+  return topicTree.subjectTopics(subjectId);
+};
+
+// Get subtopics for a topic
+export const getSubtopics = (topicId: string): Topic[] => {
+  return topicTree.children(topicId);
+};
+
+// Get a topic and its ancestors, top-level topic first
+export const getTopicPath = (topicId: string): Topic[] => {
+  return topicTree.path(topicId);
+};
+
+// Get a subject by ID
+export const getSubjectById = (subjectId: string): Subject | undefined => {
+  return subjects.find(subject => subject.id === subjectId);
+};
+
+// Get a topic by ID
+export const getTopicById = (topicId: string): Topic | undefined => {
+  return topicTree.get(topicId);
+};
+
+// Get related topics
+export const getRelatedTopics = (topicId: string): Topic[] => {
+  const topic = getTopicById(topicId);
+  if (!topic || !topic.relatedTopics) return [];
+  
+  return topics.filter(t => topic.relatedTopics?.includes(t.id));
+};
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { Topic } from '../../types';
+import { findPrerequisiteCycles, PrerequisiteGraph } from './prerequisites';
+
+const topic = (id: string, prerequisites?: string[]): Topic =>
+  ({ id, title: id, description: '', keywords: [], difficulty: 'Beginner', prerequisites });
+
+// units → vectors → kinematics → dynamics, and units → dynamics directly
+const topics = [
+  topic('dynamics', ['kinematics', 'units']),
+  topic('kinematics', ['vectors']),
+  topic('vectors', ['units']),
+  topic('units'),
+];
+
+describe('findPrerequisiteCycles', () => {
+  it('finds nothing in an acyclic graph', () => {
+    expect(findPrerequisiteCycles(topics)).toEqual([]);
+  });
+
+  it('returns each cycle as the ids along it, closed on the first', () => {
+    const cyclic = [topic('a', ['b']), topic('b', ['c']), topic('c', ['a']), topic('d', ['d'])];
+    expect(findPrerequisiteCycles(cyclic)).toEqual([['a', 'b', 'c', 'a'], ['d', 'd']]);
+  });
+
+  it('ignores prerequisites that are not in the catalog', () => {
+    expect(findPrerequisiteCycles([topic('a', ['missing'])])).toEqual([]);
+  });
+});
+
+describe('PrerequisiteGraph.learningPath', () => {
+  const graph = new PrerequisiteGraph(topics);
+  const ids = (path: Topic[]) => path.map(t => t.id);
+
+  it('lists every prerequisite before the topics that need it, ending with the goal', () => {
+    expect(ids(graph.learningPath('dynamics', new Set()))).toEqual(['units', 'vectors', 'kinematics', 'dynamics']);
+  });
+
+  it('leaves out mastered topics and whatever is only reachable through them', () => {
+    expect(ids(graph.learningPath('dynamics', new Set(['kinematics'])))).toEqual(['units', 'dynamics']);
+    expect(ids(graph.learningPath('dynamics', new Set(['dynamics'])))).toEqual([]);
+  });
+
+  it('returns nothing for an unknown goal', () => {
+    expect(graph.learningPath('optics', new Set())).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import type { Topic } from '../../types';
+
+/**
+ * Find every cycle in the prerequisite graph. Each cycle is returned as the
+ * list of topic ids along it, starting and ending with the same id.
+ */
+export function findPrerequisiteCycles(topics: Topic[]): string[][] {
+  const edges = new Map(topics.map(t => [t.id, t.prerequisites ?? []]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const next of edges.get(id) ?? []) {
+      if (state.get(next) === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(next)), next]);
+      } else if (!state.has(next) && edges.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  topics.forEach(t => {
+    if (!state.has(t.id)) visit(t.id);
+  });
+  return cycles;
+}
+
+/**
+ * Prerequisite edges between topics. `prerequisites` lists the topics that
+ * should be learned first; the catalog guarantees the graph is acyclic, but
+ * traversal still guards against revisits.
+ */
+export class PrerequisiteGraph {
+  private byId = new Map<string, Topic>();
+
+  constructor(topics: Topic[]) {
+    topics.forEach(t => this.byId.set(t.id, t));
+  }
+
+  /** Direct prerequisites of a topic */
+  prerequisitesOf(topicId: string): Topic[] {
+    return (this.byId.get(topicId)?.prerequisites ?? []).flatMap(id => this.byId.get(id) ?? []);
+  }
+
+  /** Direct prerequisites not yet mastered */
+  missing(topicId: string, mastered: ReadonlySet<string>): Topic[] {
+    return this.prerequisitesOf(topicId).filter(t => !mastered.has(t.id));
+  }
+
+  isLocked(topicId: string, mastered: ReadonlySet<string>): boolean {
+    return this.missing(topicId, mastered).length > 0;
+  }
+
+  /**
+   * Topics to study, in order, to reach `goalId`: every transitive
+   * prerequisite before the topics that depend on it, ending with the goal.
+   * Mastered topics are left out, and so is everything only reachable
+   * through them.
+   */
+  learningPath(goalId: string, mastered: ReadonlySet<string>): Topic[] {
+    const path: Topic[] = [];
+    const seen = new Set<string>();
+    const visit = (id: string) => {
+      if (seen.has(id) || mastered.has(id)) return;
+      seen.add(id);
+      const topic = this.byId.get(id);
+      if (!topic) return;
+      topic.prerequisites?.forEach(visit);
+      path.push(topic);
+    };
+    visit(goalId);
+    return path;
+  }
+}
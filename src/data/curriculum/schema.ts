@@ -0,0 +1,145 @@
+import type { Topic } from '../../types';
+
+/** Bump when the syllabus file format changes incompatibly */
+export const SYLLABUS_SCHEMA_VERSION = 1;
+
+const DIFFICULTIES: Topic['difficulty'][] = ['Beginner', 'Intermediate', 'Advanced'];
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** A topic as written in a syllabus file; children nest under `subtopics` */
+export interface SyllabusTopic {
+  id: string;
+  title: string;
+  description: string;
+  keywords?: string[];
+  difficulty: Topic['difficulty'];
+  relatedTopics?: string[];
+  /** Topic ids, from any syllabus, to learn before this one */
+  prerequisites?: string[];
+  subtopics?: SyllabusTopic[];
+}
+
+export interface SyllabusSubject {
+  id: string;
+  name: string;
+  description: string;
+  imageUrl: string;
+  topics: SyllabusTopic[];
+}
+
+/** One syllabus file, e.g. `src/data/syllabi/cbse-class-12.json` */
+export interface Syllabus {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  /** Examining body or exam, e.g. CBSE, JEE, NEET, AP */
+  board: string;
+  /** Edition of the syllabus, e.g. "2024-25" */
+  version: string;
+  subjects: SyllabusSubject[];
+}
+
+export interface CurriculumIssue {
+  severity: 'error' | 'warning';
+  /** File the issue was found in */
+  source: string;
+  /** Location inside the file, e.g. `subjects[0].topics[2].id` */
+  path: string;
+  message: string;
+}
+
+type Issues = Omit<CurriculumIssue, 'source'>[];
+
+const at = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function requireString(obj: Record<string, unknown>, key: string, path: string, issues: Issues) {
+  if (typeof obj[key] !== 'string' || !(obj[key] as string).trim()) {
+    issues.push({ severity: 'error', path: at(path, key), message: 'must be a non-empty string' });
+  }
+}
+
+function requireId(obj: Record<string, unknown>, path: string, issues: Issues) {
+  requireString(obj, 'id', path, issues);
+  if (typeof obj.id === 'string' && obj.id && !ID_PATTERN.test(obj.id)) {
+    issues.push({ severity: 'error', path: at(path, 'id'), message: `"${obj.id}" must be lowercase-kebab-case` });
+  }
+}
+
+function optionalStringList(obj: Record<string, unknown>, key: string, path: string, issues: Issues) {
+  const value = obj[key];
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    issues.push({ severity: 'error', path: at(path, key), message: 'must be a list of strings' });
+  }
+}
+
+function validateTopic(raw: unknown, path: string, issues: Issues) {
+  if (!isObject(raw)) {
+    issues.push({ severity: 'error', path, message: 'must be an object' });
+    return;
+  }
+  requireId(raw, path, issues);
+  requireString(raw, 'title', path, issues);
+  requireString(raw, 'description', path, issues);
+  if (!DIFFICULTIES.includes(raw.difficulty as Topic['difficulty'])) {
+    issues.push({ severity: 'error', path: at(path, 'difficulty'), message: `must be one of ${DIFFICULTIES.join(', ')}` });
+  }
+  optionalStringList(raw, 'keywords', path, issues);
+  optionalStringList(raw, 'relatedTopics', path, issues);
+  optionalStringList(raw, 'prerequisites', path, issues);
+  if (raw.subtopics !== undefined) {
+    if (!Array.isArray(raw.subtopics)) {
+      issues.push({ severity: 'error', path: at(path, 'subtopics'), message: 'must be a list' });
+    } else {
+      raw.subtopics.forEach((t, i) => validateTopic(t, `${path}.subtopics[${i}]`, issues));
+    }
+  }
+}
+
+/**
+ * Check a parsed syllabus file against the schema. Returns every problem found
+ * rather than stopping at the first, so authors can fix a file in one pass.
+ */
+export function validateSyllabus(raw: unknown): Issues {
+  const issues: Issues = [];
+  if (!isObject(raw)) {
+    return [{ severity: 'error', path: '', message: 'syllabus must be an object' }];
+  }
+  if (raw.schemaVersion !== SYLLABUS_SCHEMA_VERSION) {
+    return [{
+      severity: 'error',
+      path: 'schemaVersion',
+      message: `expected ${SYLLABUS_SCHEMA_VERSION}, got ${JSON.stringify(raw.schemaVersion)}`,
+    }];
+  }
+  requireId(raw, '', issues);
+  requireString(raw, 'name', '', issues);
+  requireString(raw, 'board', '', issues);
+  requireString(raw, 'version', '', issues);
+
+  if (!Array.isArray(raw.subjects) || raw.subjects.length === 0) {
+    issues.push({ severity: 'error', path: 'subjects', message: 'must be a non-empty list' });
+    return issues;
+  }
+  raw.subjects.forEach((subject, i) => {
+    const path = `subjects[${i}]`;
+    if (!isObject(subject)) {
+      issues.push({ severity: 'error', path, message: 'must be an object' });
+      return;
+    }
+    requireId(subject, path, issues);
+    requireString(subject, 'name', path, issues);
+    requireString(subject, 'description', path, issues);
+    requireString(subject, 'imageUrl', path, issues);
+    if (!Array.isArray(subject.topics)) {
+      issues.push({ severity: 'error', path: at(path, 'topics'), message: 'must be a list' });
+      return;
+    }
+    subject.topics.forEach((t, j) => validateTopic(t, `${path}.topics[${j}]`, issues));
+  });
+
+  return issues;
+}
@@ -0,0 +1,86 @@
+import type { Subject, Topic } from '../../types';
+
+/**
+ * Parent/child index over the topic catalog. Topics are linked by `parentId`
+ * and subjects list their top-level topics in `rootTopics`.
+ */
+export class TopicTree {
+  private byId = new Map<string, Topic>();
+  private childIds = new Map<string, string[]>();
+  private subjectIds = new Map<string, string>();
+
+  constructor(private subjects: Subject[], topics: Topic[]) {
+    topics.forEach(t => this.byId.set(t.id, t));
+    topics.forEach(t => {
+      if (!t.parentId) return;
+      this.childIds.set(t.parentId, [...(this.childIds.get(t.parentId) ?? []), t.id]);
+    });
+    subjects.forEach(s =>
+      s.rootTopics.forEach(rootId =>
+        [rootId, ...this.descendants(rootId).map(t => t.id)].forEach(id => this.subjectIds.set(id, s.id))
+      )
+    );
+  }
+
+  get(topicId: string): Topic | undefined {
+    return this.byId.get(topicId);
+  }
+
+  /** Direct subtopics, in syllabus order */
+  children(topicId: string): Topic[] {
+    return (this.childIds.get(topicId) ?? []).map(id => this.byId.get(id)!);
+  }
+
+  /** Top-level topics of a subject */
+  roots(subjectId: string): Topic[] {
+    const subject = this.subjects.find(s => s.id === subjectId);
+    return (subject?.rootTopics ?? []).flatMap(id => this.byId.get(id) ?? []);
+  }
+
+  /** Parent, grandparent and so on, nearest first */
+  ancestors(topicId: string): Topic[] {
+    const result: Topic[] = [];
+    const seen = new Set([topicId]);
+    let parentId = this.byId.get(topicId)?.parentId;
+    while (parentId && !seen.has(parentId)) {
+      const parent = this.byId.get(parentId);
+      if (!parent) break;
+      result.push(parent);
+      seen.add(parentId);
+      parentId = parent.parentId;
+    }
+    return result;
+  }
+
+  /** Every topic below this one, depth-first in syllabus order */
+  descendants(topicId: string): Topic[] {
+    const result: Topic[] = [];
+    const walk = (id: string) =>
+      this.children(id).forEach(child => {
+        result.push(child);
+        walk(child.id);
+      });
+    walk(topicId);
+    return result;
+  }
+
+  /** 0 for a subject's top-level topics */
+  depth(topicId: string): number {
+    return this.ancestors(topicId).length;
+  }
+
+  /** The topic and its ancestors from the top down, for breadcrumbs */
+  path(topicId: string): Topic[] {
+    const topic = this.byId.get(topicId);
+    return topic ? [...this.ancestors(topicId).reverse(), topic] : [];
+  }
+
+  /** Every topic of a subject, depth-first in syllabus order */
+  subjectTopics(subjectId: string): Topic[] {
+    return this.roots(subjectId).flatMap(root => [root, ...this.descendants(root.id)]);
+  }
+
+  subjectOf(topicId: string): string | undefined {
+    return this.subjectIds.get(topicId);
+  }
+}
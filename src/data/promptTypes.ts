@@ -0,0 +1,20 @@
+import type { PromptType } from '../types';
+
+/**
+ * Prompt modes offered on a topic. Labels and descriptions come from the i18n
+ * catalog under `promptType.<id>.label` and `promptType.<id>.description`.
+ */
+export const promptTypes: { id: PromptType; icon: string }[] = [
+  { id: 'explain-simply',       icon: '🧩' },
+  { id: 'visual-guide',         icon: '🎨' },
+  { id: 'interactive-practice', icon: '🎯' },
+  { id: 'real-applications',    icon: '🌟' },
+  { id: 'deep-dive',            icon: '🔬' },
+  { id: 'exam-mastery',         icon: '📚' },
+  { id: 'concept-map',          icon: '🕸️' },
+  { id: 'common-mistakes',      icon: '⚠️' },
+];
+
+/** Whether `id`, e.g. a URL segment, names one of the prompt modes above */
+export const isKnownPromptType = (id?: string): id is PromptType =>
+  !!id && promptTypes.some(p => p.id === id);
@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { authStore } from '../services/authService';
+
+/** The auth store, re-rendering the caller when someone signs in or out */
+export function useAuth() {
+  const [, setRevision] = useState(0);
+  useEffect(() => authStore.subscribe(() => setRevision(r => r + 1)), []);
+  return authStore;
+}
@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { flashcardStore } from '../services/flashcardService';
+
+/** The flashcard store, re-rendering the caller whenever cards change */
+export function useFlashcards() {
+  const [, setRevision] = useState(0);
+  useEffect(() => flashcardStore.subscribe(() => setRevision(r => r + 1)), []);
+  return flashcardStore;
+}
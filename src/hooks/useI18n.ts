@@ -0,0 +1,11 @@
+import { useCallback } from 'react';
+import { translate, type Translate } from '../i18n';
+import { useLearnerProfile } from './useLearnerProfile';
+
+/** UI text in the learner profile's language, re-rendering when the language changes */
+export function useI18n() {
+  const { profile } = useLearnerProfile();
+  const { language } = profile;
+  const t: Translate = useCallback((key, params) => translate(language, key, params), [language]);
+  return { language, t };
+}
@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { profileStore } from '../services/profileService';
+
+/** The learner profile store, re-rendering the caller whenever the profile changes */
+export function useLearnerProfile() {
+  const [, setRevision] = useState(0);
+  useEffect(() => profileStore.subscribe(() => setRevision(r => r + 1)), []);
+  return profileStore;
+}
@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { progressStore } from '../services/progressService';
+
+/** The progress store, re-rendering the caller whenever progress changes */
+export function useProgress() {
+  const [, setRevision] = useState(0);
+  useEffect(() => progressStore.subscribe(() => setRevision(r => r + 1)), []);
+  return progressStore;
+}
@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { syncStatus } from '../services/accountSync';
+
+/** Why the latest account sync failed (null when it didn't), re-rendering the caller when that changes */
+export function useSyncStatus(): string | null {
+  const [error, setError] = useState(syncStatus.error);
+  useEffect(() => syncStatus.subscribe(() => setError(syncStatus.error)), []);
+  return error;
+}
@@ -0,0 +1,95 @@
+import type { Catalog } from './en';
+
+export const bn: Catalog = {
+  'header.profile':       'শিক্ষার্থীর প্রোফাইল',
+  'header.savedLessons':  'সংরক্ষিত পাঠ',
+  'header.history':       'ইতিহাস',
+  'header.review':        'পুনরালোচনা',
+  'header.saveSession':   'সেশন সংরক্ষণ করুন',
+  'header.signIn':        'সাইন ইন',
+  'header.signOut':       'সাইন আউট',
+  'header.teacher':       'শিক্ষক',
+  'header.syncFailed':    'সিঙ্ক হয়নি',
+  'header.retrySync':     'আবার চেষ্টা করুন',
+
+  'prompts.selectTopic':     'বিকল্পগুলি দেখতে একটি বিষয় বেছে নিন',
+  'prompts.heading':         '{topic} সম্পর্কে আপনি কী শিখতে চান?',
+  'prompts.completed':       '✅ সম্পন্ন',
+  'prompts.markComplete':    'সম্পন্ন হিসেবে চিহ্নিত করুন',
+  'prompts.learningOptions': 'শেখার বিকল্প',
+  'prompts.advancedOptions': 'উন্নত শেখার বিকল্প',
+  'prompts.showAdvanced':    'উন্নত বিকল্প দেখান',
+  'prompts.hideAdvanced':    'উন্নত বিকল্প লুকান',
+  'prompts.generating':      'আপনার জন্য বিষয়বস্তু তৈরি হচ্ছে...',
+  'prompts.stop':            'থামান',
+
+  'promptType.explain-simply.label':             'সহজ করে বোঝাও',
+  'promptType.explain-simply.description':       'দৈনন্দিন উপমা দিয়ে সহজ, ধাপে ধাপে ব্যাখ্যা',
+  'promptType.visual-guide.label':               'ছবিতে দেখাও',
+  'promptType.visual-guide.description':         'চিত্র ও দৃশ্যমান উদাহরণের মাধ্যমে শিখুন',
+  'promptType.interactive-practice.label':       'আমাকে চেষ্টা করতে দাও',
+  'promptType.interactive-practice.description': 'ধাপে ধাপে সমাধানসহ অনুশীলনী প্রশ্ন',
+  'promptType.real-applications.label':          'এটা কোথায় কাজে লাগে?',
+  'promptType.real-applications.description':    'বাস্তব জীবনের প্রয়োগ ও উদাহরণ',
+  'promptType.deep-dive.label':                  'আরও গভীরে যাও',
+  'promptType.deep-dive.description':            'উন্নত ধারণা ও তাত্ত্বিক ভিত্তি',
+  'promptType.exam-mastery.label':               'পরীক্ষার প্রস্তুতি',
+  'promptType.exam-mastery.description':         'পরীক্ষার কৌশল ও অনুশীলনী প্রশ্ন',
+  'promptType.concept-map.label':                'ধারণাগুলো জোড়ো',
+  'promptType.concept-map.description':          'অন্যান্য বিষয়ের সঙ্গে সম্পর্ক দেখানো মানচিত্র',
+  'promptType.common-mistakes.label':            'ভুল এড়াও',
+  'promptType.common-mistakes.description':      'সাধারণ ভ্রান্ত ধারণা ও সেগুলি এড়ানোর উপায়',
+
+  'lesson.showEnglish':    'ইংরেজিও দেখান',
+  'lesson.hideEnglish':    'ইংরেজি লুকান',
+  'lesson.english':        'ইংরেজি অনুবাদ',
+  'lesson.loadingEnglish': 'পাঠটি ইংরেজিতে অনুবাদ করা হচ্ছে...',
+
+  'content.empty':       'কোনো বিষয়বস্তু বাছা হয়নি',
+  'content.emptyHint':   'শিক্ষামূলক বিষয়বস্তু তৈরি করতে একটি বিষয় বেছে নিন।',
+  'content.onThisPage':  'এই পৃষ্ঠায়',
+  'content.askAbout':    'এ বিষয়ে জিজ্ঞাসা করুন',
+  'content.writing':     'লেখা হচ্ছে…',
+
+  'chat.heading':        '{topic} নিয়ে আপনার শিক্ষককে জিজ্ঞাসা করুন',
+  'chat.clear':          'চ্যাট মুছুন',
+  'chat.thinking':       'ভাবছে…',
+  'chat.askingAbout':    '{section} নিয়ে জিজ্ঞাসা করছেন:',
+  'chat.removeQuote':    'উদ্ধৃতি সরান',
+  'chat.placeholder':    'এই বিষয়ে যা খুশি জিজ্ঞাসা করুন…',
+  'chat.stop':           'থামান',
+  'chat.send':           'পাঠান',
+
+  'exam.heading':        'মক পরীক্ষা · {subject}',
+  'exam.openFile':       'প্রশ্নপত্রের ফাইল খুলুন',
+  'exam.openFileHint':   'অন্য কারও ডাউনলোড করা ঠিক সেই প্রশ্নপত্রেই পরীক্ষা দিন।',
+  'exam.noQuestions':    'এই বিষয়গুলির জন্য কোনো প্রশ্ন তৈরি করা যায়নি। পরে আবার চেষ্টা করুন।',
+  'exam.preparing':      'প্রশ্ন তৈরি হচ্ছে ({total}টির মধ্যে {done}টি বিষয়)...',
+  'exam.ready':          'আপনার প্রশ্নপত্র তৈরি',
+  'exam.summary':        '{questions}টি প্রশ্ন · {minutes} মিনিট',
+  'exam.topics':         'বিষয়: {topics}',
+  'exam.seed':           'সিড {seed} — লিঙ্কটি এই সেটিংসই আবার দেয়, তবে প্রশ্ন প্রত্যেক ছাত্রের জন্য আলাদা তৈরি হয়; অন্যদের ঠিক এই প্রশ্নগুলি দিতে প্রশ্নপত্রটি ডাউনলোড করুন',
+  'exam.shortfall':      'চাওয়া {requested}টি প্রশ্নের মধ্যে মাত্র {available}টি পাওয়া গেছে।',
+  'exam.start':          'পরীক্ষা শুরু করুন',
+  'exam.download':       'প্রশ্নপত্র ডাউনলোড করুন',
+  'exam.copyLink':       'লিঙ্ক কপি করুন',
+
+  'section.Overview':               'সংক্ষিপ্ত পরিচয়',
+  'section.Analogy':                'উপমা',
+  'section.Core Concepts':          'মূল ধারণা',
+  'section.Formula & Derivation':   'সূত্র ও প্রতিপাদন',
+  'section.Examples':               'উদাহরণ',
+  'section.Takeaways':              'মূল কথা',
+  'section.Key Rules':              'মূল নিয়ম',
+  'section.Theorem & Proof':        'উপপাদ্য ও প্রমাণ',
+  'section.Reactions & Mechanisms': 'বিক্রিয়া ও কৌশল',
+  'section.Process':                'প্রক্রিয়া',
+  'section.Context':                'প্রেক্ষাপট',
+  'section.Close Reading':          'নিবিড় পাঠ',
+  'section.Code':                   'কোড',
+  'section.Complexity':             'জটিলতা',
+  'section.Visual Summary':         'এক নজরে',
+  'section.Diagram':                'চিত্র',
+  'section.Comparison':             'তুলনা',
+  'section.Key Notes':              'মূল টীকা',
+};
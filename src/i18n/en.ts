@@ -0,0 +1,98 @@
+/** English UI text; its keys define the catalog every other language translates */
+export const en = {
+  'header.profile':       'Learner profile',
+  'header.savedLessons':  'Saved Lessons',
+  'header.history':       'History',
+  'header.review':        'Review',
+  'header.saveSession':   'Save Session',
+  'header.signIn':        'Sign In',
+  'header.signOut':       'Sign Out',
+  'header.teacher':       'Teacher',
+  'header.syncFailed':    'Not synced',
+  'header.retrySync':     'Retry',
+
+  'prompts.selectTopic':     'Select a topic to see prompt options',
+  'prompts.heading':         'What would you like to learn about {topic}?',
+  'prompts.completed':       '✅ Completed',
+  'prompts.markComplete':    'Mark as complete',
+  'prompts.learningOptions': 'Learning options',
+  'prompts.advancedOptions': 'Advanced learning options',
+  'prompts.showAdvanced':    'Show Advanced Options',
+  'prompts.hideAdvanced':    'Hide Advanced Options',
+  'prompts.generating':      'Generating personalized content...',
+  'prompts.stop':            'Stop',
+
+  'promptType.explain-simply.label':             'Break it down for me',
+  'promptType.explain-simply.description':       'Simple, step-by-step explanation with real-life analogies',
+  'promptType.visual-guide.label':               'Show me visually',
+  'promptType.visual-guide.description':         'Learn through diagrams, animations, and visual examples',
+  'promptType.interactive-practice.label':       'Let me try it',
+  'promptType.interactive-practice.description': 'Interactive problems with step-by-step solutions',
+  'promptType.real-applications.label':          'Where is this used?',
+  'promptType.real-applications.description':    'Real-world applications and case studies',
+  'promptType.deep-dive.label':                  'Go deeper',
+  'promptType.deep-dive.description':            'Advanced concepts and theoretical foundations',
+  'promptType.exam-mastery.label':               'Master for exams',
+  'promptType.exam-mastery.description':         'Exam-specific strategies and practice questions',
+  'promptType.concept-map.label':                'Connect concepts',
+  'promptType.concept-map.description':          'Visual map showing relationships with other topics',
+  'promptType.common-mistakes.label':            'Avoid mistakes',
+  'promptType.common-mistakes.description':      'Common misconceptions and how to avoid them',
+
+  'lesson.showEnglish':    'Show English',
+  'lesson.hideEnglish':    'Hide English',
+  'lesson.english':        'English translation',
+  'lesson.loadingEnglish': 'Translating the lesson into English...',
+
+  'content.empty':       'No content selected',
+  'content.emptyHint':   'Select a topic to generate educational content.',
+  'content.onThisPage':  'On this page',
+  'content.askAbout':    'Ask about this',
+  'content.writing':     'Writing…',
+
+  'chat.heading':        'Ask your tutor about {topic}',
+  'chat.clear':          'Clear chat',
+  'chat.thinking':       'Thinking…',
+  'chat.askingAbout':    'Asking about {section}:',
+  'chat.removeQuote':    'Remove quote',
+  'chat.placeholder':    'Ask anything about this topic…',
+  'chat.stop':           'Stop',
+  'chat.send':           'Send',
+
+  'exam.heading':        'Mock exam · {subject}',
+  'exam.openFile':       'Open a paper file',
+  'exam.openFileHint':   'Sit exactly the paper someone else downloaded.',
+  'exam.noQuestions':    'No questions could be generated for these topics. Try again later.',
+  'exam.preparing':      'Preparing questions ({done} of {total} topics)...',
+  'exam.ready':          'Your paper is ready',
+  'exam.summary':        '{questions} questions · {minutes} minutes',
+  'exam.topics':         'Topics: {topics}',
+  'exam.seed':           'Seed {seed} — the link repeats these settings, but questions are generated for each student; download the paper to give others exactly these questions',
+  'exam.shortfall':      'Only {available} of the {requested} questions asked for were available.',
+  'exam.start':          'Start exam',
+  'exam.download':       'Download paper',
+  'exam.copyLink':       'Copy link',
+
+  // Lessons keep their outline headings in English; these are how they are shown
+  'section.Overview':               'Overview',
+  'section.Analogy':                'Analogy',
+  'section.Core Concepts':          'Core Concepts',
+  'section.Formula & Derivation':   'Formula & Derivation',
+  'section.Examples':               'Examples',
+  'section.Takeaways':              'Takeaways',
+  'section.Key Rules':              'Key Rules',
+  'section.Theorem & Proof':        'Theorem & Proof',
+  'section.Reactions & Mechanisms': 'Reactions & Mechanisms',
+  'section.Process':                'Process',
+  'section.Context':                'Context',
+  'section.Close Reading':          'Close Reading',
+  'section.Code':                   'Code',
+  'section.Complexity':             'Complexity',
+  'section.Visual Summary':         'Visual Summary',
+  'section.Diagram':                'Diagram',
+  'section.Comparison':             'Comparison',
+  'section.Key Notes':              'Key Notes',
+};
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Partial<Record<MessageKey, string>>;
@@ -0,0 +1,95 @@
+import type { Catalog } from './en';
+
+export const hi: Catalog = {
+  'header.profile':       'शिक्षार्थी प्रोफ़ाइल',
+  'header.savedLessons':  'सहेजे गए पाठ',
+  'header.history':       'इतिहास',
+  'header.review':        'दोहराएँ',
+  'header.saveSession':   'सत्र सहेजें',
+  'header.signIn':        'साइन इन',
+  'header.signOut':       'साइन आउट',
+  'header.teacher':       'शिक्षक',
+  'header.syncFailed':    'सिंक नहीं हुआ',
+  'header.retrySync':     'फिर कोशिश करें',
+
+  'prompts.selectTopic':     'विकल्प देखने के लिए कोई विषय चुनें',
+  'prompts.heading':         'आप {topic} के बारे में क्या सीखना चाहेंगे?',
+  'prompts.completed':       '✅ पूरा हुआ',
+  'prompts.markComplete':    'पूरा हुआ चिह्नित करें',
+  'prompts.learningOptions': 'सीखने के विकल्प',
+  'prompts.advancedOptions': 'उन्नत सीखने के विकल्प',
+  'prompts.showAdvanced':    'उन्नत विकल्प दिखाएँ',
+  'prompts.hideAdvanced':    'उन्नत विकल्प छिपाएँ',
+  'prompts.generating':      'आपके लिए सामग्री तैयार हो रही है...',
+  'prompts.stop':            'रोकें',
+
+  'promptType.explain-simply.label':             'मुझे आसान करके समझाओ',
+  'promptType.explain-simply.description':       'रोज़मर्रा की उपमाओं के साथ सरल, चरण-दर-चरण व्याख्या',
+  'promptType.visual-guide.label':               'मुझे चित्रों से दिखाओ',
+  'promptType.visual-guide.description':         'आरेखों और दृश्य उदाहरणों से सीखें',
+  'promptType.interactive-practice.label':       'मुझे हल करने दो',
+  'promptType.interactive-practice.description': 'चरण-दर-चरण हल के साथ अभ्यास प्रश्न',
+  'promptType.real-applications.label':          'यह कहाँ काम आता है?',
+  'promptType.real-applications.description':    'वास्तविक दुनिया में उपयोग और उदाहरण',
+  'promptType.deep-dive.label':                  'और गहराई में जाओ',
+  'promptType.deep-dive.description':            'उन्नत अवधारणाएँ और सैद्धांतिक आधार',
+  'promptType.exam-mastery.label':               'परीक्षा की तैयारी',
+  'promptType.exam-mastery.description':         'परीक्षा की रणनीतियाँ और अभ्यास प्रश्न',
+  'promptType.concept-map.label':                'अवधारणाएँ जोड़ो',
+  'promptType.concept-map.description':          'अन्य विषयों से संबंध दिखाने वाला मानचित्र',
+  'promptType.common-mistakes.label':            'गलतियों से बचो',
+  'promptType.common-mistakes.description':      'आम भ्रांतियाँ और उनसे कैसे बचें',
+
+  'lesson.showEnglish':    'अंग्रेज़ी भी दिखाएँ',
+  'lesson.hideEnglish':    'अंग्रेज़ी छिपाएँ',
+  'lesson.english':        'अंग्रेज़ी अनुवाद',
+  'lesson.loadingEnglish': 'पाठ का अंग्रेज़ी में अनुवाद हो रहा है...',
+
+  'content.empty':       'कोई सामग्री नहीं चुनी गई',
+  'content.emptyHint':   'शैक्षिक सामग्री बनाने के लिए कोई विषय चुनें।',
+  'content.onThisPage':  'इस पृष्ठ पर',
+  'content.askAbout':    'इसके बारे में पूछें',
+  'content.writing':     'लिखा जा रहा है…',
+
+  'chat.heading':        '{topic} के बारे में अपने शिक्षक से पूछें',
+  'chat.clear':          'चैट मिटाएँ',
+  'chat.thinking':       'सोच रहे हैं…',
+  'chat.askingAbout':    '{section} के बारे में पूछ रहे हैं:',
+  'chat.removeQuote':    'उद्धरण हटाएँ',
+  'chat.placeholder':    'इस विषय के बारे में कुछ भी पूछें…',
+  'chat.stop':           'रोकें',
+  'chat.send':           'भेजें',
+
+  'exam.heading':        'मॉक परीक्षा · {subject}',
+  'exam.openFile':       'प्रश्नपत्र फ़ाइल खोलें',
+  'exam.openFileHint':   'किसी और का डाउनलोड किया हुआ वही प्रश्नपत्र हल करें।',
+  'exam.noQuestions':    'इन विषयों के लिए कोई प्रश्न नहीं बन सका। बाद में फिर कोशिश करें।',
+  'exam.preparing':      'प्रश्न तैयार हो रहे हैं ({total} में से {done} विषय)...',
+  'exam.ready':          'आपका प्रश्नपत्र तैयार है',
+  'exam.summary':        '{questions} प्रश्न · {minutes} मिनट',
+  'exam.topics':         'विषय: {topics}',
+  'exam.seed':           'सीड {seed} — लिंक यही सेटिंग दोहराता है, पर प्रश्न हर छात्र के लिए अलग बनते हैं; दूसरों को ठीक यही प्रश्न देने के लिए प्रश्नपत्र डाउनलोड करें',
+  'exam.shortfall':      'माँगे गए {requested} प्रश्नों में से केवल {available} उपलब्ध थे।',
+  'exam.start':          'परीक्षा शुरू करें',
+  'exam.download':       'प्रश्नपत्र डाउनलोड करें',
+  'exam.copyLink':       'लिंक कॉपी करें',
+
+  'section.Overview':               'परिचय',
+  'section.Analogy':                'उपमा',
+  'section.Core Concepts':          'मुख्य अवधारणाएँ',
+  'section.Formula & Derivation':   'सूत्र और व्युत्पत्ति',
+  'section.Examples':               'उदाहरण',
+  'section.Takeaways':              'मुख्य बातें',
+  'section.Key Rules':              'मुख्य नियम',
+  'section.Theorem & Proof':        'प्रमेय और प्रमाण',
+  'section.Reactions & Mechanisms': 'अभिक्रियाएँ और क्रियाविधि',
+  'section.Process':                'प्रक्रिया',
+  'section.Context':                'संदर्भ',
+  'section.Close Reading':          'सूक्ष्म पठन',
+  'section.Code':                   'कोड',
+  'section.Complexity':             'जटिलता',
+  'section.Visual Summary':         'एक नज़र में',
+  'section.Diagram':                'आरेख',
+  'section.Comparison':             'तुलना',
+  'section.Key Notes':              'मुख्य टिप्पणियाँ',
+};
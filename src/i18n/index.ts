@@ -0,0 +1,29 @@
+import type { LanguageCode } from '../types';
+import { bn } from './bn';
+import { en, type Catalog, type MessageKey } from './en';
+import { hi } from './hi';
+import { ta } from './ta';
+
+export type { MessageKey };
+
+const catalogs: Record<LanguageCode, Catalog> = { en, hi, ta, bn };
+
+export type Translate = (key: MessageKey, params?: Record<string, string>) => string;
+
+/** Whether a key exists, e.g. for section headings that may be outside the catalog */
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+/**
+ * UI text in the given language, falling back to English for anything not
+ * yet translated. `{name}` placeholders are filled from `params`.
+ */
+export function translate(language: LanguageCode, key: MessageKey, params: Record<string, string> = {}): string {
+  const text = catalogs[language][key] ?? en[key];
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => params[name] ?? match);
+}
+
+/** Button label of a prompt type; types without a button (follow-ups, flashcards…) show their id */
+export function promptTypeLabel(language: LanguageCode, type: string): string {
+  const key = `promptType.${type}.label`;
+  return isMessageKey(key) ? translate(language, key) : type;
+}
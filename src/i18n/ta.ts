@@ -0,0 +1,95 @@
+import type { Catalog } from './en';
+
+export const ta: Catalog = {
+  'header.profile':       'கற்பவர் சுயவிவரம்',
+  'header.savedLessons':  'சேமித்த பாடங்கள்',
+  'header.history':       'வரலாறு',
+  'header.review':        'மீள்பார்வை',
+  'header.saveSession':   'அமர்வைச் சேமி',
+  'header.signIn':        'உள்நுழை',
+  'header.signOut':       'வெளியேறு',
+  'header.teacher':       'ஆசிரியர்',
+  'header.syncFailed':    'ஒத்திசைக்கப்படவில்லை',
+  'header.retrySync':     'மீண்டும் முயல்',
+
+  'prompts.selectTopic':     'விருப்பங்களைக் காண ஒரு தலைப்பைத் தேர்ந்தெடுக்கவும்',
+  'prompts.heading':         '{topic} பற்றி நீங்கள் என்ன கற்க விரும்புகிறீர்கள்?',
+  'prompts.completed':       '✅ முடிந்தது',
+  'prompts.markComplete':    'முடிந்ததாகக் குறி',
+  'prompts.learningOptions': 'கற்றல் விருப்பங்கள்',
+  'prompts.advancedOptions': 'மேம்பட்ட கற்றல் விருப்பங்கள்',
+  'prompts.showAdvanced':    'மேம்பட்ட விருப்பங்களைக் காட்டு',
+  'prompts.hideAdvanced':    'மேம்பட்ட விருப்பங்களை மறை',
+  'prompts.generating':      'உங்களுக்கான உள்ளடக்கம் தயாராகிறது...',
+  'prompts.stop':            'நிறுத்து',
+
+  'promptType.explain-simply.label':             'எளிமையாக விளக்கு',
+  'promptType.explain-simply.description':       'அன்றாட உவமைகளுடன் எளிய, படிப்படியான விளக்கம்',
+  'promptType.visual-guide.label':               'படங்களால் காட்டு',
+  'promptType.visual-guide.description':         'வரைபடங்கள் மற்றும் காட்சி எடுத்துக்காட்டுகள் மூலம் கற்றல்',
+  'promptType.interactive-practice.label':       'நான் முயற்சிக்கிறேன்',
+  'promptType.interactive-practice.description': 'படிப்படியான தீர்வுகளுடன் பயிற்சிக் கேள்விகள்',
+  'promptType.real-applications.label':          'இது எங்கே பயன்படுகிறது?',
+  'promptType.real-applications.description':    'நிஜ உலகப் பயன்பாடுகள் மற்றும் எடுத்துக்காட்டுகள்',
+  'promptType.deep-dive.label':                  'ஆழமாகச் செல்',
+  'promptType.deep-dive.description':            'மேம்பட்ட கருத்துகள் மற்றும் கோட்பாட்டு அடிப்படைகள்',
+  'promptType.exam-mastery.label':               'தேர்வுக்குத் தயாராகு',
+  'promptType.exam-mastery.description':         'தேர்வு உத்திகள் மற்றும் பயிற்சிக் கேள்விகள்',
+  'promptType.concept-map.label':                'கருத்துகளை இணை',
+  'promptType.concept-map.description':          'பிற தலைப்புகளுடனான தொடர்புகளைக் காட்டும் வரைபடம்',
+  'promptType.common-mistakes.label':            'தவறுகளைத் தவிர்',
+  'promptType.common-mistakes.description':      'பொதுவான தவறான புரிதல்களும் அவற்றைத் தவிர்க்கும் வழிகளும்',
+
+  'lesson.showEnglish':    'ஆங்கிலத்தையும் காட்டு',
+  'lesson.hideEnglish':    'ஆங்கிலத்தை மறை',
+  'lesson.english':        'ஆங்கில மொழிபெயர்ப்பு',
+  'lesson.loadingEnglish': 'பாடம் ஆங்கிலத்தில் மொழிபெயர்க்கப்படுகிறது...',
+
+  'content.empty':       'எந்த உள்ளடக்கமும் தேர்ந்தெடுக்கப்படவில்லை',
+  'content.emptyHint':   'கற்றல் உள்ளடக்கத்தை உருவாக்க ஒரு தலைப்பைத் தேர்ந்தெடுக்கவும்.',
+  'content.onThisPage':  'இந்தப் பக்கத்தில்',
+  'content.askAbout':    'இதைப் பற்றிக் கேள்',
+  'content.writing':     'எழுதப்படுகிறது…',
+
+  'chat.heading':        '{topic} பற்றி உங்கள் ஆசிரியரிடம் கேளுங்கள்',
+  'chat.clear':          'உரையாடலை அழி',
+  'chat.thinking':       'யோசிக்கிறது…',
+  'chat.askingAbout':    '{section} பற்றிக் கேட்கிறீர்கள்:',
+  'chat.removeQuote':    'மேற்கோளை நீக்கு',
+  'chat.placeholder':    'இந்தத் தலைப்பைப் பற்றி எதையும் கேளுங்கள்…',
+  'chat.stop':           'நிறுத்து',
+  'chat.send':           'அனுப்பு',
+
+  'exam.heading':        'மாதிரித் தேர்வு · {subject}',
+  'exam.openFile':       'வினாத்தாள் கோப்பைத் திற',
+  'exam.openFileHint':   'வேறொருவர் பதிவிறக்கிய அதே வினாத்தாளை எழுதுங்கள்.',
+  'exam.noQuestions':    'இந்தத் தலைப்புகளுக்கு வினாக்களை உருவாக்க முடியவில்லை. பின்னர் மீண்டும் முயலுங்கள்.',
+  'exam.preparing':      'வினாக்கள் தயாராகின்றன ({total} தலைப்புகளில் {done})...',
+  'exam.ready':          'உங்கள் வினாத்தாள் தயார்',
+  'exam.summary':        '{questions} வினாக்கள் · {minutes} நிமிடங்கள்',
+  'exam.topics':         'தலைப்புகள்: {topics}',
+  'exam.seed':           'விதை {seed} — இணைப்பு இதே அமைப்புகளைத் தரும், ஆனால் வினாக்கள் ஒவ்வொரு மாணவருக்கும் தனியே உருவாகும்; மற்றவர்களுக்கு இதே வினாக்களைத் தர வினாத்தாளைப் பதிவிறக்குங்கள்',
+  'exam.shortfall':      'கேட்ட {requested} வினாக்களில் {available} மட்டுமே கிடைத்தன.',
+  'exam.start':          'தேர்வைத் தொடங்கு',
+  'exam.download':       'வினாத்தாளைப் பதிவிறக்கு',
+  'exam.copyLink':       'இணைப்பை நகலெடு',
+
+  'section.Overview':               'கண்ணோட்டம்',
+  'section.Analogy':                'உவமை',
+  'section.Core Concepts':          'முக்கியக் கருத்துகள்',
+  'section.Formula & Derivation':   'சூத்திரமும் வருவித்தலும்',
+  'section.Examples':               'எடுத்துக்காட்டுகள்',
+  'section.Takeaways':              'முக்கியக் குறிப்புகள்',
+  'section.Key Rules':              'முக்கிய விதிகள்',
+  'section.Theorem & Proof':        'தேற்றமும் நிரூபணமும்',
+  'section.Reactions & Mechanisms': 'வினைகளும் வினைவழிமுறைகளும்',
+  'section.Process':                'செயல்முறை',
+  'section.Context':                'பின்னணி',
+  'section.Close Reading':          'நுணுக்கமான வாசிப்பு',
+  'section.Code':                   'நிரல்',
+  'section.Complexity':             'சிக்கலளவு',
+  'section.Visual Summary':         'ஒரு பார்வையில்',
+  'section.Diagram':                'வரைபடம்',
+  'section.Comparison':             'ஒப்பீடு',
+  'section.Key Notes':              'முக்கியக் குறிப்புகள்',
+};
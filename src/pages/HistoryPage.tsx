@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { SessionLesson, UserSession } from '../types';
+import Header from '../components/Header';
+import ContentSection from '../components/ContentSection';
+import ConceptMapView from '../components/ConceptMapView';
+import LoadingIndicator from '../components/LoadingIndicator';
+import PracticeSession from '../components/PracticeSession';
+import { historyStore } from '../services/historyService';
+import { isPracticeType, parsePracticeSet } from '../services/practice';
+import { mergeCurriculum, parseConceptMap } from '../services/conceptMap';
+import { extractVisualAid } from '../services/visualAids';
+import { progressStore } from '../services/progressService';
+import { downloadSessionFile, exportSession } from '../services/sessionFile';
+import { getRelatedTopics, getTopicById, getTopicsBySubject, topics, topicTree } from '../data/curriculum';
+import { promptTypeLabel } from '../i18n';
+import { profileStore } from '../services/profileService';
+import { historyLessonPath, historyPath, topicPath } from '../routes';
+
+interface SessionWithLessons {
+  session: UserSession;
+  lessons: SessionLesson[];
+}
+
+const promptLabel = (lesson: SessionLesson) =>
+  lesson.question ? 'Follow-up' : promptTypeLabel(profileStore.profile.language, lesson.promptType);
+
+const topicTitle = (topicId: string) => getTopicById(topicId)?.title ?? topicId;
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${Math.max(1, minutes)} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+/** A stored practice set, answerable again; results still count towards progress */
+const StoredPractice: React.FC<{ lesson: SessionLesson }> = ({ lesson }) => {
+  const practiceSet = useMemo(() => {
+    try {
+      return parsePracticeSet(lesson.content);
+    } catch {
+      return null;
+    }
+  }, [lesson.content]);
+
+  if (!practiceSet) {
+    return <p className="bg-white rounded-lg p-6 shadow-sm text-gray-600">These practice questions could not be read.</p>;
+  }
+  return (
+    <PracticeSession
+      practiceSet={practiceSet}
+      onAnswered={(question, correct) =>
+        progressStore.recordPractice(lesson.topicId, [{ correct, difficulty: question.difficulty }])
+      }
+    />
+  );
+};
+
+/** A stored concept map, linked to today's curriculum */
+const StoredConceptMap: React.FC<{ lesson: SessionLesson }> = ({ lesson }) => {
+  const navigate = useNavigate();
+  const map = useMemo(() => {
+    const topic = getTopicById(lesson.topicId);
+    try {
+      const parsed = parseConceptMap(lesson.content);
+      if (!topic) return parsed;
+      const candidates = [...getTopicsBySubject(lesson.subjectId), ...topics];
+      return mergeCurriculum(parsed, topic, getRelatedTopics(topic.id), candidates);
+    } catch {
+      return null;
+    }
+  }, [lesson]);
+
+  // Concept maps saved before they became graphs are Markdown
+  if (!map) {
+    return <ContentSection content={{ title: lesson.title, content: lesson.content }} isLoading={false} />;
+  }
+  return (
+    <ConceptMapView
+      map={map}
+      onSelectTopic={id => navigate(topicPath(topicTree.subjectOf(id) ?? lesson.subjectId, id))}
+    />
+  );
+};
+
+/** A stored lesson, shown exactly as it was generated */
+const LessonView: React.FC<{ lessonId: string }> = ({ lessonId }) => {
+  const [lesson, setLesson] = useState<SessionLesson | null | undefined>(undefined);
+
+  useEffect(() => {
+    historyStore.getLesson(lessonId).then(setLesson).catch(() => setLesson(null));
+  }, [lessonId]);
+
+  if (lesson === undefined) return <LoadingIndicator message="Opening lesson..." />;
+  if (lesson === null) {
+    return (
+      <div className="bg-white rounded-lg p-6 shadow-sm text-gray-600">
+        This lesson is no longer in your history. <Link to={historyPath()} className="text-blue-600 hover:underline">Back to history</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <Link to={historyPath()} className="text-blue-600 hover:underline">← Back to history</Link>
+        <span className="text-gray-500">
+          {promptLabel(lesson)} · {new Date(lesson.createdAt).toLocaleString()}
+        </span>
+        <Link
+          to={topicPath(lesson.subjectId, lesson.topicId)}
+          className="text-blue-600 hover:underline"
+        >
+          Continue with {topicTitle(lesson.topicId)} →
+        </Link>
+      </div>
+      {isPracticeType(lesson.promptType) && !lesson.question ? (
+        <StoredPractice lesson={lesson} />
+      ) : lesson.promptType === 'concept-map' && !lesson.question ? (
+        <StoredConceptMap lesson={lesson} />
+      ) : (
+        <ContentSection
+          content={{
+            title: lesson.question ?? lesson.title,
+            content: lesson.content,
+            visualAid: lesson.promptType === 'visual-guide' && !lesson.question ? extractVisualAid(lesson.content) : undefined,
+          }}
+          isLoading={false}
+        />
+      )}
+    </div>
+  );
+};
+
+const SessionList: React.FC = () => {
+  const [history, setHistory] = useState<SessionWithLessons[] | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const sessions = await historyStore.sessions();
+      setHistory(await Promise.all(
+        sessions.map(async session => ({ session, lessons: await historyStore.lessons(session.id) }))
+      ));
+    };
+    load().catch(() => setHistory([]));
+    return historyStore.subscribe(() => load().catch(() => {}));
+  }, []);
+
+  if (history === null) return <LoadingIndicator message="Loading history..." />;
+
+  if (history.length === 0) {
+    return (
+      <p className="py-8 text-center text-gray-500">
+        Your study sessions will appear here once you open a topic.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button
+          onClick={() => historyStore.clear()}
+          className="text-sm text-red-600 hover:text-red-700"
+        >
+          Clear history
+        </button>
+      </div>
+
+      {history.map(({ session, lessons }) => (
+        <section key={session.id} className="bg-white rounded-lg p-4 shadow-sm">
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <div>
+              <h3 className="font-medium text-gray-800">
+                {new Date(session.startedAt).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}
+                <span className="text-gray-500 font-normal">
+                  {' '}· {formatTime(session.startedAt)} · {formatDuration(session.updatedAt - session.startedAt)}
+                </span>
+              </h3>
+              <p className="text-sm text-gray-500">
+                {session.viewedTopics.map(topicTitle).join(', ')}
+              </p>
+            </div>
+            <div className="shrink-0 space-x-3 text-sm">
+              <button
+                onClick={() => exportSession(session.id).then(downloadSessionFile)}
+                className="text-gray-400 hover:text-blue-600"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => historyStore.deleteSession(session.id)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Delete session"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+
+          {lessons.length === 0 ? (
+            <p className="text-sm text-gray-400">No lessons generated in this session.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {lessons.map(lesson => (
+                <li key={lesson.id}>
+                  <Link
+                    to={historyLessonPath(lesson.id)}
+                    className="flex items-center justify-between gap-4 py-2 text-sm hover:bg-gray-50 rounded px-2 -mx-2"
+                  >
+                    <span className="text-gray-800">
+                      {topicTitle(lesson.topicId)}
+                      {lesson.question && (
+                        <span className="block text-xs text-gray-500">{lesson.question}</span>
+                      )}
+                    </span>
+                    <span className="shrink-0 text-gray-500">
+                      {promptLabel(lesson)} · {formatTime(lesson.createdAt)}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+};
+
+const HistoryPage: React.FC = () => {
+  const { lessonId } = useParams<{ lessonId?: string }>();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <Header />
+      <div className="container mx-auto p-4 md:p-6 max-w-4xl">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">History</h2>
+        {lessonId ? <LessonView lessonId={lessonId} /> : <SessionList />}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPage;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Subject } from '../types';
-import { subjects } from '../data/mockData';
+import { subjects } from '../data/curriculum';
 import SubjectGrid from '../components/SubjectGrid';
 import Header from '../components/Header';
 
@@ -11,7 +11,7 @@ interface HomePageProps {
 const HomePage: React.FC<HomePageProps> = ({ onSelectSubject }) => {
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
-      <Header onBackToSubjects={() => {}} />
+      <Header />
       
       <div className="flex-1">
         <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white py-16 px-6">
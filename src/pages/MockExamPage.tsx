@@ -0,0 +1,303 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { PracticeAnswer, PracticeSet, Subject } from '../types';
+import Header from '../components/Header';
+import ExamBuilder from '../components/ExamBuilder';
+import ExamPaperView from '../components/ExamPaperView';
+import ExamReportView from '../components/ExamReportView';
+import LoadingIndicator from '../components/LoadingIndicator';
+import { contentService } from '../services/aiService';
+import { parsePracticeSet } from '../services/practice';
+import {
+  buildPaper,
+  configFromSearch,
+  configToSearch,
+  ExamPaper,
+  paperFile,
+  PaperFile,
+  parsePaperFile,
+  scorePaper,
+  SECTIONS
+} from '../services/mockExam';
+import { progressStore } from '../services/progressService';
+import { useI18n } from '../hooks/useI18n';
+import type { PracticeResult } from '../services/learnerModel';
+import { getTopicById } from '../data/curriculum';
+import { examPath } from '../routes';
+
+const ATTEMPT_KEY = 'mockExam.attempt';
+const POOLS_KEY = 'mockExam.pools';
+
+/** The paper being sat, kept across reloads; `paper` is the query string it was built from */
+interface Attempt {
+  paper: string;
+  startedAt: number;
+  answers: Record<string, PracticeAnswer>;
+  submittedAt?: number;
+}
+
+const loadAttempt = (search: string): Attempt | null => {
+  try {
+    const attempt = JSON.parse(localStorage.getItem(ATTEMPT_KEY) ?? 'null') as Attempt | null;
+    return attempt?.paper === search ? attempt : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveAttempt = (attempt: Attempt | null) => {
+  if (attempt) localStorage.setItem(ATTEMPT_KEY, JSON.stringify(attempt));
+  else localStorage.removeItem(ATTEMPT_KEY);
+};
+
+/**
+ * The question banks the latest paper was drawn from, so reloading it (or
+ * opening it from a file) gives the same questions however the caches change
+ */
+interface SavedPools {
+  paper: string;
+  pools: Record<string, PracticeSet>;
+}
+
+const loadSavedPools = (search: string): Record<string, PracticeSet> | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(POOLS_KEY) ?? 'null') as SavedPools | null;
+    return saved?.paper === search ? saved.pools : null;
+  } catch {
+    return null;
+  }
+};
+
+const savePools = (search: string, pools: Record<string, PracticeSet>) => {
+  try {
+    localStorage.setItem(POOLS_KEY, JSON.stringify({ paper: search, pools } satisfies SavedPools));
+  } catch (err) {
+    console.warn('Could not keep the question banks for this paper:', err);
+  }
+};
+
+/** Save a paper file through the browser's download prompt */
+function downloadPaperFile(file: PaperFile) {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `free-ed-exam-${file.config.subjectId}-${file.config.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Fetch (or reuse from cache) each topic's question bank */
+async function loadPools(subjectId: string, topicIds: string[], onProgress: (done: number) => void) {
+  const pools: Record<string, PracticeSet> = {};
+  let done = 0;
+  for (const topicId of topicIds) {
+    const topic = getTopicById(topicId);
+    if (topic) {
+      try {
+        const text = await contentService.generate(topic.title, 'question-bank', { context: { subject: subjectId } });
+        pools[topicId] = parsePracticeSet(text);
+      } catch (err) {
+        console.warn(`No questions for ${topicId}:`, err);
+      }
+    }
+    onProgress(++done);
+  }
+  return pools;
+}
+
+const MockExamPage: React.FC<{ subject: Subject }> = ({ subject }) => {
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const { t } = useI18n();
+  const config = useMemo(() => configFromSearch(subject.id, new URLSearchParams(search)), [subject.id, search]);
+
+  const [paper, setPaper] = useState<ExamPaper | null>(null);
+  const [pools, setPools] = useState<Record<string, PracticeSet>>({});
+  const [loaded, setLoaded] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState<Attempt | null>(() => loadAttempt(search));
+
+  useEffect(() => {
+    setPaper(null);
+    setError(null);
+    setLoaded(0);
+    setAttempt(loadAttempt(search));
+    if (!config) return;
+
+    let cancelled = false;
+    const saved = loadSavedPools(search);
+    (saved ? Promise.resolve(saved) : loadPools(config.subjectId, config.topicIds, done => !cancelled && setLoaded(done)))
+      .then(pools => {
+        if (cancelled) return;
+        const built = buildPaper(config, pools);
+        // An empty paper is reported when rendering; its banks aren't worth keeping
+        if (built.questions.length > 0) {
+          savePools(search, pools);
+          setPools(pools);
+        }
+        setPaper(built);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [config, search]);
+
+  const updateAttempt = useCallback((next: Attempt | null) => {
+    saveAttempt(next);
+    setAttempt(next);
+  }, []);
+
+  const report = useMemo(
+    () => (paper && attempt?.submittedAt ? scorePaper(paper, attempt.answers) : null),
+    [paper, attempt]
+  );
+
+  const submit = useCallback(() => {
+    if (!paper || !attempt || attempt.submittedAt) return;
+    updateAttempt({ ...attempt, submittedAt: Date.now() });
+    // Every attempted question counts as practice on its topic; partial credit is not a right answer
+    const { marks } = scorePaper(paper, attempt.answers);
+    const results = new Map<string, PracticeResult[]>();
+    for (const q of paper.questions) {
+      const { outcome } = marks[q.examId];
+      if (outcome === 'unanswered') continue;
+      results.set(q.topicId, [...(results.get(q.topicId) ?? []), { correct: outcome === 'correct', difficulty: q.difficulty }]);
+    }
+    results.forEach((topicResults, topicId) => progressStore.recordPractice(topicId, topicResults));
+  }, [paper, attempt, updateAttempt]);
+
+  const openPaperFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const opened = parsePaperFile(await file.text());
+      const paperSearch = configToSearch(opened.config);
+      savePools(paperSearch, opened.pools);
+      navigate(examPath(opened.config.subjectId, paperSearch));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const renderBody = () => {
+    if (!config) {
+      return (
+        <div className="space-y-4">
+          <ExamBuilder subject={subject} onBuild={c => navigate(examPath(subject.id, configToSearch(c)))} />
+          <div className="bg-white rounded-lg p-6 shadow-sm">
+            <h3 className="font-medium text-gray-800 mb-1">{t('exam.openFile')}</h3>
+            <p className="text-sm text-gray-500 mb-3">{t('exam.openFileHint')}</p>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={openPaperFile}
+              className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700"
+            />
+            {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+          </div>
+        </div>
+      );
+    }
+    if (error) {
+      return <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>;
+    }
+    if (!paper) {
+      return <LoadingIndicator message={t('exam.preparing', { done: String(loaded), total: String(config.topicIds.length) })} />;
+    }
+    if (paper.questions.length === 0) {
+      return <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{t('exam.noQuestions')}</div>;
+    }
+    if (report && attempt) {
+      return (
+        <ExamReportView
+          paper={paper}
+          answers={attempt.answers}
+          report={report}
+          onRetake={() => updateAttempt(null)}
+          onNewPaper={() => {
+            updateAttempt(null);
+            navigate(examPath(subject.id));
+          }}
+        />
+      );
+    }
+    if (attempt) {
+      return (
+        <ExamPaperView
+          paper={paper}
+          answers={attempt.answers}
+          onAnswer={(examId, answer) => {
+            const answers = { ...attempt.answers };
+            if (answer === undefined) delete answers[examId];
+            else answers[examId] = answer;
+            updateAttempt({ ...attempt, answers });
+          }}
+          endsAt={attempt.startedAt + paper.config.durationMinutes * 60 * 1000}
+          onSubmit={submit}
+        />
+      );
+    }
+
+    const sections = SECTIONS.map(s => ({ ...s, count: paper.questions.filter(q => q.section === s.id).length }))
+      .filter(s => s.count > 0);
+    return (
+      <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800">{t('exam.ready')}</h3>
+        <ul className="text-sm text-gray-700 space-y-1">
+          <li>
+            {t('exam.summary', {
+              questions: String(paper.questions.length),
+              minutes: String(paper.config.durationMinutes),
+            })}
+          </li>
+          {sections.map(s => <li key={s.id}>{s.title}: {s.count}</li>)}
+          <li>{t('exam.topics', { topics: paper.config.topicIds.map(id => getTopicById(id)?.title ?? id).join(', ') })}</li>
+          <li className="text-gray-500">{t('exam.seed', { seed: String(paper.config.seed) })}</li>
+        </ul>
+        {paper.questions.length < paper.config.questionCount && (
+          <p className="text-sm text-yellow-700">
+            {t('exam.shortfall', {
+              available: String(paper.questions.length),
+              requested: String(paper.config.questionCount),
+            })}
+          </p>
+        )}
+        <div className="flex gap-3">
+          <button
+            onClick={() => updateAttempt({ paper: search, startedAt: Date.now(), answers: {} })}
+            className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 text-sm"
+          >
+            {t('exam.start')}
+          </button>
+          <button
+            onClick={() => downloadPaperFile(paperFile(paper.config, pools))}
+            className="text-sm text-gray-600 border border-gray-200 rounded-lg px-4 py-2"
+          >
+            {t('exam.download')}
+          </button>
+          <button
+            onClick={() => navigator.clipboard?.writeText(window.location.href)}
+            className="text-sm text-gray-600 border border-gray-200 rounded-lg px-4 py-2"
+          >
+            {t('exam.copyLink')}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <Header currentSubject={subject} />
+      <div className="container mx-auto p-4 md:p-6 max-w-5xl">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">{t('exam.heading', { subject: subject.name })}</h2>
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default MockExamPage;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Flashcard } from '../types';
+import Header from '../components/Header';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+import { useFlashcards } from '../hooks/useFlashcards';
+import { formatInterval, schedule, type ReviewGrade } from '../services/spacedRepetition';
+import { getSubjectById, getTopicById, subjects } from '../data/curriculum';
+import { topicPath } from '../routes';
+
+const GRADES: { grade: ReviewGrade; label: string; style: string }[] = [
+  { grade: 'again', label: 'Again', style: 'bg-red-50 text-red-700 hover:bg-red-100' },
+  { grade: 'hard',  label: 'Hard',  style: 'bg-yellow-50 text-yellow-700 hover:bg-yellow-100' },
+  { grade: 'good',  label: 'Good',  style: 'bg-green-50 text-green-700 hover:bg-green-100' },
+  { grade: 'easy',  label: 'Easy',  style: 'bg-blue-50 text-blue-700 hover:bg-blue-100' },
+];
+
+const topicTitle = (topicId: string) => getTopicById(topicId)?.title ?? topicId;
+
+/** Today's due cards, one at a time: recall, reveal, grade */
+const ReviewQueue: React.FC<{ queue: Flashcard[]; onGrade: (card: Flashcard, grade: ReviewGrade) => void }> = ({
+  queue,
+  onGrade,
+}) => {
+  const [revealed, setRevealed] = useState(false);
+  const card = queue[0];
+
+  useEffect(() => setRevealed(false), [card?.id]);
+
+  // Space reveals the answer, 1–4 grade it
+  useEffect(() => {
+    if (!card) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === ' ' && !revealed) {
+        e.preventDefault();
+        setRevealed(true);
+      } else if (revealed && ['1', '2', '3', '4'].includes(e.key)) {
+        onGrade(card, GRADES[Number(e.key) - 1].grade);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [card, revealed, onGrade]);
+
+  if (!card) {
+    return (
+      <div className="bg-white rounded-lg p-8 shadow-sm text-center text-gray-600">
+        <div className="text-4xl mb-2">🎉</div>
+        Nothing left to review today. Save cards from a lesson to add more.
+      </div>
+    );
+  }
+
+  const now = Date.now();
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <Link to={topicPath(card.subjectId, card.topicId)} className="hover:text-blue-600">
+          {getSubjectById(card.subjectId)?.name ?? card.subjectId} · {topicTitle(card.topicId)}
+        </Link>
+        <span>{queue.length} due</span>
+      </div>
+
+      <div className="prose max-w-none text-lg">
+        <MarkdownRenderer>{card.front}</MarkdownRenderer>
+      </div>
+
+      {revealed ? (
+        <>
+          <div className="prose max-w-none border-t border-gray-100 pt-4">
+            <MarkdownRenderer>{card.back}</MarkdownRenderer>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {GRADES.map(({ grade, label, style }, i) => (
+              <button
+                key={grade}
+                onClick={() => onGrade(card, grade)}
+                className={`rounded-lg px-3 py-2 text-sm ${style}`}
+                title={`Key ${i + 1}`}
+              >
+                {label}
+                <span className="block text-xs opacity-75">
+                  {formatInterval(schedule(card.review, grade, now).due - now)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <button
+          onClick={() => setRevealed(true)}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 text-sm"
+        >
+          Show answer
+        </button>
+      )}
+    </div>
+  );
+};
+
+/** One card in the manager, editable in place */
+const CardRow: React.FC<{ card: Flashcard }> = ({ card }) => {
+  const flashcards = useFlashcards();
+  const [editing, setEditing] = useState(false);
+  const [front, setFront] = useState(card.front);
+  const [back, setBack] = useState(card.back);
+
+  if (editing) {
+    return (
+      <li className="py-3 space-y-2">
+        <textarea
+          value={front}
+          onChange={e => setFront(e.target.value)}
+          rows={2}
+          aria-label="Front"
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        />
+        <textarea
+          value={back}
+          onChange={e => setBack(e.target.value)}
+          rows={3}
+          aria-label="Back"
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        />
+        <div className="space-x-3 text-sm">
+          <button
+            onClick={() => {
+              if (!front.trim() || !back.trim()) return;
+              flashcards.edit(card.id, { front: front.trim(), back: back.trim() });
+              setEditing(false);
+            }}
+            className="text-blue-600 hover:underline"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => {
+              setFront(card.front);
+              setBack(card.back);
+              setEditing(false);
+            }}
+            className="text-gray-500 hover:underline"
+          >
+            Cancel
+          </button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className="py-3 flex items-start justify-between gap-4 text-sm">
+      <div className="min-w-0">
+        <p className="text-gray-800">{card.front}</p>
+        <p className="text-gray-500 truncate">{card.back}</p>
+        <p className="text-xs text-gray-400">
+          {topicTitle(card.topicId)} · next {new Date(card.review.due).toLocaleDateString()}
+        </p>
+      </div>
+      <div className="shrink-0 space-x-3">
+        <button onClick={() => setEditing(true)} className="text-gray-400 hover:text-blue-600">Edit</button>
+        <button onClick={() => flashcards.remove(card.id)} className="text-gray-400 hover:text-red-600">Delete</button>
+      </div>
+    </li>
+  );
+};
+
+const ReviewPage: React.FC = () => {
+  const flashcards = useFlashcards();
+  const [subjectFilter, setSubjectFilter] = useState('');
+
+  const cards = flashcards.all().filter(c => !subjectFilter || c.subjectId === subjectFilter);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <Header />
+      <div className="container mx-auto p-4 md:p-6 max-w-3xl space-y-8">
+        <section>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Review due</h2>
+          <ReviewQueue queue={flashcards.due()} onGrade={(card, grade) => flashcards.review(card.id, grade)} />
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-semibold text-gray-800">All cards ({flashcards.all().length})</h3>
+            <select
+              value={subjectFilter}
+              onChange={e => setSubjectFilter(e.target.value)}
+              className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+              aria-label="Filter by subject"
+            >
+              <option value="">All subjects</option>
+              {subjects.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+          {cards.length === 0 ? (
+            <p className="text-sm text-gray-500">No cards yet.</p>
+          ) : (
+            <ul className="bg-white rounded-lg px-4 shadow-sm divide-y divide-gray-100">
+              {cards.map(card => <CardRow key={card.id} card={card} />)}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPage;
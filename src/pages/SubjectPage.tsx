@@ -1,36 +1,71 @@
-import React, { useState, useEffect } from 'react';
-import { Topic, Subject, Content, FollowUpQuestion } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Topic, Subject, Content, FollowUpQuestion, GenerationContext } from '../types';
 import Header from '../components/Header';
 import TopicDiscoveryPanel from '../components/TopicDiscoveryPanel';
 import PromptSection from '../components/PromptSection';
 import ContentSection from '../components/ContentSection';
+import ConceptMapView from '../components/ConceptMapView';
+import EnglishLesson from '../components/EnglishLesson';
+import ChatPanel, { ChatSeed } from '../components/ChatPanel';
+import PracticeSession from '../components/PracticeSession';
+import FlashcardMaker from '../components/FlashcardMaker';
 import FollowUpQuestions from '../components/FollowUpQuestions';
 import RelatedTopics from '../components/RelatedTopics';
 import LoadingIndicator from '../components/LoadingIndicator';
 import { 
   getTopicsBySubject, 
   getRelatedTopics,
-  getTopicById 
-} from '../data/mockData';
-import { contentService } from '../services/aiService';
+  getTopicById,
+  topics as allTopics,
+  topicTree
+} from '../data/curriculum';
+import { isKnownPromptType } from '../data/promptTypes';
+import { contentService, PromptType } from '../services/aiService';
+import { examPath, topicPath } from '../routes';
+import { useProgress } from '../hooks/useProgress';
+import { historyStore } from '../services/historyService';
+import { isPracticeType, parsePracticeSet } from '../services/practice';
+import { followUpPromptType, parseFollowUps } from '../services/followUps';
+import { mergeCurriculum, parseConceptMap } from '../services/conceptMap';
+import { extractVisualAid } from '../services/visualAids';
+import { levelOf } from '../services/learnerModel';
+import { useI18n } from '../hooks/useI18n';
 
 interface SubjectPageProps {
   subject: Subject;
-  onBackToSubjects: () => void;
 }
 
-const SubjectPage: React.FC<SubjectPageProps> = ({ 
-  subject, 
-  onBackToSubjects 
-}) => {
+const SubjectPage: React.FC<SubjectPageProps> = ({ subject }) => {
+  const navigate = useNavigate();
+  const params = useParams<{ topicId?: string; promptType?: string }>();
+  // The URL is the source of truth for the open topic and prompt mode
+  const selectedTopic = useMemo(
+    () => (params.topicId ? getTopicById(params.topicId) ?? null : null),
+    [params.topicId]
+  );
+  const promptType = isKnownPromptType(params.promptType) ? params.promptType : null;
+
+  const progress = useProgress();
+  const { language, t } = useI18n();
   const [topics, setTopics] = useState<Topic[]>([]);
-  const [selectedTopic, setSelectedTopic] = useState<Topic | null>(null);
   const [relatedTopics, setRelatedTopics] = useState<Topic[]>([]);
   const [content, setContent] = useState<Content | null>(null);
+  /** Prompt type that produced `content`; follow-up answers replace a practice set with Markdown */
+  const [contentType, setContentType] = useState<PromptType | null>(null);
   const [followUpQuestions, setFollowUpQuestions] = useState<FollowUpQuestion[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isGeneratingContent, setIsGeneratingContent] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  /** Show the lesson's English translation beside it when it is in another language */
+  const [showEnglish, setShowEnglish] = useState(false);
+  const generation = useRef<AbortController | null>(null);
+  const [chatSeed, setChatSeed] = useState<ChatSeed | null>(null);
+  const clearChatSeed = useCallback(() => setChatSeed(null), []);
+
+  // Abort any in-flight generation when leaving the page
+  useEffect(() => () => generation.current?.abort(), []);
 
   useEffect(() => {
     setTimeout(() => {
@@ -40,109 +75,193 @@ const SubjectPage: React.FC<SubjectPageProps> = ({
     }, 1000);
   }, [subject]);
 
+  const cancelGeneration = useCallback(() => {
+    generation.current?.abort();
+    generation.current = null;
+    setIsGeneratingContent(false);
+    setIsStreaming(false);
+  }, []);
+
+  // Related topics can live in another subject, so go by the topic's own subject
+  const subjectIdOf = (topic: Topic) => topicTree.subjectOf(topic.id) ?? subject.id;
+
   const handleSelectTopic = (topic: Topic) => {
-    setSelectedTopic(topic);
-    setContent(null);
-    setError(null);
-    const related = getRelatedTopics(topic.id);
-    setRelatedTopics(related);
+    navigate(topicPath(subjectIdOf(topic), topic.id));
   };
 
-  const generateFollowUpQuestions = async (topicTitle: string, currentContent: string) => {
+  /** Suggest follow-ups built on the lesson the student has just read; none if that fails */
+  const generateFollowUpQuestions = async (topic: Topic, lesson: string): Promise<FollowUpQuestion[]> => {
     try {
-      const followUpPrompt = `Based on this explanation about "${topicTitle}": 
-        ${currentContent}
-        
-        Generate 5 follow-up questions that would help deepen understanding of this topic. 
-        Format the response as a JSON array of objects with properties: id, question, contentType 
-        (one of: explanation, example, question, summary)`;
-
-      const questionsJson = await contentService.generate(topicTitle, 'follow-up');
-      
-      try {
-        const questions = JSON.parse(questionsJson);
-        if (!Array.isArray(questions)) {
-          throw new Error('Response is not an array');
-        }
-        
-        setFollowUpQuestions(questions.map((q: any, index: number) => ({
-          ...q,
-          id: `followup-${index}`,
-          topicId: selectedTopic?.id || ''
-        })));
-      } catch (parseError) {
-        console.error('Failed to parse follow-up questions:', parseError);
-        console.debug('Raw response:', questionsJson);
-        setFollowUpQuestions([]);
-      }
-    } catch (error: any) {
+      const questionsJson = await contentService.generate(topic.title, 'follow-up', {
+        context: { lesson, subject: subjectIdOf(topic) },
+      });
+      const followUps = parseFollowUps(questionsJson, topic.id);
+      setFollowUpQuestions(followUps);
+      return followUps;
+    } catch (error) {
       console.error('Error generating follow-up questions:', error);
       setFollowUpQuestions([]);
+      return [];
     }
   };
 
-  const handleGenerateContent = async (promptType: string) => {
-    if (!selectedTopic) return;
-    
+  /**
+   * Stream a generation into `content`, rendering it as it arrives. Starting a
+   * new generation aborts the previous one. Resolves with the finished text,
+   * or null if the request was cancelled.
+   */
+  const streamContent = async (
+    topic: Topic,
+    promptType: PromptType,
+    makeContent: (text: string, done: boolean) => Content,
+    context?: GenerationContext
+  ): Promise<string | null> => {
+    generation.current?.abort();
+    const controller = new AbortController();
+    generation.current = controller;
+
     setIsGeneratingContent(true);
     setError(null);
-    
+    setContentType(promptType);
+
     try {
-      const generatedContent = await contentService.generate(selectedTopic.title, promptType as any);
-      
-      const newContent: Content = {
-        id: `${selectedTopic.id}-${promptType}`,
-        topicId: selectedTopic.id,
+      let finished: string | null = null;
+      // Lessons follow the topic's subject and adapt to how the student has been doing on it
+      const { ability, answered } = progress.estimate(topic.id);
+      const adapted = { ...context, subject: subjectIdOf(topic), level: levelOf(ability, answered) };
+      for await (const update of contentService.stream(topic.title, promptType, { context: adapted, signal: controller.signal })) {
+        setIsStreaming(!update.done);
+        setContent(makeContent(update.content, update.done));
+        if (update.done) finished = update.content;
+      }
+      return finished;
+    } finally {
+      if (generation.current === controller) {
+        generation.current = null;
+        setIsGeneratingContent(false);
+        setIsStreaming(false);
+      }
+    }
+  };
+
+  const generateLesson = async (topic: Topic, type: PromptType) => {
+    try {
+      const title = `${topic.title}`;
+      const generatedContent = await streamContent(topic, type, (text, done) => ({
+        id: `${topic.id}-${type}`,
+        topicId: topic.id,
         type: 'explanation',
-        title: `${selectedTopic.title}`,
+        title,
+        content: text,
+        // Read once the lesson is complete; until then its diagram may be half-written
+        visualAid: done && type === 'visual-guide' ? extractVisualAid(text) : undefined,
+      }));
+      if (generatedContent === null) return;
+      progress.recordView(topic.id);
+      const lesson = historyStore.recordLesson({
+        subjectId: subject.id,
+        topicId: topic.id,
+        promptType: type,
+        title,
         content: generatedContent
-      };
-      
-      setContent(newContent);
-      await generateFollowUpQuestions(selectedTopic.title, generatedContent);
+      });
+
+      const followUps = await generateFollowUpQuestions(topic, generatedContent);
+      historyStore.attachFollowUps((await lesson).id, followUps);
     } catch (error: any) {
       console.error('Error:', error);
       setContent(null);
       setError(error.message);
-    } finally {
-      setIsGeneratingContent(false);
+    }
+  };
+
+  // The latest generateLesson, read by the effect below so that only navigation re-runs it
+  const generateLessonRef = useRef(generateLesson);
+  useEffect(() => {
+    generateLessonRef.current = generateLesson;
+  });
+
+  // Reset the lesson whenever the URL points at another topic or prompt mode,
+  // and generate straight away when a prompt mode is deep-linked
+  useEffect(() => {
+    cancelGeneration();
+    setContent(null);
+    setError(null);
+    setFollowUpQuestions([]);
+    setRelatedTopics(selectedTopic ? getRelatedTopics(selectedTopic.id) : []);
+    if (selectedTopic) historyStore.recordTopicView(selectedTopic.id);
+    if (selectedTopic && promptType) generateLessonRef.current(selectedTopic, promptType);
+  }, [selectedTopic, promptType, cancelGeneration]);
+
+  // Practice prompt types return a JSON question set instead of a Markdown lesson
+  const practice = useMemo(() => {
+    if (!content || !contentType || !isPracticeType(contentType) || isGeneratingContent) return null;
+    try {
+      return { set: parsePracticeSet(content.content) };
+    } catch (err) {
+      console.error('Unreadable practice set:', err);
+      return { error: 'These practice questions could not be read. Generate them again.' };
+    }
+  }, [content, contentType, isGeneratingContent]);
+
+  // The generated graph, linked to curriculum topics and joined by the static related topics
+  const conceptMap = useMemo(() => {
+    if (!content || contentType !== 'concept-map' || isGeneratingContent || !selectedTopic) return null;
+    try {
+      const candidates = [...topics, ...allTopics];
+      return { map: mergeCurriculum(parseConceptMap(content.content), selectedTopic, relatedTopics, candidates) };
+    } catch (err) {
+      console.error('Unreadable concept map:', err);
+      return { error: 'This concept map could not be read. Generate it again.' };
+    }
+  }, [content, contentType, isGeneratingContent, selectedTopic, relatedTopics, topics]);
+
+  const handleGenerateContent = (type: string) => {
+    if (!selectedTopic) return;
+    if (type === promptType) {
+      generateLesson(selectedTopic, promptType);
+    } else {
+      navigate(topicPath(subject.id, selectedTopic.id, type));
     }
   };
 
   const handleSelectFollowUp = async (question: FollowUpQuestion) => {
     if (!selectedTopic) return;
-    
-    setIsGeneratingContent(true);
-    setError(null);
+    // "Show me an example" gets a worked example rather than a general answer;
+    // follow-ups saved before categories were enforced fall back to one
+    const answerType = followUpPromptType[question.contentType] ?? 'follow-up-answer';
     
     try {
-      const generatedContent = await contentService.generate(selectedTopic.title, 'follow-up-answer');
-      
-      const newContent: Content = {
+      const generatedContent = await streamContent(selectedTopic, answerType, text => ({
         id: `followup-${question.id}`,
         topicId: selectedTopic.id,
-        type: 'explanation',
+        type: question.contentType,
         title: question.question,
+        content: text
+      }), { question: question.question, lesson: content?.content });
+      if (generatedContent === null) return;
+      progress.recordView(selectedTopic.id);
+      const lesson = historyStore.recordLesson({
+        subjectId: subject.id,
+        topicId: selectedTopic.id,
+        promptType: answerType,
+        title: selectedTopic.title,
+        question: question.question,
         content: generatedContent
-      };
-      
-      setContent(newContent);
-      await generateFollowUpQuestions(selectedTopic.title, generatedContent);
+      });
+
+      const followUps = await generateFollowUpQuestions(selectedTopic, generatedContent);
+      historyStore.attachFollowUps((await lesson).id, followUps);
     } catch (error: any) {
       console.error('Error:', error);
       setError(error.message);
-    } finally {
-      setIsGeneratingContent(false);
     }
   };
 
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex flex-col">
-        <Header 
-          onBackToSubjects={onBackToSubjects} 
-          currentSubject={subject.name} 
-        />
+        <Header currentSubject={subject} />
         <div className="flex-1 flex items-center justify-center">
           <LoadingIndicator message="Loading topics..." />
         </div>
@@ -153,9 +272,8 @@ const SubjectPage: React.FC<SubjectPageProps> = ({
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       <Header 
-        onBackToSubjects={onBackToSubjects} 
-        currentSubject={subject.name}
-        currentTopic={selectedTopic?.title}
+        currentSubject={subject}
+        currentTopic={selectedTopic}
       />
       
       <div className="container mx-auto p-4 md:p-6 flex-1 flex flex-col md:flex-row gap-6">
@@ -165,6 +283,16 @@ const SubjectPage: React.FC<SubjectPageProps> = ({
             onSelectTopic={handleSelectTopic}
             selectedTopicId={selectedTopic?.id}
           />
+          <Link
+            to={examPath(subject.id)}
+            className="mt-4 flex items-center gap-3 bg-white rounded-lg p-4 shadow-sm text-gray-700 hover:text-blue-700"
+          >
+            <span className="text-xl">📝</span>
+            <span>
+              Build a mock exam
+              <span className="block text-sm text-gray-500">Timed paper across several topics, JEE marking</span>
+            </span>
+          </Link>
         </div>
         
         <div className="md:w-2/3 space-y-4">
@@ -172,6 +300,14 @@ const SubjectPage: React.FC<SubjectPageProps> = ({
             selectedTopic={selectedTopic} 
             onGenerateContent={handleGenerateContent}
             isGenerating={isGeneratingContent}
+            onCancel={cancelGeneration}
+            selectedPromptType={promptType}
+            isCompleted={!!selectedTopic && progress.status(selectedTopic.id) === 'completed'}
+            onToggleComplete={() => {
+              if (!selectedTopic) return;
+              if (progress.status(selectedTopic.id) === 'completed') progress.markIncomplete(selectedTopic.id);
+              else progress.markComplete(selectedTopic.id);
+            }}
           />
           
           {error && (
@@ -181,22 +317,85 @@ const SubjectPage: React.FC<SubjectPageProps> = ({
             </div>
           )}
           
-          <ContentSection 
-            content={content} 
-            isLoading={isGeneratingContent} 
-          />
+          {contentType && isPracticeType(contentType) && content ? (
+            practice?.set ? (
+              <PracticeSession
+                practiceSet={practice.set}
+                onAnswered={(question, correct) => {
+                  if (selectedTopic) progress.recordPractice(selectedTopic.id, [{ correct, difficulty: question.difficulty }]);
+                }}
+              />
+            ) : practice?.error ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{practice.error}</div>
+            ) : (
+              <LoadingIndicator message="Preparing practice questions..." />
+            )
+          ) : contentType === 'concept-map' && content ? (
+            conceptMap?.map ? (
+              <ConceptMapView
+                map={conceptMap.map}
+                onSelectTopic={id => {
+                  const topic = getTopicById(id);
+                  if (topic) handleSelectTopic(topic);
+                }}
+              />
+            ) : conceptMap?.error ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{conceptMap.error}</div>
+            ) : (
+              <LoadingIndicator message="Drawing the concept map..." />
+            )
+          ) : (
+            <>
+              {language !== 'en' && selectedTopic && content && !isGeneratingContent && (
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => setShowEnglish(show => !show)}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    {showEnglish ? t('lesson.hideEnglish') : t('lesson.showEnglish')}
+                  </button>
+                </div>
+              )}
+              <div className={showEnglish && language !== 'en' ? 'grid gap-6 md:grid-cols-2' : ''}>
+                <ContentSection 
+                  content={content} 
+                  isLoading={isGeneratingContent} 
+                  isStreaming={isStreaming}
+                  onAskAboutSection={setChatSeed}
+                />
+                {showEnglish && language !== 'en' && selectedTopic && content && !isGeneratingContent && (
+                  <EnglishLesson title={content.title} lesson={content.content} subject={subjectIdOf(selectedTopic)} />
+                )}
+              </div>
+            </>
+          )}
+
+          {selectedTopic && (
+            <ChatPanel
+              topic={selectedTopic}
+              lesson={isStreaming ? undefined : content?.content}
+              seed={chatSeed}
+              onSeedConsumed={clearChatSeed}
+            />
+          )}
           
           {content && !isGeneratingContent && (
             <>
+              {selectedTopic && !practice && !conceptMap && (
+                <FlashcardMaker subjectId={subject.id} topic={selectedTopic} lesson={content.content} />
+              )}
+
               <FollowUpQuestions 
                 questions={followUpQuestions} 
                 onSelectQuestion={handleSelectFollowUp} 
               />
               
-              <RelatedTopics 
-                topics={relatedTopics} 
-                onSelectTopic={handleSelectTopic} 
-              />
+              {!conceptMap?.map && (
+                <RelatedTopics 
+                  topics={relatedTopics} 
+                  onSelectTopic={handleSelectTopic} 
+                />
+              )}
             </>
           )}
         </div>
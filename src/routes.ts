@@ -0,0 +1,21 @@
+// URL builders for every page, so links and navigation agree on the scheme
+
+export const homePath = () => '/';
+
+export const subjectPath = (subjectId: string) =>
+  `/subjects/${encodeURIComponent(subjectId)}`;
+
+export const topicPath = (subjectId: string, topicId: string, promptType?: string) =>
+  `${subjectPath(subjectId)}/topics/${encodeURIComponent(topicId)}` +
+  (promptType ? `/${encodeURIComponent(promptType)}` : '');
+
+export const historyPath = () => '/history';
+
+export const historyLessonPath = (lessonId: string) =>
+  `${historyPath()}/lessons/${encodeURIComponent(lessonId)}`;
+
+export const reviewPath = () => '/review';
+
+/** Mock exam builder; `search` carries a paper's config (see configToSearch) */
+export const examPath = (subjectId: string, search = '') =>
+  `${subjectPath(subjectId)}/exam${search}`;
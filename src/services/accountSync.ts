@@ -0,0 +1,186 @@
+import type { ChatTurn, Flashcard, SessionLesson, UserSession } from '../types';
+import { accountRequest, AuthError, authStore } from './authService';
+import { chatStore } from './chatService';
+import type { Deletions } from './deletions';
+import { flashcardStore } from './flashcardService';
+import { historyStore } from './historyService';
+import { profileStore, type StoredProfile } from './profileService';
+import { migrateProgress, progressStore, type ProgressData } from './progressService';
+
+/** Bump when the synced document changes shape */
+const SYNC_VERSION = 1;
+/** Quiet period after a local change before it is uploaded */
+const SYNC_DELAY_MS = 2000;
+
+/** Everything that follows a student between devices */
+interface AccountSnapshot {
+  version: number;
+  progress: ProgressData;
+  chats: Record<string, ChatTurn[]>;
+  history: { sessions: UserSession[]; lessons: SessionLesson[] };
+  /** Absent in snapshots from before flashcards existed */
+  flashcards?: Flashcard[];
+  /** Null until a profile is chosen; absent in snapshots from before profiles existed */
+  profile?: StoredProfile | null;
+  /** What was deleted on some device, so merging doesn't bring it back; absent in older snapshots */
+  deletions?: {
+    /** Cleared chat threads, by topic id */
+    chats: Deletions;
+    sessions: Deletions;
+    flashcards: Deletions;
+  };
+}
+
+async function localSnapshot(): Promise<AccountSnapshot> {
+  const sessions = await historyStore.sessions();
+  const lessons = (await Promise.all(sessions.map(s => historyStore.lessons(s.id)))).flat();
+  return {
+    version: SYNC_VERSION,
+    progress: progressStore.all(),
+    chats: chatStore.all(),
+    history: { sessions, lessons },
+    flashcards: flashcardStore.all(),
+    profile: profileStore.all(),
+    deletions: {
+      chats: chatStore.deletions(),
+      sessions: historyStore.deletions(),
+      flashcards: flashcardStore.deletions(),
+    },
+  };
+}
+
+/**
+ * Merge the account's copy into this device: furthest progress, every chat
+ * turn, newest session, card and profile. Deletions from either side win
+ * over records that haven't changed since.
+ */
+async function applySnapshot(remote: AccountSnapshot) {
+  progressStore.merge(migrateProgress(remote.progress).topics);
+  if (remote.deletions) chatStore.mergeDeletions(remote.deletions.chats);
+  Object.entries(remote.chats).forEach(([topicId, turns]) => chatStore.merge(topicId, turns));
+  if (remote.flashcards) flashcardStore.merge(remote.flashcards, remote.deletions?.flashcards);
+  if (remote.profile) profileStore.merge(remote.profile);
+
+  if (remote.deletions) await historyStore.mergeDeletions(remote.deletions.sessions);
+  const local = new Map((await historyStore.sessions()).map(s => [s.id, s]));
+  for (const session of remote.history.sessions) {
+    const ours = local.get(session.id);
+    if ((ours && ours.updatedAt >= session.updatedAt) || historyStore.isDeleted(session)) continue;
+    await historyStore.restore(session, remote.history.lessons.filter(l => l.sessionId === session.id));
+  }
+}
+
+/** Why the latest sync failed, or null after one succeeds, so the failure can be shown rather than lost */
+export class SyncStatus {
+  private current: string | null = null;
+  private listeners = new Set<() => void>();
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get error(): string | null {
+    return this.current;
+  }
+
+  set(error: string | null) {
+    if (error === this.current) return;
+    this.current = error;
+    this.listeners.forEach(l => l());
+  }
+}
+
+export const syncStatus = new SyncStatus();
+
+let running: Promise<void> = Promise.resolve();
+/** Set while remote data is being merged, so the merge itself doesn't schedule a sync */
+let applying = false;
+
+/**
+ * Pull the account's data, merge it into this device, then upload the
+ * result. On an account's first sync the pull is empty, so whatever was
+ * studied here as a guest becomes the account's starting point.
+ */
+export function syncNow(): Promise<void> {
+  const run = running.then(async () => {
+    if (!authStore.user) {
+      syncStatus.set(null);
+      return;
+    }
+    const { data } = await accountRequest<{ data: AccountSnapshot | null }>('/api/account/data');
+    if (data) {
+      if (data.version > SYNC_VERSION) {
+        throw new AuthError('Your account was synced by a newer version of the app. Update the app to sync here.');
+      }
+      applying = true;
+      try {
+        await applySnapshot(data);
+      } finally {
+        applying = false;
+      }
+    }
+    await accountRequest('/api/account/data', {
+      method: 'PUT',
+      body: JSON.stringify({ data: await localSnapshot() }),
+    });
+  });
+  running = run.then(
+    () => syncStatus.set(null),
+    err => syncStatus.set(err instanceof Error ? err.message : String(err))
+  );
+  return run;
+}
+
+/**
+ * Upload the last changes, sign out and clear this device's progress,
+ * history, chats, flashcards and profile so the next person starts as a
+ * fresh guest. Throws, leaving the user signed in, if the upload fails.
+ */
+export async function signOutAndForget(): Promise<void> {
+  try {
+    await syncNow();
+  } catch {
+    throw new AuthError('Your latest work could not be saved to your account. Reconnect and try again.');
+  }
+  await authStore.signOut();
+  progressStore.clear();
+  chatStore.clearAll();
+  flashcardStore.clear();
+  profileStore.clear();
+  await historyStore.forget();
+}
+
+/** Keep the signed-in account in sync with local changes; returns a stop function */
+export function startAccountSync(): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let unwatch: (() => void) | null = null;
+
+  const sync = () => syncNow().catch(err => console.warn('Account sync failed:', err));
+  const schedule = () => {
+    if (applying) return;
+    clearTimeout(timer);
+    timer = setTimeout(sync, SYNC_DELAY_MS);
+  };
+
+  const onAuthChange = () => {
+    unwatch?.();
+    unwatch = null;
+    clearTimeout(timer);
+    if (!authStore.user) {
+      syncStatus.set(null);
+      return;
+    }
+
+    sync();
+    const unsubscribers = [progressStore, chatStore, historyStore, flashcardStore, profileStore].map(store => store.subscribe(schedule));
+    unwatch = () => unsubscribers.forEach(u => u());
+  };
+
+  const unsubscribe = authStore.subscribe(onAuthChange);
+  return () => {
+    unsubscribe();
+    unwatch?.();
+    clearTimeout(timer);
+  };
+}
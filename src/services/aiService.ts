@@ -1,315 +1,243 @@
-import { openai } from '../config/openai';
-import { backOff } from 'exponential-backoff';
+import type { ChatTurn, GenerationContext, PromptType } from '../types';
+import { cacheKey, contentCache, type CacheKeyParts } from './contentCache';
+import { audienceKey } from './learnerProfile';
+import { profileStore } from './profileService';
 
-/** Supported prompt types */
-export type PromptType =
-  | 'explain-simply'
-  | 'visual-guide'
-  | 'interactive-practice'
-  | 'real-applications'
-  | 'deep-dive'
-  | 'exam-mastery'
-  | 'concept-map'
-  | 'common-mistakes'
-  | 'follow-up'
-  | 'follow-up-answer';
+export type { PromptType };
 
-/** Simple in-memory cache with TTL */
-interface CacheEntry { content: string; timestamp: number; }
-class CacheService {
-  private store = new Map<string, CacheEntry>();
-  constructor(private ttlMs: number) {}
-  get(key: string): string | null {
-    const e = this.store.get(key);
-    if (!e || Date.now() - e.timestamp > this.ttlMs) {
-      this.store.delete(key);
-      return null;
-    }
-    return e.content;
-  }
-  set(key: string, content: string) {
-    this.store.set(key, { content, timestamp: Date.now() });
-  }
-}
-
-/** Retryable HTTP codes */
-const RETRYABLE = new Set([408, 429, 500, 502, 503, 504]);
-const isRetryable = (err: any) => RETRYABLE.has(err?.status);
+/** Base URL of the AI proxy; empty means same origin (Vite proxies /api in dev) */
+const API_BASE = import.meta.env.VITE_API_BASE_URL ?? '';
 
 /** Friendly error messages */
 const Errors = {
-  invalidKey:    'Invalid API key. Please verify your OpenAI configuration.',
-  rateLimit:     'Rate limit reached. Try again later.',
-  quotaExceeded: 'Quota exceeded. Check billing or upgrade.',
-  generic:       'Failed to generate content. Please retry later.',
+  network: 'Could not reach the learning server. Check your connection and retry.',
+  generic: 'Failed to generate content. Please retry later.',
 };
-function formatError(err: any): string {
-  if (err.message?.includes('API key')) return Errors.invalidKey;
-  if (err.status === 429)                return Errors.rateLimit;
-  if (err.message?.includes('quota'))    return Errors.quotaExceeded;
-  return Errors.generic;
-}
-
-// Define each template separately—no self reference!
-const explainSimplyTemplate = `
-Generate an IIT-JEE–style explanation of **%TOPIC%**. Use exactly this Markdown outline:
-
-## Overview
-A concise definition and why it matters.
-
-## Analogy
-A simple real-world analogy.
-
-## Core Concepts
-- Concept: description
-(3–5 bullet points)
-
-## Formula & Derivation
-Use display math:
-$$
-\\mathcal{E} = -\\frac{d\\Phi}{dt}
-$$
-Explain each symbol below.
-
-## Examples
-1. First practical example with step-by-step solution.
-2. Second illustrative example.
-
-## Takeaways
-- Key point 1
-- Key point 2
-
-Return only the raw Markdown, with ## headings, - bullets, numbered lists, and $$…$$ math. No extra formatting instructions.
-`.trim();
-
-const visualGuideTemplate = `
-Guide '%TOPIC%' through a mental diagram in Markdown:
-
-## Visual Summary
-…
-
-## Elements
-…
-
-## Flow
-…
-
-## Sketch
-…
-
-## Formula Notes
-…
-
-Return raw Markdown only.
-`.trim();
-
-const interactivePracticeTemplate = `
-Create an interactive practice session for '%TOPIC%':
-
-## Warm-up
-…
-
-## Problems
-1. Easy: …
-2. Medium: …
-3. Hard: …
-
-## Formula Review
-…
-
-## Reflection
-…
-
-Return raw Markdown only.
-`.trim();
-
-const realApplicationsTemplate = `
-List 4–6 real-world applications of '%TOPIC%' in Markdown:
-
-## Application 1
-…
-
-## Application 2
-…
-
-…
-
-Return raw Markdown only.
-`.trim();
-
-const deepDiveTemplate = `
-Deep dive into '%TOPIC%':
-
-## Theory
-…
-
-## Math
-Use inline equations like $E=mc^2$.
-
-## Edge Cases
-…
-
-## Research
-…
-
-Return raw Markdown only.
-`.trim();
-
-const examMasteryTemplate = `
-Exam mastery for '%TOPIC%':
-
-## Syllabus
-…
-
-## Formulas
-…
-
-## Questions
-…
 
-## Strategies
-…
-
-## Pitfalls
-…
-
-Return raw Markdown only.
-`.trim();
-
-const conceptMapTemplate = `
-Concept map for '%TOPIC%':
-
-## Prerequisites
-…
-
-## Related Topics
-…
-
-## Advanced Uses
-…
-
-## Study Path
-…
-
-Return raw Markdown only.
-`.trim();
-
-const commonMistakesTemplate = `
-Top 5 misconceptions in '%TOPIC%':
+export interface StreamUpdate {
+  /** Everything received so far (the sanitized final text once `done`) */
+  content: string;
+  done: boolean;
+}
 
-1. Mistake: …
-   - Why wrong: …
-   - Correction: …
+type StreamEvent = { delta?: string; done?: boolean; content?: string; error?: string };
 
-… repeat for each …
+/** Turns of chat history sent with each question */
+const MAX_CHAT_TURNS = 20;
 
-Return raw Markdown only.
-`.trim();
+/** Read an NDJSON stream from the proxy, yielding the growing text */
+async function* readStream(resp: Response, signal?: AbortSignal): AsyncGenerator<StreamUpdate> {
+  if (!resp.ok || !resp.body) {
+    const data = await resp.json().catch(() => ({})) as StreamEvent;
+    throw new Error(data.error ?? Errors.generic);
+  }
 
-const followUpTemplate = `
-Return a pure JSON array of 5 follow-up questions for '%TOPIC%'.
-Example: [{"id":"q1","question":"…","type":"conceptual"},…]
-No Markdown, no code fences.
-`.trim();
+  const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let content  = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines.filter(Boolean)) {
+        const event = JSON.parse(line) as StreamEvent;
+        if (event.error) throw new Error(event.error);
+        if (event.done) {
+          yield { content: event.content ?? content, done: true };
+          return;
+        }
+        content += event.delta ?? '';
+        yield { content, done: false };
+      }
+    }
+  } catch (err) {
+    if (signal?.aborted) return;
+    if (err instanceof SyntaxError || err instanceof TypeError) {
+      console.error('AI service error:', err);
+      throw new Error(Errors.network);
+    }
+    throw err;
+  } finally {
+    // Stops the download too when the caller bails out early
+    reader.cancel().catch(() => {});
+  }
+  if (!signal?.aborted) throw new Error(Errors.network);
+}
 
-const followUpAnswerTemplate = `
-Answer a follow-up question on '%TOPIC%':
+/** Model and template version the server generates with; part of every cache key */
+interface ServerMeta { model: string; templateVersion: number; }
 
-## Explanation
-…
+export interface GenerateOptions {
+  /** Question and previous lesson to ground the answer in */
+  context?: GenerationContext;
+  /** Aborting cancels the request all the way to the model provider */
+  signal?: AbortSignal;
+}
 
-## Formula
-…
+/** Short stable hash (FNV-1a) so long questions and lessons make compact cache keys */
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
 
-## Example
-…
+/**
+ * Thin client for the server-side AI proxy. Prompt templates, retries and
+ * rate limiting live on the server (see /server); finished lessons are also
+ * cached here in memory and IndexedDB so reloads and offline use are free.
+ */
+export class ContentService {
+  private meta: Promise<ServerMeta | null> | null = null;
+
+  /** Fetch server meta once; fall back to the last copy seen when offline */
+  private getMeta(): Promise<ServerMeta | null> {
+    this.meta ??= fetch(`${API_BASE}/api/meta`)
+      .then(r => (r.ok ? r.json() : Promise.reject(new Error(r.statusText))))
+      .then((meta: ServerMeta) => {
+        localStorage.setItem('serverMeta', JSON.stringify(meta));
+        return meta;
+      })
+      .catch(() => {
+        this.meta = null;
+        const saved = localStorage.getItem('serverMeta');
+        return saved ? JSON.parse(saved) as ServerMeta : null;
+      });
+    return this.meta;
+  }
 
-## Resources
-…
+  /** Every generation is written for the student's current learner profile */
+  private withProfile(context: GenerationContext = {}): GenerationContext {
+    return { ...context, profile: context.profile ?? profileStore.profile };
+  }
 
-Return raw Markdown only.
-`.trim();
+  private async keyParts(
+    topic: string,
+    type: PromptType,
+    context: GenerationContext
+  ): Promise<CacheKeyParts | null> {
+    const meta = await this.getMeta();
+    if (!meta) return null;
+    const { question, lesson, subject, level, profile = profileStore.profile } = context;
+    const variant = question || lesson ? hash(`${question ?? ''}\0${lesson ?? ''}`) : undefined;
+    // Each profile, and each struggling or strong variant of it, has its own copy of a lesson
+    const audience = level && level !== 'steady' ? `${audienceKey(profile)}.${level}` : audienceKey(profile);
+    return { topic, type, audience, subject, ...meta, variant, question };
+  }
 
-const promptTemplates: Record<PromptType, string> = {
-  'explain-simply':       explainSimplyTemplate,
-  'visual-guide':         visualGuideTemplate,
-  'interactive-practice': interactivePracticeTemplate,
-  'real-applications':    realApplicationsTemplate,
-  'deep-dive':            deepDiveTemplate,
-  'exam-mastery':         examMasteryTemplate,
-  'concept-map':          conceptMapTemplate,
-  'common-mistakes':      commonMistakesTemplate,
-  'follow-up':            followUpTemplate,
-  'follow-up-answer':     followUpAnswerTemplate,
-};
+  /** Cached copy regardless of age, used when the server can't be reached */
+  private async offlineCopy(parts: CacheKeyParts | null): Promise<string | null> {
+    if (!parts) return null;
+    return (await contentCache.get(cacheKey(parts), { allowStale: true }))?.content ?? null;
+  }
 
-/** Strip only code fences; leave headings & LaTeX */
-function sanitize(text: string, type: PromptType): string {
-  let out = text.replace(/```[\s\S]*?```/g, '').trim();
-  if (type === 'follow-up') {
+  public async generate(
+    topic: string,
+    type: PromptType,
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    const context = this.withProfile(options.context);
+    const parts = await this.keyParts(topic, type, context);
+    const hit = parts && await contentCache.get(cacheKey(parts));
+    if (hit) return hit.content;
+
+    let resp: Response;
     try {
-      const s = out.indexOf('['), e = out.lastIndexOf(']') + 1;
-      out = out.slice(s, e);
-      JSON.parse(out);
-    } catch {
-      return '[]';
+      resp = await fetch(`${API_BASE}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ topic, type, context }),
+      });
+    } catch (err) {
+      const stale = await this.offlineCopy(parts);
+      if (stale) return stale;
+      console.error('AI service error:', err);
+      throw new Error(Errors.network);
     }
-  }
-  return out;
-}
-
-export class ContentService {
-  private cache = new CacheService(24 * 3600 * 1000);
 
-  constructor(
-    private model = 'gpt-4o-mini',
-    private systemMsg =
-      'You are an expert IIT-JEE tutor. Always output in Markdown with headings, bullet lists, and LaTeX only.'
-  ) {}
-
-  private key(topic: string, type: PromptType) {
-    return `${topic}::${type}`;
-  }
-  private buildPrompt(topic: string, type: PromptType) {
-    return promptTemplates[type].replace(/%TOPIC%/g, topic);
+    const data = await resp.json().catch(() => ({})) as { content?: string; error?: string };
+    if (!resp.ok || typeof data.content !== 'string') {
+      throw new Error(data.error ?? Errors.generic);
+    }
+    if (parts) await contentCache.set(parts, data.content);
+    return data.content;
   }
 
-  public async generate(topic: string, type: PromptType): Promise<string> {
-    const cacheKey = this.key(topic, type);
-    const hit = this.cache.get(cacheKey);
-    if (hit) return hit;
+  /**
+   * Streaming variant of `generate`: yields the growing lesson as tokens arrive.
+   * Aborting `options.signal` cancels the request all the way to the model provider.
+   */
+  public async *stream(
+    topic: string,
+    type: PromptType,
+    { signal, ...options }: GenerateOptions = {}
+  ): AsyncGenerator<StreamUpdate> {
+    const context = this.withProfile(options.context);
+    const parts = await this.keyParts(topic, type, context);
+    const hit = parts && await contentCache.get(cacheKey(parts));
+    if (hit) {
+      yield { content: hit.content, done: true };
+      return;
+    }
 
-    const userPrompt = this.buildPrompt(topic, type);
-    const call = async () => {
-      const resp = await openai.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: this.systemMsg },
-          { role: 'user',   content: userPrompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
+    let resp: Response;
+    try {
+      resp = await fetch(`${API_BASE}/api/generate/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ topic, type, context }),
+        signal,
       });
-      const txt = resp.choices?.[0]?.message?.content;
-      if (!txt) throw new Error('No content returned');
-      return txt;
-    };
+    } catch (err) {
+      if (signal?.aborted) return;
+      const stale = await this.offlineCopy(parts);
+      if (stale) {
+        yield { content: stale, done: true };
+        return;
+      }
+      console.error('AI service error:', err);
+      throw new Error(Errors.network);
+    }
+
+    for await (const update of readStream(resp, signal)) {
+      if (update.done && parts) await contentCache.set(parts, update.content);
+      yield update;
+    }
+  }
 
+  /**
+   * Stream the tutor's reply to the last user turn of a topic chat. Only the
+   * most recent turns are sent; the lesson keeps the answer grounded.
+   */
+  public async *streamChat(
+    topic: string,
+    turns: ChatTurn[],
+    { lesson, signal }: { lesson?: string; signal?: AbortSignal } = {}
+  ): AsyncGenerator<StreamUpdate> {
+    const messages = turns.slice(-MAX_CHAT_TURNS).map(t => ({
+      role: t.role,
+      content: t.quote ? `> ${t.quote.text.replace(/\n/g, '\n> ')}\n\n${t.content}` : t.content,
+    }));
+
+    let resp: Response;
     try {
-      let result = await backOff(call, {
-        numOfAttempts: 5,
-        startingDelay: 2000,
-        timeMultiple:  2,
-        maxDelay:      20000,
-        retry:         isRetryable,
+      resp = await fetch(`${API_BASE}/api/chat/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ topic, messages, lesson, profile: profileStore.profile }),
+        signal,
       });
-      result = sanitize(result, type);
-      this.cache.set(cacheKey, result);
-      return result;
-    } catch (err: any) {
+    } catch (err) {
+      if (signal?.aborted) return;
       console.error('AI service error:', err);
-      throw new Error(formatError(err));
+      throw new Error(Errors.network);
     }
+    yield* readStream(resp, signal);
   }
 }
 
@@ -0,0 +1,99 @@
+import type { User, UserRole } from '../types';
+
+/** Base URL of the server; empty means same origin (Vite proxies /api in dev) */
+const API_BASE = import.meta.env.VITE_API_BASE_URL ?? '';
+
+/** Thrown when the server refuses a sign-in, sign-up or account request */
+export class AuthError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/** Call an account endpoint with the session cookie, returning its JSON body */
+export async function accountRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  let resp: Response;
+  try {
+    resp = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      credentials: 'include',
+      headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+    });
+  } catch {
+    throw new AuthError('Could not reach the learning server. Check your connection and retry.');
+  }
+  const data = await resp.json().catch(() => ({})) as T & { error?: string };
+  if (!resp.ok) throw new AuthError(data.error ?? 'Something went wrong. Please retry.', resp.status);
+  return data;
+}
+
+/**
+ * The signed-in user, if any. The session itself is an HttpOnly cookie set by
+ * the server; this store only mirrors who it belongs to.
+ */
+export class AuthStore {
+  private current: User | null = null;
+  private checked = false;
+  private listeners = new Set<() => void>();
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private set(user: User | null) {
+    this.current = user;
+    this.checked = true;
+    this.listeners.forEach(l => l());
+  }
+
+  get user(): User | null {
+    return this.current;
+  }
+
+  /** False until the server has been asked whether a session exists */
+  get ready(): boolean {
+    return this.checked;
+  }
+
+  hasRole(role: UserRole): boolean {
+    return this.current?.role === role;
+  }
+
+  /** Pick up a session left by an earlier visit */
+  async refresh(): Promise<void> {
+    try {
+      const { user } = await accountRequest<{ user: User }>('/api/auth/me');
+      this.set(user);
+    } catch {
+      this.set(null);
+    }
+  }
+
+  async signIn(email: string, password: string): Promise<User> {
+    const { user } = await accountRequest<{ user: User }>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+    this.set(user);
+    return user;
+  }
+
+  /** Create an account and sign in; a valid teacher code makes it a teacher account */
+  async register(email: string, password: string, teacherCode?: string): Promise<User> {
+    const { user } = await accountRequest<{ user: User }>('/api/auth/register', {
+      method: 'POST',
+      body: JSON.stringify({ email, password, teacherCode }),
+    });
+    this.set(user);
+    return user;
+  }
+
+  async signOut(): Promise<void> {
+    await accountRequest('/api/auth/logout', { method: 'POST' }).catch(() => {});
+    this.set(null);
+  }
+}
+
+export const authStore = new AuthStore();
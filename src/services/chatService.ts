@@ -0,0 +1,111 @@
+import type { ChatTurn } from '../types';
+import { combineDeletions, type Deletions } from './deletions';
+
+const STORAGE_KEY = 'chatThreads';
+/** When each topic's thread was last cleared, so older turns synced from elsewhere stay gone */
+const CLEARED_KEY = 'chatThreads.cleared';
+/** Oldest turns are dropped beyond this so localStorage stays small */
+const MAX_TURNS_PER_TOPIC = 100;
+
+type Threads = Record<string, ChatTurn[]>;
+
+/** Tutor chat threads, one per topic id, persisted in localStorage */
+export class ChatStore {
+  private threads: Threads;
+  private cleared: Deletions;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    try {
+      this.threads = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Threads;
+    } catch {
+      this.threads = {};
+    }
+    try {
+      this.cleared = JSON.parse(localStorage.getItem(CLEARED_KEY) ?? '{}') as Deletions;
+    } catch {
+      this.cleared = {};
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private save() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.threads));
+    localStorage.setItem(CLEARED_KEY, JSON.stringify(this.cleared));
+    this.listeners.forEach(l => l());
+  }
+
+  /** Turns of a thread that are newer than its last clear */
+  private sinceCleared(topicId: string, turns: ChatTurn[]): ChatTurn[] {
+    const clearedAt = this.cleared[topicId];
+    return clearedAt === undefined ? turns : turns.filter(t => t.createdAt > clearedAt);
+  }
+
+  getThread(topicId: string): ChatTurn[] {
+    return this.threads[topicId] ?? [];
+  }
+
+  /** Every thread, keyed by topic id */
+  all(): Threads {
+    return this.threads;
+  }
+
+  append(topicId: string, turn: ChatTurn) {
+    this.threads = {
+      ...this.threads,
+      [topicId]: [...this.getThread(topicId), turn].slice(-MAX_TURNS_PER_TOPIC),
+    };
+    this.save();
+  }
+
+  /** When each topic's thread was cleared, keyed by topic id */
+  deletions(): Deletions {
+    return this.cleared;
+  }
+
+  /** Add turns from elsewhere, skipping ones already in the thread or older than its last clear */
+  merge(topicId: string, turns: ChatTurn[]) {
+    const known = new Set(this.getThread(topicId).map(t => t.id));
+    const merged = [...this.getThread(topicId), ...this.sinceCleared(topicId, turns).filter(t => !known.has(t.id))]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(-MAX_TURNS_PER_TOPIC);
+    this.threads = { ...this.threads, [topicId]: merged };
+    this.save();
+  }
+
+  /** Apply clears made elsewhere, dropping the turns they removed */
+  mergeDeletions(cleared: Deletions) {
+    this.cleared = combineDeletions(this.cleared, cleared);
+    const threads: Threads = {};
+    for (const [topicId, turns] of Object.entries(this.threads)) {
+      const kept = this.sinceCleared(topicId, turns);
+      if (kept.length > 0) threads[topicId] = kept;
+    }
+    this.threads = threads;
+    this.save();
+  }
+
+  clear(topicId: string) {
+    const rest = { ...this.threads };
+    delete rest[topicId];
+    this.threads = rest;
+    this.cleared = { ...this.cleared, [topicId]: Date.now() };
+    this.save();
+  }
+
+  /** Drop every thread, and the record of clears, from this device only */
+  clearAll() {
+    this.threads = {};
+    this.cleared = {};
+    this.save();
+  }
+}
+
+export const chatStore = new ChatStore();
+
+export const newTurnId = () =>
+  `turn-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,158 @@
+import type { ConceptEdge, ConceptMap, ConceptNode, ConceptRole, Topic } from '../types';
+
+const ROLES: readonly ConceptRole[] = ['topic', 'prerequisite', 'related', 'advanced'];
+const MAX_NODES = 24;
+
+/** Thrown when generated concept-map JSON does not match the schema */
+export class ConceptMapError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid concept map: ${issues.join('; ')}`);
+    this.name = 'ConceptMapError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Parse generated concept-map JSON, tolerating prose or code fences around
+ * the object. Throws ConceptMapError listing every schema violation.
+ */
+export function parseConceptMap(text: string): ConceptMap {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+  } catch {
+    throw new ConceptMapError(['the response is not a JSON object']);
+  }
+  if (!isObject(raw)) throw new ConceptMapError(['the response is not a JSON object']);
+
+  const issues: string[] = [];
+  if (!isText(raw.title)) issues.push('title is required');
+  if (!Array.isArray(raw.nodes) || raw.nodes.length === 0) {
+    throw new ConceptMapError([...issues, 'nodes must be a non-empty list']);
+  }
+  if (raw.nodes.length > MAX_NODES) issues.push(`nodes must list at most ${MAX_NODES} concepts`);
+
+  const ids = new Set<string>();
+  raw.nodes.forEach((node, i) => {
+    const where = `nodes[${i}]`;
+    if (!isObject(node)) {
+      issues.push(`${where} must be an object`);
+      return;
+    }
+    if (!isText(node.id)) issues.push(`${where}.id is required`);
+    else if (ids.has(node.id)) issues.push(`${where}.id "${node.id}" is used twice`);
+    else ids.add(node.id);
+    if (!isText(node.label)) issues.push(`${where}.label is required`);
+    if (!ROLES.includes(node.role as ConceptRole)) issues.push(`${where}.role must be one of ${ROLES.join(', ')}`);
+    if (node.note !== undefined && typeof node.note !== 'string') issues.push(`${where}.note must be a string`);
+  });
+  if (raw.nodes.filter(n => isObject(n) && n.role === 'topic').length !== 1) {
+    issues.push('exactly one node must have the role "topic"');
+  }
+
+  if (!Array.isArray(raw.edges)) {
+    issues.push('edges must be a list');
+  } else {
+    raw.edges.forEach((edge, i) => {
+      const where = `edges[${i}]`;
+      if (!isObject(edge)) issues.push(`${where} must be an object`);
+      else if (!ids.has(edge.from as string) || !ids.has(edge.to as string)) {
+        issues.push(`${where} must connect two listed nodes`);
+      }
+    });
+  }
+  if (raw.studyPath !== undefined
+    && !(Array.isArray(raw.studyPath) && raw.studyPath.every(id => ids.has(id as string)))) {
+    issues.push('studyPath must list node ids');
+  }
+  if (issues.length > 0) throw new ConceptMapError(issues);
+  return raw as unknown as ConceptMap;
+}
+
+const normalise = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Tie the generated map to the curriculum: the centre node becomes `topic`,
+ * nodes named like one of `candidates` link to it (earlier candidates win
+ * when titles clash), and every related topic the map left out is added
+ * beside the centre.
+ */
+export function mergeCurriculum(map: ConceptMap, topic: Topic, related: Topic[], candidates: Topic[]): ConceptMap {
+  const byTitle = new Map<string, Topic>();
+  for (const t of candidates) {
+    const key = normalise(t.title);
+    if (!byTitle.has(key)) byTitle.set(key, t);
+  }
+
+  const nodes: ConceptNode[] = map.nodes.map(node => ({
+    ...node,
+    topicId: node.role === 'topic' ? topic.id : byTitle.get(normalise(node.label))?.id,
+  }));
+  const edges: ConceptEdge[] = [...map.edges];
+  const centre = nodes.find(n => n.role === 'topic')!;
+  const linked = new Set(nodes.map(n => n.topicId));
+  for (const t of related) {
+    if (linked.has(t.id)) continue;
+    const id = `topic:${t.id}`;
+    nodes.push({ id, label: t.title, role: 'related', topicId: t.id });
+    edges.push({ from: centre.id, to: id, label: 'related to' });
+  }
+  return { ...map, nodes, edges };
+}
+
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 52;
+const COLUMN_GAP = 260;
+const ROW_GAP = 84;
+
+/** Column of each role, left to right: what comes before, the topic, what it leads to */
+const COLUMN: Record<ConceptRole, number> = { prerequisite: 0, topic: 1, related: 1, advanced: 2 };
+
+export interface ConceptLayout {
+  /** Centre of each node, by id */
+  positions: Record<string, { x: number; y: number }>;
+  /** Box around every node, padded */
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Place prerequisites left of the topic and advanced uses right of it, each
+ * column centred vertically. Related concepts share the middle column, split
+ * above and below the topic.
+ */
+export function layoutConceptMap(map: ConceptMap): ConceptLayout {
+  const columns: ConceptNode[][] = [[], [], []];
+  for (const node of map.nodes) {
+    if (node.role !== 'topic') columns[COLUMN[node.role]].push(node);
+  }
+  const centre = map.nodes.find(n => n.role === 'topic');
+  if (centre) {
+    const middle = columns[1];
+    middle.splice(Math.floor(middle.length / 2), 0, centre);
+  }
+
+  const positions: ConceptLayout['positions'] = {};
+  columns.forEach((column, c) => {
+    column.forEach((node, r) => {
+      positions[node.id] = { x: c * COLUMN_GAP, y: (r - (column.length - 1) / 2) * ROW_GAP };
+    });
+  });
+
+  const pad = 24;
+  const xs = Object.values(positions).map(p => p.x);
+  const ys = Object.values(positions).map(p => p.y);
+  const minX = Math.min(...xs) - NODE_WIDTH / 2 - pad;
+  const minY = Math.min(...ys) - NODE_HEIGHT / 2 - pad;
+  return {
+    positions,
+    bounds: {
+      x: minX,
+      y: minY,
+      width: Math.max(...xs) + NODE_WIDTH / 2 + pad - minX,
+      height: Math.max(...ys) + NODE_HEIGHT / 2 + pad - minY,
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import type { PromptType } from '../types';
+import { openDb, request } from './idb';
+
+/** One generated lesson as stored in the cache */
+export interface CachedLesson {
+  key: string;
+  topic: string;
+  type: PromptType;
+  model: string;
+  templateVersion: number;
+  audience: string;
+  /** Subject whose templates generated the lesson */
+  subject?: string;
+  /** Distinguishes answers to different questions on the same topic */
+  variant?: string;
+  /** The question a follow-up answer responds to, for display */
+  question?: string;
+  content: string;
+  /** Approximate size in bytes (UTF-16) */
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export interface CacheKeyParts {
+  topic: string;
+  type: PromptType;
+  model: string;
+  templateVersion: number;
+  audience: string;
+  subject?: string;
+  variant?: string;
+  question?: string;
+}
+
+export interface CacheLimits {
+  /** Entries kept in the in-memory tier */
+  memoryEntries: number;
+  /** Entries kept in IndexedDB */
+  maxEntries: number;
+  /** Total bytes kept in IndexedDB */
+  maxBytes: number;
+  /** Age after which an entry is refetched when online (still served offline) */
+  ttlMs: number;
+}
+
+const DEFAULT_LIMITS: CacheLimits = {
+  memoryEntries: 30,
+  maxEntries:    300,
+  maxBytes:      10 * 1024 * 1024,
+  ttlMs:         7 * 24 * 3600 * 1000,
+};
+
+const DB_NAME = 'free-ed-cache';
+const DB_VERSION = 1;
+const STORE = 'lessons';
+
+export const cacheKey = (p: CacheKeyParts) =>
+  [`v${p.templateVersion}`, p.model, p.audience, p.subject, p.topic, p.type, p.variant]
+    .filter(Boolean)
+    .join('::');
+
+/**
+ * Two-tier cache for generated lessons: a small LRU map in memory in front of
+ * IndexedDB. IndexedDB failures (private mode, quota) degrade to memory only.
+ */
+export class ContentCache {
+  private memory = new Map<string, CachedLesson>();
+  private db: Promise<IDBDatabase | null>;
+  private listeners = new Set<() => void>();
+
+  constructor(private limits: CacheLimits = DEFAULT_LIMITS) {
+    this.db = openDb(DB_NAME, DB_VERSION, db => {
+      const store = db.createObjectStore(STORE, { keyPath: 'key' });
+      store.createIndex('lastAccess', 'lastAccess');
+    });
+  }
+
+  /** Notified whenever entries are added or removed */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(l => l());
+  }
+
+  private remember(entry: CachedLesson) {
+    this.memory.delete(entry.key);
+    this.memory.set(entry.key, entry);
+    while (this.memory.size > this.limits.memoryEntries) {
+      this.memory.delete(this.memory.keys().next().value as string);
+    }
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+    const db = await this.db;
+    return db ? db.transaction(STORE, mode).objectStore(STORE) : null;
+  }
+
+  /**
+   * Look up a lesson. Entries older than the TTL are skipped unless
+   * `allowStale` is set, which is how lessons stay readable offline.
+   */
+  async get(key: string, { allowStale = false } = {}): Promise<CachedLesson | null> {
+    let entry = this.memory.get(key) ?? null;
+    if (!entry) {
+      try {
+        const store = await this.store('readonly');
+        entry = store ? (await request(store.get(key)) as CachedLesson | undefined) ?? null : null;
+      } catch (err) {
+        console.warn('Cache read failed:', err);
+      }
+    }
+    if (!entry) return null;
+    if (!allowStale && Date.now() - entry.createdAt > this.limits.ttlMs) return null;
+
+    entry = { ...entry, lastAccess: Date.now() };
+    this.remember(entry);
+    this.store('readwrite').then(s => s?.put(entry)).catch(() => {});
+    return entry;
+  }
+
+  async set(parts: CacheKeyParts, content: string): Promise<void> {
+    const now = Date.now();
+    const entry: CachedLesson = {
+      ...parts,
+      key: cacheKey(parts),
+      content,
+      size: content.length * 2,
+      createdAt: now,
+      lastAccess: now,
+    };
+    this.remember(entry);
+    try {
+      const store = await this.store('readwrite');
+      if (store) {
+        await request(store.put(entry));
+        await this.evict();
+      }
+    } catch (err) {
+      console.warn('Cache write failed:', err);
+    }
+    this.notify();
+  }
+
+  /** All persisted lessons, most recently used first */
+  async list(): Promise<CachedLesson[]> {
+    const store = await this.store('readonly');
+    if (!store) return [...this.memory.values()].reverse();
+    const all = await request(store.getAll()) as CachedLesson[];
+    return all.sort((a, b) => b.lastAccess - a.lastAccess);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+    const store = await this.store('readwrite');
+    if (store) await request(store.delete(key));
+    this.notify();
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    const store = await this.store('readwrite');
+    if (store) await request(store.clear());
+    this.notify();
+  }
+
+  /** Drop least-recently-used entries until both limits hold */
+  private async evict() {
+    const entries = (await this.list()).reverse();
+    let bytes = entries.reduce((sum, e) => sum + e.size, 0);
+    let count = entries.length;
+    const doomed: string[] = [];
+    for (const e of entries) {
+      if (count <= this.limits.maxEntries && bytes <= this.limits.maxBytes) break;
+      doomed.push(e.key);
+      bytes -= e.size;
+      count--;
+    }
+    if (doomed.length === 0) return;
+    const store = await this.store('readwrite');
+    doomed.forEach(key => {
+      this.memory.delete(key);
+      store?.delete(key);
+    });
+  }
+}
+
+export const contentCache = new ContentCache();
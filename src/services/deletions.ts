@@ -0,0 +1,18 @@
+/** When each deleted record was deleted, by id, so that syncing doesn't bring it back */
+export type Deletions = Record<string, number>;
+
+/** Deletions are forgotten after this; a device offline for longer may bring the record back */
+const KEEP_DELETIONS_MS = 180 * 24 * 60 * 60 * 1000;
+
+/** Deletions from both sides, keeping the latest time for each id and dropping expired ones */
+export function combineDeletions(ours: Deletions, theirs: Deletions, now = Date.now()): Deletions {
+  const combined: Deletions = {};
+  for (const [id, at] of [...Object.entries(ours), ...Object.entries(theirs)]) {
+    if (now - at < KEEP_DELETIONS_MS) combined[id] = Math.max(combined[id] ?? 0, at);
+  }
+  return combined;
+}
+
+/** Whether a record last changed at `changedAt` has been deleted since */
+export const wasDeleted = (deletions: Deletions, id: string, changedAt: number): boolean =>
+  deletions[id] !== undefined && deletions[id] >= changedAt;
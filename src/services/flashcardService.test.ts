@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Flashcard } from '../types';
+import { FlashcardStore } from './flashcardService';
+import { newReviewState } from './spacedRepetition';
+
+const card = (id: string, front: string, updatedAt: number): Flashcard => ({
+  id,
+  subjectId: 'physics',
+  topicId: 'units',
+  front,
+  back: 'answer',
+  source: 'lesson',
+  createdAt: 1,
+  updatedAt,
+  review: newReviewState(1),
+});
+
+describe('FlashcardStore.merge', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps the copy of a card that changed last', () => {
+    const store = new FlashcardStore();
+    store.merge([card('a', 'What is a metre?', 5)]);
+    store.merge([card('a', 'What is a metre?', 3), card('b', 'What is a second?', 3)]);
+    expect(store.all().map(c => [c.id, c.updatedAt])).toEqual([['a', 5], ['b', 3]]);
+  });
+
+  it('collapses the same card made on two devices into the one changed last', () => {
+    const store = new FlashcardStore();
+    store.merge([card('ours', 'What is a metre?', 2)]);
+    store.merge([card('theirs', '  what is a METRE? ', 4)]);
+    expect(store.all().map(c => c.id)).toEqual(['theirs']);
+  });
+
+  it('picks the same duplicate whichever side merges', () => {
+    const mine = new FlashcardStore();
+    mine.merge([card('card-b', 'What is a metre?', 2)]);
+    mine.merge([card('card-a', 'What is a metre?', 2)]);
+    localStorage.clear();
+    const yours = new FlashcardStore();
+    yours.merge([card('card-a', 'What is a metre?', 2)]);
+    yours.merge([card('card-b', 'What is a metre?', 2)]);
+    expect(mine.all().map(c => c.id)).toEqual(['card-a']);
+    expect(yours.all().map(c => c.id)).toEqual(['card-a']);
+  });
+
+  it('leaves a card removed after its last change removed', () => {
+    const now = Date.now();
+    const store = new FlashcardStore();
+    store.merge([card('a', 'What is a metre?', now - 2)], { a: now - 1 });
+    store.merge([card('b', 'What is a second?', now - 2)], { b: now - 3 });
+    expect(store.all().map(c => c.id)).toEqual(['b']);
+  });
+});
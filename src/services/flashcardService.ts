@@ -0,0 +1,149 @@
+import type { Flashcard } from '../types';
+import { combineDeletions, wasDeleted, type Deletions } from './deletions';
+import type { FlashcardDraft } from './flashcards';
+import { endOfDay, newReviewState, schedule, type ReviewGrade } from './spacedRepetition';
+
+const STORAGE_KEY = 'flashcards';
+/** Bump when the stored shape changes */
+const FLASHCARDS_VERSION = 1;
+
+interface FlashcardData {
+  version: number;
+  cards: Flashcard[];
+  /** Removed cards, so a sync doesn't bring them back; absent in data saved before syncing respected it */
+  deleted?: Deletions;
+}
+
+const newId = () => `card-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Cards with the same text on the same topic count as duplicates */
+const sameCard = (a: { topicId: string; front: string }, b: { topicId: string; front: string }) =>
+  a.topicId === b.topicId && a.front.trim().toLowerCase() === b.front.trim().toLowerCase();
+
+/** Whether `a` should win over a duplicate `b`; both sides of a sync pick the same one */
+const newer = (a: Flashcard, b: Flashcard) =>
+  a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : a.id < b.id;
+
+/** Flashcards and their review schedules, persisted in localStorage */
+export class FlashcardStore {
+  private cards: Flashcard[];
+  private deleted: Deletions;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as FlashcardData | null;
+      const current = stored?.version === FLASHCARDS_VERSION ? stored : null;
+      this.cards = current?.cards ?? [];
+      this.deleted = current?.deleted ?? {};
+    } catch {
+      this.cards = [];
+      this.deleted = {};
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private save(cards: Flashcard[], deleted = this.deleted) {
+    this.cards = cards;
+    this.deleted = deleted;
+    const data: FlashcardData = { version: FLASHCARDS_VERSION, cards, deleted };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    this.listeners.forEach(l => l());
+  }
+
+  all(): Flashcard[] {
+    return this.cards;
+  }
+
+  forTopic(topicId: string): Flashcard[] {
+    return this.cards.filter(c => c.topicId === topicId);
+  }
+
+  /** Today's review queue across every subject, most overdue first */
+  due(now = Date.now()): Flashcard[] {
+    const cutoff = endOfDay(now);
+    return this.cards.filter(c => c.review.due <= cutoff).sort((a, b) => a.review.due - b.review.due);
+  }
+
+  /** Add new cards for a topic, skipping ones it already has; returns how many were added */
+  add(
+    subjectId: string,
+    topicId: string,
+    drafts: FlashcardDraft[],
+    source: Flashcard['source']
+  ): number {
+    const now = Date.now();
+    const added: Flashcard[] = [];
+    for (const draft of drafts) {
+      const card = { topicId, front: draft.front };
+      if ([...this.cards, ...added].some(c => sameCard(c, card))) continue;
+      added.push({
+        id: newId(),
+        subjectId,
+        topicId,
+        front: draft.front,
+        back: draft.back,
+        source,
+        createdAt: now,
+        updatedAt: now,
+        review: newReviewState(now),
+      });
+    }
+    if (added.length > 0) this.save([...this.cards, ...added]);
+    return added.length;
+  }
+
+  edit(cardId: string, text: FlashcardDraft) {
+    this.save(this.cards.map(c => (c.id === cardId ? { ...c, ...text, updatedAt: Date.now() } : c)));
+  }
+
+  remove(cardId: string) {
+    this.save(this.cards.filter(c => c.id !== cardId), { ...this.deleted, [cardId]: Date.now() });
+  }
+
+  review(cardId: string, grade: ReviewGrade) {
+    const now = Date.now();
+    this.save(this.cards.map(c =>
+      c.id === cardId ? { ...c, review: schedule(c.review, grade, now), updatedAt: now } : c
+    ));
+  }
+
+  /** Removed cards and when they were removed, keyed by card id */
+  deletions(): Deletions {
+    return this.deleted;
+  }
+
+  /**
+   * Combine cards from elsewhere, keeping whichever copy of each card changed
+   * last; a card removed on either side after its last change stays removed.
+   * Devices that made cards for the same lesson give them different ids, so
+   * duplicates are then collapsed the same way, ties going to the lower id.
+   */
+  merge(cards: Flashcard[], deleted: Deletions = {}) {
+    const deletions = combineDeletions(this.deleted, deleted);
+    const byId = new Map(this.cards.map(c => [c.id, c]));
+    for (const card of cards) {
+      const ours = byId.get(card.id);
+      if (!ours || card.updatedAt > ours.updatedAt) byId.set(card.id, card);
+    }
+    const kept: Flashcard[] = [];
+    for (const card of byId.values()) {
+      if (wasDeleted(deletions, card.id, card.updatedAt)) continue;
+      const i = kept.findIndex(c => sameCard(c, card));
+      if (i === -1) kept.push(card);
+      else if (newer(card, kept[i])) kept[i] = card;
+    }
+    this.save(kept, deletions);
+  }
+
+  /** Drop every card, and the record of removals, from this device only */
+  clear() {
+    this.save([], {});
+  }
+}
+
+export const flashcardStore = new FlashcardStore();
@@ -0,0 +1,77 @@
+import type { LessonSection } from './lessonSections';
+
+/** A card before it is scheduled and stored */
+export interface FlashcardDraft {
+  front: string;
+  back: string;
+}
+
+/** Lesson sections whose bullet points are worth remembering */
+const CARD_SECTIONS = new Set(['Core Concepts', 'Takeaways', 'Key Points', 'Formulas']);
+const MAX_CARDS = 30;
+/** Sentences shorter than this make poor "complete the sentence" cards */
+const MIN_CLOZE_WORDS = 6;
+
+/** "Term: description", "**Term** — description", … */
+const DEFINITION = /^\*{0,2}([^:*]{2,80}?)\*{0,2}\s*(?::|—|–|\s-\s)\s*(.+)$/;
+const BOLD = /\*\*([^*]+)\*\*/;
+
+/** Top-level bullet and numbered items of a section body */
+function listItems(body: string): string[] {
+  return body
+    .split('\n')
+    .map(line => line.match(/^(?:[-*+]|\d+[.)])\s+(.+)$/)?.[1]?.trim())
+    .filter((item): item is string => !!item);
+}
+
+/** Turn one bullet into a card: definitions become term → meaning, bold terms become blanks */
+function cardFromItem(item: string, topicTitle: string): FlashcardDraft | null {
+  const definition = item.match(DEFINITION);
+  if (definition) return { front: definition[1].trim(), back: definition[2].trim() };
+
+  const bold = item.match(BOLD);
+  if (bold) return { front: item.replace(BOLD, '_____'), back: bold[1].trim() };
+
+  const words = item.split(/\s+/);
+  if (words.length < MIN_CLOZE_WORDS) return null;
+  return {
+    front: `${topicTitle}: complete the point — ${words.slice(0, Math.ceil(words.length / 2)).join(' ')} …`,
+    back: item,
+  };
+}
+
+/** Cards cut from the Core Concepts and Takeaways of a parsed lesson */
+export function extractFlashcards(sections: LessonSection[], topicTitle: string): FlashcardDraft[] {
+  return sections
+    .filter(section => CARD_SECTIONS.has(section.title))
+    .flatMap(section => listItems(section.body))
+    .map(item => cardFromItem(item, topicTitle))
+    .filter((card): card is FlashcardDraft => card !== null)
+    .slice(0, MAX_CARDS);
+}
+
+/** Thrown when generated flashcard JSON does not match the expected shape */
+export class FlashcardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlashcardError';
+  }
+}
+
+/** Parse the `flashcards` prompt's JSON array, tolerating text around it */
+export function parseFlashcardDrafts(text: string): FlashcardDraft[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.slice(text.indexOf('['), text.lastIndexOf(']') + 1));
+  } catch {
+    throw new FlashcardError('the response is not a JSON array');
+  }
+  if (!Array.isArray(raw) || raw.length === 0) throw new FlashcardError('the response has no cards');
+  return raw.slice(0, MAX_CARDS).map((card, i) => {
+    const { front, back } = (card ?? {}) as Record<string, unknown>;
+    if (typeof front !== 'string' || !front.trim() || typeof back !== 'string' || !back.trim()) {
+      throw new FlashcardError(`card ${i + 1} needs a front and a back`);
+    }
+    return { front: front.trim(), back: back.trim() };
+  });
+}
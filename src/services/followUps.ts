@@ -0,0 +1,57 @@
+import type { FollowUpCategory, FollowUpQuestion, PracticeDifficulty, PromptType } from '../types';
+
+export const FOLLOW_UP_CATEGORIES: readonly FollowUpCategory[] = ['explanation', 'example', 'question', 'summary'];
+const DIFFICULTIES: readonly PracticeDifficulty[] = ['easy', 'medium', 'hard'];
+
+/** Prompt type that answers a follow-up of each category */
+export const followUpPromptType: Record<FollowUpCategory, PromptType> = {
+  explanation: 'follow-up-answer',
+  example:     'follow-up-example',
+  question:    'follow-up-answer',
+  summary:     'follow-up-answer',
+};
+
+/** Thrown when generated follow-up JSON does not match the schema */
+export class FollowUpError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid follow-up questions: ${issues.join('; ')}`);
+    this.name = 'FollowUpError';
+  }
+}
+
+/**
+ * Parse the `follow-up` prompt's JSON array, tolerating text around it.
+ * Ids are reassigned per topic; throws FollowUpError listing every entry
+ * that lacks a question, a known category or a difficulty.
+ */
+export function parseFollowUps(text: string, topicId = ''): FollowUpQuestion[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.slice(text.indexOf('['), text.lastIndexOf(']') + 1));
+  } catch {
+    throw new FollowUpError(['the response is not a JSON array']);
+  }
+  if (!Array.isArray(raw) || raw.length === 0) throw new FollowUpError(['the response has no questions']);
+
+  const issues: string[] = [];
+  const questions = raw.map((entry, i): FollowUpQuestion => {
+    const { question, contentType, difficulty } = (entry ?? {}) as Record<string, unknown>;
+    const where = `questions[${i}]`;
+    if (typeof question !== 'string' || !question.trim()) issues.push(`${where}.question is required`);
+    if (!FOLLOW_UP_CATEGORIES.includes(contentType as FollowUpCategory)) {
+      issues.push(`${where}.contentType must be one of ${FOLLOW_UP_CATEGORIES.join(', ')}`);
+    }
+    if (!DIFFICULTIES.includes(difficulty as PracticeDifficulty)) {
+      issues.push(`${where}.difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+    }
+    return {
+      id: `followup-${i}`,
+      topicId,
+      question: String(question).trim(),
+      contentType: contentType as FollowUpCategory,
+      difficulty: difficulty as PracticeDifficulty,
+    };
+  });
+  if (issues.length > 0) throw new FollowUpError(issues);
+  return questions;
+}
@@ -0,0 +1,245 @@
+import type { FollowUpQuestion, SessionLesson, UserSession } from '../types';
+import { combineDeletions, wasDeleted, type Deletions } from './deletions';
+import { openDb, request } from './idb';
+
+const DB_NAME = 'free-ed-history';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const LESSONS = 'lessons';
+/** When each session was deleted, so a sync doesn't restore it */
+const DELETIONS_KEY = 'historyDeletions';
+
+/** A pause longer than this starts a new session */
+const SESSION_GAP_MS = 30 * 60 * 1000;
+/** Oldest sessions, with their lessons, are dropped beyond this */
+const MAX_SESSIONS = 100;
+
+type StoreName = typeof SESSIONS | typeof LESSONS;
+
+/** The session with `topicId` marked as the latest topic */
+const withTopic = (session: UserSession, topicId: string): UserSession => ({
+  ...session,
+  updatedAt: Date.now(),
+  lastTopicId: topicId,
+  viewedTopics: session.viewedTopics.includes(topicId)
+    ? session.viewedTopics
+    : [...session.viewedTopics, topicId],
+});
+
+const newId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Study sessions and the lessons generated in them, kept in IndexedDB (or in
+ * memory where that is unavailable). Writes are queued so that events
+ * recorded in quick succession land in the same session.
+ */
+export class HistoryStore {
+  private db: Promise<IDBDatabase | null>;
+  private memory: Record<StoreName, Map<string, unknown>> = {
+    [SESSIONS]: new Map(),
+    [LESSONS]: new Map(),
+  };
+  private queue: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<() => void>();
+  private deleted: Deletions;
+
+  constructor() {
+    this.db = openDb(DB_NAME, DB_VERSION, db => {
+      db.createObjectStore(SESSIONS, { keyPath: 'id' });
+      db.createObjectStore(LESSONS, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+    });
+    try {
+      this.deleted = JSON.parse(localStorage.getItem(DELETIONS_KEY) ?? '{}') as Deletions;
+    } catch {
+      this.deleted = {};
+    }
+  }
+
+  private saveDeletions(deleted: Deletions) {
+    this.deleted = deleted;
+    localStorage.setItem(DELETIONS_KEY, JSON.stringify(deleted));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(l => l());
+  }
+
+  private async store(name: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+    const db = await this.db;
+    return db ? db.transaction(name, mode).objectStore(name) : null;
+  }
+
+  private async getAll<T>(name: StoreName): Promise<T[]> {
+    const store = await this.store(name, 'readonly');
+    return store ? await request(store.getAll()) as T[] : [...this.memory[name].values()] as T[];
+  }
+
+  private async get<T>(name: StoreName, id: string): Promise<T | null> {
+    const store = await this.store(name, 'readonly');
+    const value = store ? await request(store.get(id)) : this.memory[name].get(id);
+    return (value as T | undefined) ?? null;
+  }
+
+  private async put<T extends { id: string }>(name: StoreName, value: T) {
+    const store = await this.store(name, 'readwrite');
+    if (store) await request(store.put(value));
+    else this.memory[name].set(value.id, value);
+  }
+
+  private async remove(name: StoreName, id: string) {
+    const store = await this.store(name, 'readwrite');
+    if (store) await request(store.delete(id));
+    else this.memory[name].delete(id);
+  }
+
+  /** Run `task` after every earlier write, notifying listeners when it is done */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(err => console.warn('History write failed:', err));
+    return run.then(result => {
+      this.notify();
+      return result;
+    });
+  }
+
+  /** The session still in progress, or a fresh one after a long pause */
+  private async currentSession(): Promise<UserSession> {
+    const now = Date.now();
+    const [latest] = await this.sessions();
+    if (latest && now - latest.updatedAt < SESSION_GAP_MS) return latest;
+
+    await this.prune();
+    return { id: newId('session'), startedAt: now, updatedAt: now, viewedTopics: [], generatedContent: [] };
+  }
+
+  recordTopicView(topicId: string): Promise<UserSession> {
+    return this.enqueue(async () => {
+      const updated = withTopic(await this.currentSession(), topicId);
+      await this.put(SESSIONS, updated);
+      return updated;
+    });
+  }
+
+  /** Keep a finished lesson; an identical one already in the session is reused */
+  recordLesson(lesson: Omit<SessionLesson, 'id' | 'sessionId' | 'createdAt'>): Promise<SessionLesson> {
+    return this.enqueue(async () => {
+      const session = await this.currentSession();
+      const existing = (await this.lessons(session.id)).find(l =>
+        l.topicId === lesson.topicId &&
+        l.promptType === lesson.promptType &&
+        l.question === lesson.question &&
+        l.content === lesson.content
+      );
+      const saved = existing ?? { ...lesson, id: newId('lesson'), sessionId: session.id, createdAt: Date.now() };
+      if (!existing) await this.put(LESSONS, saved);
+
+      const updated: UserSession = {
+        ...withTopic(session, lesson.topicId),
+        generatedContent: existing ? session.generatedContent : [...session.generatedContent, saved.id],
+      };
+      await this.put(SESSIONS, updated);
+      return saved;
+    });
+  }
+
+  /** Store the follow-up questions suggested after a lesson */
+  attachFollowUps(lessonId: string, followUps: FollowUpQuestion[]): Promise<void> {
+    return this.enqueue(async () => {
+      const lesson = await this.getLesson(lessonId);
+      if (lesson) await this.put(LESSONS, { ...lesson, followUps });
+    });
+  }
+
+  /** Add a session and its lessons from elsewhere, replacing any with the same id (even a deleted one) */
+  restore(session: UserSession, lessons: SessionLesson[]): Promise<void> {
+    return this.enqueue(async () => {
+      const deleted = { ...this.deleted };
+      delete deleted[session.id];
+      this.saveDeletions(deleted);
+      await this.removeSession(session.id);
+      for (const lesson of lessons) await this.put(LESSONS, lesson);
+      await this.put(SESSIONS, session);
+    });
+  }
+
+  /** All sessions, most recent first */
+  async sessions(): Promise<UserSession[]> {
+    const all = await this.getAll<UserSession>(SESSIONS);
+    return all.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /** Lessons of one session, oldest first */
+  async lessons(sessionId: string): Promise<SessionLesson[]> {
+    const store = await this.store(LESSONS, 'readonly');
+    const all = store
+      ? await request(store.index('sessionId').getAll(sessionId)) as SessionLesson[]
+      : (await this.getAll<SessionLesson>(LESSONS)).filter(l => l.sessionId === sessionId);
+    return all.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  getLesson(lessonId: string): Promise<SessionLesson | null> {
+    return this.get<SessionLesson>(LESSONS, lessonId);
+  }
+
+  /** When each deleted session was deleted, keyed by session id */
+  deletions(): Deletions {
+    return this.deleted;
+  }
+
+  /** Apply deletions made elsewhere, dropping sessions that haven't changed since */
+  mergeDeletions(deleted: Deletions): Promise<void> {
+    return this.enqueue(async () => {
+      this.saveDeletions(combineDeletions(this.deleted, deleted));
+      for (const s of await this.sessions()) {
+        if (this.isDeleted(s)) await this.removeSession(s.id);
+      }
+    });
+  }
+
+  /** Whether `session` was deleted, here or elsewhere, after its last change */
+  isDeleted(session: UserSession): boolean {
+    return wasDeleted(this.deleted, session.id, session.updatedAt);
+  }
+
+  deleteSession(sessionId: string): Promise<void> {
+    return this.enqueue(() => this.deleteSessions([sessionId]));
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(async () => this.deleteSessions((await this.sessions()).map(s => s.id)));
+  }
+
+  /** Drop every session, and the record of deletions, from this device only */
+  forget(): Promise<void> {
+    return this.enqueue(async () => {
+      for (const s of await this.sessions()) await this.removeSession(s.id);
+      this.saveDeletions({});
+    });
+  }
+
+  /** Remove sessions and remember that they were deleted */
+  private async deleteSessions(sessionIds: string[]) {
+    const now = Date.now();
+    this.saveDeletions({ ...this.deleted, ...Object.fromEntries(sessionIds.map(id => [id, now])) });
+    for (const id of sessionIds) await this.removeSession(id);
+  }
+
+  private async removeSession(sessionId: string) {
+    for (const lesson of await this.lessons(sessionId)) await this.remove(LESSONS, lesson.id);
+    await this.remove(SESSIONS, sessionId);
+  }
+
+  /** Make room for a new session */
+  private async prune() {
+    const sessions = await this.sessions();
+    await this.deleteSessions(sessions.slice(MAX_SESSIONS - 1).map(s => s.id));
+  }
+}
+
+export const historyStore = new HistoryStore();
@@ -0,0 +1,28 @@
+/** Wrap an IDBRequest in a promise */
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror   = () => reject(req.error);
+  });
+}
+
+/**
+ * Open a database, resolving to null where IndexedDB is unavailable (private
+ * mode, old browsers) so callers can degrade to memory.
+ */
+export function openDb(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = () => upgrade(req.result);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror   = () => reject(req.error);
+  }).catch(err => {
+    console.warn(`IndexedDB "${name}" unavailable, keeping data in memory only:`, err);
+    return null;
+  });
+}
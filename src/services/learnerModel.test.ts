@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { expectedScore, levelOf, updateAbility } from './learnerModel';
+
+describe('updateAbility', () => {
+  it('leaves the ability alone without results', () => {
+    expect(updateAbility(0.4, 3, [])).toBe(0.4);
+  });
+
+  it('moves by K × (outcome − expected score)', () => {
+    expect(updateAbility(0, 0, [{ correct: true }])).toBeCloseTo(0.4);
+    expect(updateAbility(0, 0, [{ correct: false }])).toBeCloseTo(-0.4);
+  });
+
+  it('rewards a right hard answer more than a right easy one', () => {
+    const hard = updateAbility(0, 0, [{ correct: true, difficulty: 'hard' }]);
+    const easy = updateAbility(0, 0, [{ correct: true, difficulty: 'easy' }]);
+    expect(hard).toBeGreaterThan(easy);
+    expect(easy).toBeGreaterThan(0);
+  });
+
+  it('moves less as answers accumulate', () => {
+    const early = updateAbility(0, 0, [{ correct: true }]);
+    const late = updateAbility(0, 40, [{ correct: true }]);
+    expect(late).toBeLessThan(early);
+    expect(late).toBeCloseTo(0.4 / 3);
+  });
+
+  it('converges towards the observed accuracy', () => {
+    const results = Array.from({ length: 40 }, (_, i) => ({ correct: i % 4 !== 0 }));
+    expect(expectedScore(updateAbility(0, 0, results))).toBeCloseTo(0.75, 1);
+  });
+});
+
+describe('levelOf', () => {
+  it('stays steady until there is enough evidence', () => {
+    expect(levelOf(-3, 2)).toBe('steady');
+    expect(levelOf(-3, 3)).toBe('struggling');
+    expect(levelOf(2, 3)).toBe('strong');
+  });
+});
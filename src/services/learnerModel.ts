@@ -0,0 +1,130 @@
+import type { LearnerLevel, PracticeDifficulty, Topic } from '../types';
+
+/**
+ * Elo-style learner model. Each topic carries an ability estimate on a logit
+ * scale; each question has a fixed difficulty on the same scale. The chance
+ * of a right answer is the logistic of (ability − difficulty), and every
+ * graded answer nudges the ability towards the observed outcome.
+ */
+
+export interface PracticeResult {
+  correct: boolean;
+  /** Unlabelled questions count as medium */
+  difficulty?: PracticeDifficulty;
+}
+
+const QUESTION_DIFFICULTY: Record<PracticeDifficulty, number> = { easy: -1, medium: 0, hard: 1 };
+
+/** Starting ability before any practice: labelled-harder topics start lower */
+const PRIOR_ABILITY: Record<Topic['difficulty'], number> = { Beginner: 0.5, Intermediate: 0, Advanced: -0.5 };
+
+/** Early answers move the estimate a lot, later ones less (K = K0 / (1 + DECAY·n)) */
+const K0 = 0.8;
+const DECAY = 0.05;
+
+/** Answers needed before the model commits to a level */
+const MIN_EVIDENCE = 3;
+/** Mastery below this is struggling, at or above STRONG is strong */
+const STRUGGLING = 0.5;
+const STRONG = 0.8;
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+
+export const priorAbility = (topic: Topic) => PRIOR_ABILITY[topic.difficulty] ?? 0;
+
+/** Chance of answering a question of this difficulty correctly */
+export const expectedScore = (ability: number, difficulty: PracticeDifficulty = 'medium') =>
+  logistic(ability - QUESTION_DIFFICULTY[difficulty]);
+
+/** Ability after a run of graded answers, `answered` being how many came before */
+export function updateAbility(ability: number, answered: number, results: PracticeResult[]): number {
+  return results.reduce((theta, result, i) => {
+    const k = K0 / (1 + DECAY * (answered + i));
+    return theta + k * (Number(result.correct) - expectedScore(theta, result.difficulty));
+  }, ability);
+}
+
+/**
+ * Ability implied by aggregate counts whose order and difficulty are unknown,
+ * e.g. practice recorded before the model existed. Each answer is replayed as
+ * a medium question scored at the overall accuracy.
+ */
+export function abilityFromCounts(prior: number, correct: number, answered: number): number {
+  let theta = prior;
+  for (let i = 0; i < answered; i++) {
+    theta += (K0 / (1 + DECAY * i)) * (correct / answered - expectedScore(theta));
+  }
+  return theta;
+}
+
+/** Mastery as the chance of getting a medium question right, from 0 to 1 */
+export const masteryOf = (ability: number) => expectedScore(ability);
+
+/** Coarse band used to adapt prompts; `steady` until there is enough evidence */
+export function levelOf(ability: number, answered: number): LearnerLevel {
+  if (answered < MIN_EVIDENCE) return 'steady';
+  const mastery = masteryOf(ability);
+  return mastery < STRUGGLING ? 'struggling' : mastery >= STRONG ? 'strong' : 'steady';
+}
+
+/** What the model knows about one topic */
+export interface TopicEstimate {
+  ability: number;
+  answered: number;
+  completed: boolean;
+  viewed: boolean;
+}
+
+export interface Recommendation {
+  topic: Topic;
+  /** Predicted mastery, from 0 to 1 */
+  mastery: number;
+  reason: string;
+}
+
+/** Practice is most productive where the student gets about this share right */
+const TARGET_SUCCESS = 0.7;
+
+/**
+ * Rank unlocked, unfinished topics by how well they suit the student now:
+ * topics where predicted success sits near TARGET_SUCCESS come first, with a
+ * boost for ones already started and for struggling topics that need another
+ * pass. Untouched topics borrow ability from their prerequisites, so strong
+ * foundations make the next step look easier.
+ */
+export function recommendTopics(
+  topics: Topic[],
+  estimate: (topicId: string) => TopicEstimate,
+  prerequisitesOf: (topicId: string) => Topic[],
+  limit = 5
+): Recommendation[] {
+  const scored = topics.flatMap(topic => {
+    const own = estimate(topic.id);
+    const prerequisites = prerequisitesOf(topic.id);
+    if (own.completed || prerequisites.some(p => !estimate(p.id).completed)) return [];
+
+    let ability = own.ability;
+    if (own.answered === 0 && prerequisites.length > 0) {
+      const lift = prerequisites.reduce((sum, p) => sum + estimate(p.id).ability - priorAbility(p), 0);
+      ability += lift / prerequisites.length / 2;
+    }
+    const mastery = masteryOf(ability);
+    const level = levelOf(ability, own.answered);
+
+    let score = 1 - Math.abs(mastery - TARGET_SUCCESS);
+    let reason = prerequisites.length > 0 ? 'Prerequisites done' : 'Good place to start';
+    if (level === 'struggling') {
+      score += 0.3;
+      reason = 'Needs another pass';
+    } else if (own.answered > 0 || own.viewed) {
+      score += 0.2;
+      reason = 'Pick up where you left off';
+    }
+    return [{ topic, mastery, reason, score }];
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ topic, mastery, reason }) => ({ topic, mastery, reason }));
+}
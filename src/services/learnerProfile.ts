@@ -0,0 +1,69 @@
+import type { ExamTarget, GradeLevel, LanguageCode, LearnerProfile, StudyDepth } from '../types';
+
+/** Option values with their display names, in menu order */
+type Options<T extends string> = { value: T; label: string }[];
+
+export const GRADE_OPTIONS: Options<GradeLevel> = [
+  { value: 'class-8',       label: 'Class 8' },
+  { value: 'class-9',       label: 'Class 9' },
+  { value: 'class-10',      label: 'Class 10' },
+  { value: 'class-11',      label: 'Class 11' },
+  { value: 'class-12',      label: 'Class 12' },
+  { value: 'undergraduate', label: 'Undergraduate' },
+  { value: 'adult',         label: 'Adult learner' },
+];
+
+export const EXAM_OPTIONS: Options<ExamTarget> = [
+  { value: 'none',   label: 'No particular exam' },
+  { value: 'boards', label: 'School board exams' },
+  { value: 'jee',    label: 'JEE' },
+  { value: 'neet',   label: 'NEET' },
+  { value: 'sat',    label: 'SAT' },
+  { value: 'ap',     label: 'AP' },
+  { value: 'ielts',  label: 'IELTS' },
+];
+
+export const LANGUAGE_OPTIONS: Options<LanguageCode> = [
+  { value: 'en', label: 'English' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'ta', label: 'Tamil' },
+  { value: 'bn', label: 'Bengali' },
+];
+
+export const DEPTH_OPTIONS: Options<StudyDepth> = [
+  { value: 'brief',    label: 'Brief' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'detailed', label: 'In depth' },
+];
+
+export const DEFAULT_PROFILE: LearnerProfile = {
+  grade: 'class-12',
+  examTarget: 'none',
+  language: 'en',
+  depth: 'standard',
+};
+
+const FIELDS: { [K in keyof LearnerProfile]: Options<LearnerProfile[K]> } = {
+  grade: GRADE_OPTIONS,
+  examTarget: EXAM_OPTIONS,
+  language: LANGUAGE_OPTIONS,
+  depth: DEPTH_OPTIONS,
+};
+
+/** Display name of one profile setting */
+export function labelOf<K extends keyof LearnerProfile>(field: K, value: LearnerProfile[K]): string {
+  return (FIELDS[field] as Options<string>).find(o => o.value === value)?.label ?? value;
+}
+
+/** Whether a value (e.g. from a request body or synced data) is a complete, valid profile */
+export function isLearnerProfile(value: unknown): value is LearnerProfile {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return (Object.keys(FIELDS) as (keyof LearnerProfile)[]).every(field =>
+    (FIELDS[field] as Options<string>).some(o => o.value === record[field])
+  );
+}
+
+/** Compact, stable form of a profile for cache keys, e.g. `class-12.jee.en.standard` */
+export const audienceKey = (profile: LearnerProfile) =>
+  [profile.grade, profile.examTarget, profile.language, profile.depth].join('.');
@@ -0,0 +1,49 @@
+import slugify from 'slugify';
+
+/** One `## ` section of a generated lesson */
+export interface LessonSection {
+  title: string;
+  slug: string;
+  body: string;
+}
+
+/** Sections of lessons cached before `## ` headings, which arrived as "1) Overview:" lines */
+export const LEGACY_HEADINGS: readonly string[] = [
+  'Overview', 'Analogy', 'Core Concepts', 'Formula & Derivation', 'Examples', 'Takeaways',
+];
+
+/** "1) Overview:", "2. Core concepts: …" — a label line, with anything after the colon */
+const LABEL_LINE = /^\s*(?:\d+[.)]\s*)?([^:\n]+):[ \t]*(.*)$/;
+
+/**
+ * Split a Markdown lesson into its `## ` sections. Only real `## ` lines
+ * outside code blocks start a section; a label line such as "1) Overview:"
+ * does too, but only when its label is one of `headings`, so numbered items
+ * inside a section ("1. Proton in a field: …") stay where they are.
+ */
+export function parseSections(markdown: string, headings: readonly string[] = LEGACY_HEADINGS): LessonSection[] {
+  const chunks: string[][] = [[]];
+  let inCode = false;
+  for (const line of markdown.trim().split('\n')) {
+    if (/^\s*```/.test(line)) inCode = !inCode;
+    const heading = inCode ? null : line.match(/^##\s+(.*)$/);
+    const label = inCode || heading ? null : line.match(LABEL_LINE);
+    const known = label ? headings.find(h => h.toLowerCase() === label[1].trim().toLowerCase()) : undefined;
+    if (heading) chunks.push([heading[1]]);
+    else if (label && known) chunks.push(label[2] ? [known, label[2]] : [known]);
+    else chunks[chunks.length - 1].push(line);
+  }
+
+  return chunks
+    .map(lines => lines.join('\n').trim())
+    .filter(Boolean)
+    .map(chunk => {
+      const [rawTitle, ...rest] = chunk.split('\n');
+      const title = rawTitle.replace(/:$/, '').trim();
+      return {
+        title,
+        slug:  slugify(title, { lower: true }),
+        body:  rest.join('\n').trim(),
+      };
+    });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { PracticeDifficulty, PracticeQuestion, PracticeSet } from '../types';
+import { buildPaper, ExamConfig, ExamQuestion, markQuestion } from './mockExam';
+
+const question = (id: string, kind: PracticeQuestion['kind'], difficulty: PracticeDifficulty): PracticeQuestion =>
+  kind === 'mcq' ? { id, kind, difficulty, prompt: id, options: ['a', 'b', 'c', 'd'], answer: 1, solution: 's' }
+  : kind === 'multi-select' ? { id, kind, difficulty, prompt: id, options: ['a', 'b', 'c', 'd'], answers: [0, 2], solution: 's' }
+  : { id, kind, difficulty, prompt: id, answer: 12, tolerance: 0.5, solution: 's' };
+
+const pool = (topic: string): PracticeSet => ({
+  title: topic,
+  questions: (['easy', 'medium', 'hard'] as const).flatMap(d =>
+    (['mcq', 'multi-select', 'numeric'] as const).map(k => question(`${topic}-${d}-${k}`, k, d))
+  ),
+});
+
+const pools = { kinematics: pool('kinematics'), optics: pool('optics') };
+
+const config: ExamConfig = {
+  subjectId: 'physics',
+  topicIds: ['kinematics', 'optics'],
+  questionCount: 10,
+  durationMinutes: 30,
+  mix: { easy: 0.3, medium: 0.5, hard: 0.2 },
+  seed: 1234,
+};
+
+describe('buildPaper', () => {
+  it('gives the same paper for the same config and pools', () => {
+    expect(buildPaper(config, pools)).toEqual(buildPaper(config, pools));
+  });
+
+  it('gives a different paper for another seed', () => {
+    const ids = (seed: number) => buildPaper({ ...config, seed }, pools).questions.map(q => q.examId);
+    expect(ids(1234)).not.toEqual(ids(99));
+  });
+
+  it('follows the difficulty mix and orders questions by section, easier first', () => {
+    const { questions } = buildPaper(config, pools);
+    expect(questions).toHaveLength(10);
+    const count = (d: PracticeDifficulty) => questions.filter(q => q.difficulty === d).length;
+    expect([count('easy'), count('medium'), count('hard')]).toEqual([3, 5, 2]);
+
+    const sections = questions.map(q => q.section);
+    expect(sections).toEqual([...sections].sort((a, b) =>
+      ['single', 'multiple', 'numeric'].indexOf(a) - ['single', 'multiple', 'numeric'].indexOf(b)));
+    expect(new Set(questions.map(q => q.examId)).size).toBe(10);
+  });
+
+  it('remaps answers when it shuffles options', () => {
+    for (const q of buildPaper(config, pools).questions) {
+      const original = pools[q.topicId as keyof typeof pools].questions.find(p => `${q.topicId}:${p.id}` === q.examId)!;
+      if (q.kind === 'mcq' && original.kind === 'mcq') {
+        expect(q.options[q.answer]).toBe(original.options[original.answer]);
+      } else if (q.kind === 'multi-select' && original.kind === 'multi-select') {
+        expect(q.answers.map(a => q.options[a]).sort()).toEqual(original.answers.map(a => original.options[a]).sort());
+      }
+    }
+  });
+
+  it('tops up from other difficulties and stops when the pools run out', () => {
+    const { questions } = buildPaper({ ...config, questionCount: 30, mix: { easy: 0, medium: 0, hard: 1 } }, pools);
+    expect(questions).toHaveLength(18);
+  });
+});
+
+describe('markQuestion', () => {
+  const exam = (q: PracticeQuestion, section: ExamQuestion['section']): ExamQuestion =>
+    ({ ...q, examId: `t:${q.id}`, topicId: 't', section });
+  const single = exam(question('s', 'mcq', 'easy'), 'single');
+  const multiple = exam(question('m', 'multi-select', 'medium'), 'multiple');
+  const numeric = exam(question('n', 'numeric', 'hard'), 'numeric');
+
+  it('scores single-correct and numerical questions +4 / −1 / 0', () => {
+    expect(markQuestion(single, 1)).toEqual({ marks: 4, outcome: 'correct' });
+    expect(markQuestion(single, 0)).toEqual({ marks: -1, outcome: 'wrong' });
+    expect(markQuestion(single, undefined)).toEqual({ marks: 0, outcome: 'unanswered' });
+    expect(markQuestion(numeric, 12.4)).toEqual({ marks: 4, outcome: 'correct' });
+    expect(markQuestion(numeric, 13)).toEqual({ marks: -1, outcome: 'wrong' });
+  });
+
+  it('gives partial marks for a subset of the correct options and −2 for any wrong one', () => {
+    expect(markQuestion(multiple, [0, 2])).toEqual({ marks: 4, outcome: 'correct' });
+    expect(markQuestion(multiple, [2])).toEqual({ marks: 1, outcome: 'partial' });
+    expect(markQuestion(multiple, [0, 1])).toEqual({ marks: -2, outcome: 'wrong' });
+    expect(markQuestion(multiple, [])).toEqual({ marks: 0, outcome: 'unanswered' });
+  });
+});
@@ -0,0 +1,340 @@
+import type { PracticeAnswer, PracticeDifficulty, PracticeQuestion, PracticeSet } from '../types';
+import { gradeAnswer, parsePracticeSet, PracticeSetError } from './practice';
+
+/** Share of the paper at each difficulty; the three add up to 1 */
+export type DifficultyMix = Record<PracticeDifficulty, number>;
+
+export interface ExamConfig {
+  subjectId: string;
+  topicIds: string[];
+  questionCount: number;
+  durationMinutes: number;
+  mix: DifficultyMix;
+  seed: number;
+}
+
+export type ExamSectionId = 'single' | 'multiple' | 'numeric';
+
+export type ExamQuestion = PracticeQuestion & {
+  /** Unique within the paper, unlike the pool question's own id */
+  examId: string;
+  topicId: string;
+  section: ExamSectionId;
+};
+
+export interface ExamPaper {
+  config: ExamConfig;
+  questions: ExamQuestion[];
+}
+
+/** Marks for one question kind, JEE style */
+interface Marking {
+  correct: number;
+  wrong: number;
+  /** Per correct option ticked, when no wrong option is (multiple-correct only) */
+  partial?: number;
+}
+
+/** JEE Main for single-correct and numerical answers, JEE Advanced for multiple-correct */
+export const JEE_MARKING: Record<ExamSectionId, Marking> = {
+  single:   { correct: 4, wrong: -1 },
+  multiple: { correct: 4, wrong: -2, partial: 1 },
+  numeric:  { correct: 4, wrong: -1 },
+};
+
+export const SECTIONS: { id: ExamSectionId; title: string }[] = [
+  { id: 'single',   title: 'Section A — Single correct' },
+  { id: 'multiple', title: 'Section B — Multiple correct' },
+  { id: 'numeric',  title: 'Section C — Numerical value' },
+];
+
+export const MIX_PRESETS: { id: string; label: string; mix: DifficultyMix }[] = [
+  { id: 'warm-up',  label: 'Warm-up',  mix: { easy: 0.5, medium: 0.4, hard: 0.1 } },
+  { id: 'balanced', label: 'Balanced', mix: { easy: 0.3, medium: 0.5, hard: 0.2 } },
+  { id: 'exam',     label: 'Exam day', mix: { easy: 0.2, medium: 0.5, hard: 0.3 } },
+  { id: 'tough',    label: 'Tough',    mix: { easy: 0.1, medium: 0.4, hard: 0.5 } },
+];
+
+const DIFFICULTIES: PracticeDifficulty[] = ['easy', 'medium', 'hard'];
+
+const sectionOf = (q: PracticeQuestion): ExamSectionId =>
+  q.kind === 'mcq' ? 'single' : q.kind === 'multi-select' ? 'multiple' : 'numeric';
+
+/** Small, fast seeded PRNG (mulberry32); the same seed always gives the same sequence */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** How many questions of each difficulty, rounding so they add up to `total` */
+function targets(mix: DifficultyMix, total: number): Record<PracticeDifficulty, number> {
+  const sum = DIFFICULTIES.reduce((s, d) => s + mix[d], 0) || 1;
+  const counts = { easy: 0, medium: 0, hard: 0 };
+  let assigned = 0;
+  for (const d of DIFFICULTIES) {
+    counts[d] = Math.floor((mix[d] / sum) * total);
+    assigned += counts[d];
+  }
+  // Hand out the remainder by largest fractional part
+  const byRemainder = [...DIFFICULTIES].sort((a, b) =>
+    ((mix[b] / sum) * total % 1) - ((mix[a] / sum) * total % 1)
+  );
+  for (let i = 0; assigned < total; i++, assigned++) counts[byRemainder[i % 3]]++;
+  return counts;
+}
+
+/** Shuffle a question's options, remapping its answer so grading still works */
+function shuffleOptions(q: PracticeQuestion, random: () => number): PracticeQuestion {
+  if (q.kind === 'numeric') return q;
+  const order = shuffle(q.options.map((_, i) => i), random);
+  const options = order.map(i => q.options[i]);
+  return q.kind === 'mcq'
+    ? { ...q, options, answer: order.indexOf(q.answer) }
+    : { ...q, options, answers: q.answers.map(a => order.indexOf(a)).sort((a, b) => a - b) };
+}
+
+/**
+ * Assemble a paper from per-topic question pools. Difficulty targets are
+ * filled round-robin across topics, topping up from other difficulties when
+ * a pool runs dry. Everything random comes from the seed, so the same config
+ * and pools always give the same paper.
+ */
+export function buildPaper(config: ExamConfig, pools: Record<string, PracticeSet>): ExamPaper {
+  const random = seededRandom(config.seed);
+  const remaining = new Map(config.topicIds.map(id => [id, shuffle(pools[id]?.questions ?? [], random)]));
+  const topicOrder = shuffle(config.topicIds, random);
+  const available = [...remaining.values()].reduce((n, qs) => n + qs.length, 0);
+  const total = Math.min(config.questionCount, available);
+  const wanted = targets(config.mix, total);
+
+  const picked: ExamQuestion[] = [];
+  let turn = 0;
+  const take = (difficulty: PracticeDifficulty | null): boolean => {
+    for (let tried = 0; tried < topicOrder.length; tried++) {
+      const topicId = topicOrder[turn++ % topicOrder.length];
+      const pool = remaining.get(topicId)!;
+      const index = pool.findIndex(q => difficulty === null || (q.difficulty ?? 'medium') === difficulty);
+      if (index === -1) continue;
+      const [question] = pool.splice(index, 1);
+      picked.push({
+        ...shuffleOptions(question, random),
+        examId: `${topicId}:${question.id}`,
+        topicId,
+        section: sectionOf(question),
+      });
+      return true;
+    }
+    return false;
+  };
+
+  for (const d of DIFFICULTIES) {
+    for (let i = 0; i < wanted[d]; i++) if (!take(d)) break;
+  }
+  while (picked.length < total && take(null));
+
+  // Papers run section by section, easier questions first within a section
+  const rank = (q: ExamQuestion) => DIFFICULTIES.indexOf(q.difficulty ?? 'medium');
+  const sectionIndex = (q: ExamQuestion) => SECTIONS.findIndex(s => s.id === q.section);
+  const questions = picked.sort((a, b) => sectionIndex(a) - sectionIndex(b) || rank(a) - rank(b));
+  return { config, questions };
+}
+
+export type Outcome = 'correct' | 'partial' | 'wrong' | 'unanswered';
+
+/** Marks for one response under JEE_MARKING */
+export function markQuestion(q: ExamQuestion, answer: PracticeAnswer | undefined): { marks: number; outcome: Outcome } {
+  const scheme = JEE_MARKING[q.section];
+  if (answer === undefined || (Array.isArray(answer) && answer.length === 0)) return { marks: 0, outcome: 'unanswered' };
+  if (gradeAnswer(q, answer)) return { marks: scheme.correct, outcome: 'correct' };
+
+  if (q.kind === 'multi-select' && scheme.partial && Array.isArray(answer)
+      && answer.every(a => q.answers.includes(a))) {
+    return { marks: scheme.partial * answer.length, outcome: 'partial' };
+  }
+  return { marks: scheme.wrong, outcome: 'wrong' };
+}
+
+export interface ScoreLine {
+  attempted: number;
+  correct: number;
+  wrong: number;
+  score: number;
+  maxScore: number;
+}
+
+export interface TopicScore extends ScoreLine {
+  topicId: string;
+  /** Share of the topic's marks earned; negative when penalties outweigh correct answers */
+  ratio: number;
+  /** Marks lost to negative marking */
+  penalty: number;
+}
+
+export interface ExamReport {
+  total: ScoreLine;
+  sections: (ScoreLine & { id: ExamSectionId; title: string })[];
+  /** Weakest topic first */
+  topics: TopicScore[];
+  marks: Record<string, { marks: number; outcome: Outcome }>;
+}
+
+const emptyLine = (): ScoreLine => ({ attempted: 0, correct: 0, wrong: 0, score: 0, maxScore: 0 });
+
+function addTo(line: ScoreLine, q: ExamQuestion, result: { marks: number; outcome: Outcome }) {
+  line.maxScore += JEE_MARKING[q.section].correct;
+  line.score += result.marks;
+  if (result.outcome !== 'unanswered') line.attempted++;
+  if (result.outcome === 'correct') line.correct++;
+  if (result.outcome === 'wrong') line.wrong++;
+}
+
+/** Section-wise and per-topic scores for a submitted paper */
+export function scorePaper(paper: ExamPaper, answers: Record<string, PracticeAnswer>): ExamReport {
+  const total = emptyLine();
+  const sections = new Map(SECTIONS.map(s => [s.id, { ...s, ...emptyLine() }]));
+  const topics = new Map<string, ScoreLine & { penalty: number }>();
+  const marks: ExamReport['marks'] = {};
+
+  for (const q of paper.questions) {
+    const result = markQuestion(q, answers[q.examId]);
+    marks[q.examId] = result;
+    addTo(total, q, result);
+    addTo(sections.get(q.section)!, q, result);
+    const topic = topics.get(q.topicId) ?? { ...emptyLine(), penalty: 0 };
+    addTo(topic, q, result);
+    if (result.marks < 0) topic.penalty -= result.marks;
+    topics.set(q.topicId, topic);
+  }
+
+  return {
+    total,
+    sections: [...sections.values()].filter(s => s.maxScore > 0),
+    topics: [...topics.entries()]
+      .map(([topicId, line]) => ({ topicId, ...line, ratio: line.maxScore ? line.score / line.maxScore : 0 }))
+      .sort((a, b) => a.ratio - b.ratio),
+    marks,
+  };
+}
+
+/**
+ * Query string of a paper's settings. It reproduces the paper only where
+ * the same question banks are at hand; share a PaperFile to hand out the
+ * exact questions.
+ */
+export function configToSearch(config: ExamConfig): string {
+  const params = new URLSearchParams({
+    topics: config.topicIds.join(','),
+    questions: String(config.questionCount),
+    minutes: String(config.durationMinutes),
+    mix: DIFFICULTIES.map(d => Math.round(config.mix[d] * 100)).join('-'),
+    seed: String(config.seed),
+  });
+  return `?${params}`;
+}
+
+/** Read a config back from its query string; null when it is incomplete */
+export function configFromSearch(subjectId: string, params: URLSearchParams): ExamConfig | null {
+  const topicIds = (params.get('topics') ?? '').split(',').filter(Boolean);
+  const questionCount = Number(params.get('questions'));
+  const durationMinutes = Number(params.get('minutes'));
+  const seed = Number(params.get('seed'));
+  const [easy, medium, hard] = (params.get('mix') ?? '').split('-').map(n => Number(n) / 100);
+  const valid = topicIds.length > 0
+    && Number.isInteger(questionCount) && questionCount > 0
+    && durationMinutes > 0
+    && Number.isInteger(seed)
+    && [easy, medium, hard].every(n => Number.isFinite(n) && n >= 0);
+  if (!valid) return null;
+  return { subjectId, topicIds, questionCount, durationMinutes, mix: { easy, medium, hard }, seed };
+}
+
+const PAPER_FORMAT = 'free-ed-exam-paper';
+/** Bump when the file layout changes; older files must stay importable */
+export const PAPER_FILE_VERSION = 1;
+
+/**
+ * A paper's settings with the question banks it was drawn from. Banks are
+ * generated for each learner and expire from caches, so only this file, not
+ * the seed alone, gives another student exactly the same paper.
+ */
+export interface PaperFile {
+  format: typeof PAPER_FORMAT;
+  version: number;
+  exportedAt: number;
+  config: ExamConfig;
+  pools: Record<string, PracticeSet>;
+}
+
+/** Thrown when a file is not an exam paper this app can open */
+export class PaperFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaperFileError';
+  }
+}
+
+export const paperFile = (config: ExamConfig, pools: Record<string, PracticeSet>): PaperFile => ({
+  format: PAPER_FORMAT,
+  version: PAPER_FILE_VERSION,
+  exportedAt: Date.now(),
+  config,
+  pools,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Parse and validate a paper file, throwing PaperFileError if it cannot be opened */
+export function parsePaperFile(text: string): PaperFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new PaperFileError('This is not an exam paper file (it is not valid JSON).');
+  }
+  if (!isObject(raw) || raw.format !== PAPER_FORMAT) {
+    throw new PaperFileError('This is not a Free-Ed exam paper file.');
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1) {
+    throw new PaperFileError('The file is damaged: its version is missing.');
+  }
+  if (raw.version > PAPER_FILE_VERSION) {
+    throw new PaperFileError('This paper was saved by a newer version of the app. Update the app to open it.');
+  }
+
+  // Settings go through the same checks as a shared link
+  const settings = raw.config;
+  const config = isObject(settings) && typeof settings.subjectId === 'string'
+    && Array.isArray(settings.topicIds) && isObject(settings.mix)
+    ? configFromSearch(settings.subjectId, new URLSearchParams(configToSearch(settings as unknown as ExamConfig)))
+    : null;
+  if (!config) throw new PaperFileError('The file is damaged: its settings are invalid.');
+  if (!isObject(raw.pools)) throw new PaperFileError('The file is damaged: its questions are missing.');
+  const pools: Record<string, PracticeSet> = {};
+  for (const [topicId, pool] of Object.entries(raw.pools)) {
+    try {
+      pools[topicId] = parsePracticeSet(JSON.stringify(pool));
+    } catch (err) {
+      if (!(err instanceof PracticeSetError)) throw err;
+      throw new PaperFileError(`The file is damaged: the questions for ${topicId} are invalid.`);
+    }
+  }
+  return { format: PAPER_FORMAT, version: raw.version, exportedAt: Number(raw.exportedAt) || 0, config, pools };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { PracticeQuestion } from '../types';
+import { gradeAnswer, parseNumericInput } from './practice';
+
+const mcq: PracticeQuestion = { id: 'q1', kind: 'mcq', prompt: 'p', options: ['a', 'b', 'c'], answer: 2, solution: 's' };
+const multi: PracticeQuestion = { id: 'q2', kind: 'multi-select', prompt: 'p', options: ['a', 'b', 'c', 'd'], answers: [0, 3], solution: 's' };
+const numeric: PracticeQuestion = { id: 'q3', kind: 'numeric', prompt: 'p', answer: 9.8, tolerance: 0.05, unit: 'm/s^2', solution: 's' };
+
+describe('parseNumericInput', () => {
+  it('reads plain, signed, decimal and exponent numbers', () => {
+    expect(parseNumericInput('42')).toEqual({ value: 42 });
+    expect(parseNumericInput(' -0.5 ')).toEqual({ value: -0.5 });
+    expect(parseNumericInput('.25')).toEqual({ value: 0.25 });
+    expect(parseNumericInput('6.02e23')).toEqual({ value: 6.02e23 });
+  });
+
+  it('accepts the question unit after the number, ignoring spaces', () => {
+    expect(parseNumericInput('9.8 m/s^2', 'm/s^2')).toEqual({ value: 9.8 });
+    expect(parseNumericInput('9.8m / s^2', 'm/s^2')).toEqual({ value: 9.8 });
+  });
+
+  it('rejects other trailing text instead of grading the number', () => {
+    expect(parseNumericInput('9.8 km/h', 'm/s^2')).toEqual({ error: 'Give the answer in m/s^2.' });
+    expect(parseNumericInput('12 apples')).toEqual({ error: 'Enter just the number.' });
+    expect(parseNumericInput('about 3')).toEqual({ error: 'Enter a number.' });
+    expect(parseNumericInput('')).toEqual({ error: 'Enter a number.' });
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('marks a single-correct question by option index', () => {
+    expect(gradeAnswer(mcq, 2)).toBe(true);
+    expect(gradeAnswer(mcq, 1)).toBe(false);
+  });
+
+  it('needs exactly the correct options of a multi-select question, in any order', () => {
+    expect(gradeAnswer(multi, [3, 0])).toBe(true);
+    expect(gradeAnswer(multi, [0])).toBe(false);
+    expect(gradeAnswer(multi, [0, 1, 3])).toBe(false);
+    expect(gradeAnswer(multi, [0, 0])).toBe(false);
+  });
+
+  it('accepts numeric answers within the tolerance', () => {
+    expect(gradeAnswer(numeric, 9.84)).toBe(true);
+    expect(gradeAnswer(numeric, 9.75)).toBe(true);
+    expect(gradeAnswer(numeric, 9.9)).toBe(false);
+    expect(gradeAnswer(numeric, [9.8])).toBe(false);
+  });
+
+  it('does not fail an exact answer on floating-point error', () => {
+    expect(gradeAnswer({ ...numeric, answer: 0.3, tolerance: 0 }, 0.1 + 0.2)).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import type { PracticeAnswer, PracticeQuestion, PracticeSet, PromptType } from '../types';
+
+/** Prompt types whose output is a PracticeSet in JSON rather than a Markdown lesson */
+export const PRACTICE_PROMPT_TYPES: readonly PromptType[] = ['interactive-practice', 'exam-mastery', 'question-bank'];
+
+export const isPracticeType = (type: PromptType) => PRACTICE_PROMPT_TYPES.includes(type);
+
+const MAX_OPTIONS = 8;
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+/** Thrown when generated practice JSON does not match the schema */
+export class PracticeSetError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid practice set: ${issues.join('; ')}`);
+    this.name = 'PracticeSetError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isIndex = (value: unknown, options: unknown[]) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < options.length;
+
+function checkOptions(q: Record<string, unknown>, where: string, issues: string[]): boolean {
+  const ok = Array.isArray(q.options) && q.options.length >= 2 && q.options.length <= MAX_OPTIONS
+    && q.options.every(isText);
+  if (!ok) issues.push(`${where}.options must list 2–${MAX_OPTIONS} non-empty strings`);
+  return ok;
+}
+
+function checkQuestion(q: unknown, where: string, issues: string[]) {
+  if (!isObject(q)) {
+    issues.push(`${where} must be an object`);
+    return;
+  }
+  if (!isText(q.id)) issues.push(`${where}.id is required`);
+  if (!isText(q.prompt)) issues.push(`${where}.prompt is required`);
+  if (!isText(q.solution)) issues.push(`${where}.solution is required`);
+  if (q.difficulty !== undefined && !DIFFICULTIES.includes(q.difficulty as string)) {
+    issues.push(`${where}.difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+
+  switch (q.kind) {
+    case 'mcq':
+      if (checkOptions(q, where, issues) && !isIndex(q.answer, q.options as string[])) {
+        issues.push(`${where}.answer must be the index of an option`);
+      }
+      break;
+    case 'multi-select':
+      if (!checkOptions(q, where, issues)) break;
+      if (!Array.isArray(q.answers) || q.answers.length === 0 || !q.answers.every(a => isIndex(a, q.options as string[]))) {
+        issues.push(`${where}.answers must list option indices`);
+      } else if (new Set(q.answers).size !== q.answers.length) {
+        issues.push(`${where}.answers has duplicates`);
+      }
+      break;
+    case 'numeric':
+      if (!isNumber(q.answer)) issues.push(`${where}.answer must be a number`);
+      if (!isNumber(q.tolerance) || q.tolerance < 0) issues.push(`${where}.tolerance must be a number ≥ 0`);
+      if (q.unit !== undefined && typeof q.unit !== 'string') issues.push(`${where}.unit must be a string`);
+      break;
+    default:
+      issues.push(`${where}.kind must be mcq, multi-select or numeric`);
+  }
+}
+
+/**
+ * Parse generated practice JSON, tolerating prose or code fences around the
+ * object. Throws PracticeSetError listing every schema violation.
+ */
+export function parsePracticeSet(text: string): PracticeSet {
+  const start = text.indexOf('{'), end = text.lastIndexOf('}') + 1;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.slice(start, end));
+  } catch {
+    throw new PracticeSetError(['the response is not a JSON object']);
+  }
+
+  const issues: string[] = [];
+  if (!isObject(raw)) throw new PracticeSetError(['the response is not a JSON object']);
+  if (!isText(raw.title)) issues.push('title is required');
+  if (raw.tips !== undefined && !(Array.isArray(raw.tips) && raw.tips.every(isText))) {
+    issues.push('tips must be a list of strings');
+  }
+  if (!Array.isArray(raw.questions) || raw.questions.length === 0) {
+    issues.push('questions must be a non-empty list');
+  } else {
+    raw.questions.forEach((q, i) => checkQuestion(q, `questions[${i}]`, issues));
+    const ids = raw.questions.map(q => (isObject(q) ? q.id : undefined));
+    if (new Set(ids).size !== ids.length) issues.push('question ids must be unique');
+  }
+  if (issues.length > 0) throw new PracticeSetError(issues);
+  return raw as unknown as PracticeSet;
+}
+
+/**
+ * Read a typed numeric answer. The unit may be repeated after the number
+ * ("9.8 m/s^2"); any other trailing text is rejected so a wrong unit is
+ * never graded as a right number.
+ */
+export function parseNumericInput(input: string, unit?: string): { value: number } | { error: string } {
+  const match = input.trim().match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(.*)$/i);
+  if (!match) return { error: 'Enter a number.' };
+  const [, number, rest] = match;
+  const normalize = (s: string) => s.replace(/\s+/g, '');
+  if (rest && (!unit || normalize(rest) !== normalize(unit))) {
+    return { error: unit ? `Give the answer in ${unit}.` : 'Enter just the number.' };
+  }
+  return { value: Number(number) };
+}
+
+/** Whether an answer is right; numeric answers count within the question's tolerance */
+export function gradeAnswer(question: PracticeQuestion, answer: PracticeAnswer): boolean {
+  switch (question.kind) {
+    case 'mcq':
+      return answer === question.answer;
+    case 'multi-select': {
+      const chosen = new Set(Array.isArray(answer) ? answer : [answer]);
+      return chosen.size === question.answers.length && question.answers.every(a => chosen.has(a));
+    }
+    case 'numeric':
+      // A hair of slack so 0.1 + 0.2 style float error never fails an exact answer
+      return typeof answer === 'number'
+        && Math.abs(answer - question.answer) <= question.tolerance + 1e-9 * Math.max(1, Math.abs(question.answer));
+  }
+}
@@ -0,0 +1,72 @@
+import type { LearnerProfile } from '../types';
+import { DEFAULT_PROFILE, isLearnerProfile } from './learnerProfile';
+
+const STORAGE_KEY = 'learnerProfile';
+/** Bump when the stored shape changes */
+const PROFILE_VERSION = 1;
+
+/** The profile with when it was last changed, so synced copies can be compared */
+export interface StoredProfile {
+  version: number;
+  profile: LearnerProfile;
+  updatedAt: number;
+}
+
+/** The student's learner profile, persisted in localStorage */
+export class ProfileStore {
+  private stored: StoredProfile | null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as StoredProfile | null;
+      this.stored = stored?.version === PROFILE_VERSION && isLearnerProfile(stored.profile) ? stored : null;
+    } catch {
+      this.stored = null;
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private save(stored: StoredProfile | null) {
+    this.stored = stored;
+    if (stored) localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    else localStorage.removeItem(STORAGE_KEY);
+    this.listeners.forEach(l => l());
+  }
+
+  /** The chosen profile, or the default until the student picks one */
+  get profile(): LearnerProfile {
+    return this.stored?.profile ?? DEFAULT_PROFILE;
+  }
+
+  /** Whether the student has chosen a profile yet */
+  get isSet(): boolean {
+    return this.stored !== null;
+  }
+
+  /** The stored document, e.g. for sync; null while the default is in use */
+  all(): StoredProfile | null {
+    return this.stored;
+  }
+
+  set(profile: LearnerProfile) {
+    this.save({ version: PROFILE_VERSION, profile, updatedAt: Date.now() });
+  }
+
+  /** Adopt a profile from elsewhere if it was changed more recently than ours */
+  merge(theirs: StoredProfile) {
+    if (!isLearnerProfile(theirs.profile) || theirs.updatedAt <= (this.stored?.updatedAt ?? 0)) return;
+    this.save({ version: PROFILE_VERSION, profile: theirs.profile, updatedAt: theirs.updatedAt });
+  }
+
+  /** Forget the profile on this device */
+  clear() {
+    this.save(null);
+  }
+}
+
+export const profileStore = new ProfileStore();
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { migrateProgress, PROGRESS_VERSION, ProgressStore } from './progressService';
+
+describe('migrateProgress', () => {
+  it('returns current data unchanged', () => {
+    const data = { version: PROGRESS_VERSION, topics: { friction: { views: 2, practice: { answered: 4, correct: 3 } } } };
+    expect(migrateProgress(data)).toEqual(data);
+  });
+
+  it('upgrades the legacy unversioned shape', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1000);
+    expect(migrateProgress({ completed: ['vectors', 'units'], inProgress: 'kinematics' })).toEqual({
+      version: 1,
+      topics: {
+        vectors: { views: 0, practice: { answered: 0, correct: 0 }, completedAt: 1000, completedBy: 'manual' },
+        units: { views: 0, practice: { answered: 0, correct: 0 }, completedAt: 1000, completedBy: 'manual' },
+        kinematics: { views: 1, practice: { answered: 0, correct: 0 } },
+      },
+    });
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a legacy in-progress topic that was also completed', () => {
+    const { topics } = migrateProgress({ completed: ['units'], inProgress: 'units' });
+    expect(topics.units).toMatchObject({ views: 1, completedBy: 'manual' });
+  });
+
+  it('rejects data that is not an object or is from a newer app', () => {
+    expect(() => migrateProgress(null)).toThrow('not an object');
+    expect(() => migrateProgress('{}')).toThrow('not an object');
+    expect(() => migrateProgress({ version: PROGRESS_VERSION + 1, topics: {} })).toThrow('newer than this app');
+  });
+});
+
+describe('ProgressStore', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('migrates stored data when it loads', () => {
+    localStorage.setItem('topicProgress', JSON.stringify({ completed: ['units'], inProgress: null }));
+    expect(new ProgressStore().status('units')).toBe('completed');
+    expect(JSON.parse(localStorage.getItem('topicProgress')!).version).toBe(PROGRESS_VERSION);
+  });
+
+  it('parks unreadable data in a backup instead of overwriting it', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('topicProgress', '{not json');
+    expect(new ProgressStore().all().topics).toEqual({});
+    expect(localStorage.getItem('topicProgress.backup')).toBe('{not json');
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the later of a completion and an unticking when merging', () => {
+    const store = new ProgressStore();
+    store.merge({ units: { views: 1, practice: { answered: 0, correct: 0 }, uncompletedAt: 2000 } });
+    store.merge({ units: { views: 3, practice: { answered: 5, correct: 5 }, completedAt: 1000, completedBy: 'manual' } });
+    expect(store.status('units')).toBe('in-progress');
+    expect(store.get('units')).toMatchObject({ views: 3, practice: { answered: 5 } });
+
+    store.merge({ units: { views: 0, practice: { answered: 0, correct: 0 }, completedAt: 3000, completedBy: 'practice' } });
+    expect(store.status('units')).toBe('completed');
+  });
+});
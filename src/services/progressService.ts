@@ -0,0 +1,223 @@
+import { getTopicById } from '../data/curriculum';
+import { abilityFromCounts, priorAbility, updateAbility, type PracticeResult, type TopicEstimate } from './learnerModel';
+
+const STORAGE_KEY = 'topicProgress';
+/** Where unreadable progress data is parked instead of being overwritten */
+const BACKUP_KEY = 'topicProgress.backup';
+
+/** Bump and add a migration below when the stored shape changes */
+export const PROGRESS_VERSION = 1;
+
+/** Practice accuracy, over at least this many answers, that completes a topic */
+const MASTERY_ACCURACY = 0.8;
+const MASTERY_MIN_ANSWERS = 5;
+
+export interface TopicProgress {
+  /** Lessons generated or reopened for the topic */
+  views: number;
+  lastViewedAt?: number;
+  /** Cumulative practice answers */
+  practice: {
+    answered: number;
+    correct: number;
+    lastAt?: number;
+    /** Learner-model ability; missing for practice recorded before the model existed */
+    ability?: number;
+  };
+  completedAt?: number;
+  /** Whether the student ticked it off or practice results earned it */
+  completedBy?: 'manual' | 'practice';
+  /** When the student last unticked it, so an older completion synced from elsewhere doesn't return */
+  uncompletedAt?: number;
+}
+
+export interface ProgressData {
+  version: number;
+  topics: Record<string, TopicProgress>;
+}
+
+export type TopicProgressStatus = 'completed' | 'in-progress' | 'not-started';
+
+const emptyProgress = (): TopicProgress => ({ views: 0, practice: { answered: 0, correct: 0 } });
+
+/** The completion state of whichever side ticked or unticked the topic last */
+function latestCompletion(ours: TopicProgress, theirs: TopicProgress): Partial<TopicProgress> {
+  const changedAt = (p: TopicProgress) => Math.max(p.completedAt ?? 0, p.uncompletedAt ?? 0);
+  const { completedAt, completedBy, uncompletedAt } = changedAt(theirs) > changedAt(ours) ? theirs : ours;
+  if (completedAt) return { completedAt, completedBy };
+  return uncompletedAt ? { uncompletedAt } : {};
+}
+
+/** Shape written by the first topic panel: `{ completed: string[], inProgress: string | null }` */
+interface LegacyProgress {
+  completed?: string[];
+  inProgress?: string | null;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from. Version 0 is the legacy
+ * unversioned shape.
+ */
+const migrations: Record<number, (data: never) => object> = {
+  0: (legacy: LegacyProgress): ProgressData => {
+    const topics: Record<string, TopicProgress> = {};
+    const now = Date.now();
+    (legacy.completed ?? []).forEach(id => {
+      topics[id] = { ...emptyProgress(), completedAt: now, completedBy: 'manual' };
+    });
+    if (legacy.inProgress) {
+      topics[legacy.inProgress] = { ...(topics[legacy.inProgress] ?? emptyProgress()), views: 1 };
+    }
+    return { version: 1, topics };
+  },
+};
+
+/** Upgrade stored data to the current version, or throw if that is impossible */
+export function migrateProgress(raw: unknown): ProgressData {
+  if (typeof raw !== 'object' || raw === null) throw new Error('progress data is not an object');
+  let data = raw as { version?: unknown };
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > PROGRESS_VERSION) {
+    throw new Error(`progress data is version ${version}, newer than this app (${PROGRESS_VERSION})`);
+  }
+  while (version < PROGRESS_VERSION) {
+    data = migrations[version](data as never);
+    version++;
+  }
+  return data as ProgressData;
+}
+
+/** Per-topic learning progress, persisted in localStorage */
+export class ProgressStore {
+  private data: ProgressData;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  private load(): ProgressData {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return { version: PROGRESS_VERSION, topics: {} };
+    try {
+      const data = migrateProgress(JSON.parse(stored));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      return data;
+    } catch (err) {
+      console.warn('Could not read saved progress, starting afresh:', err);
+      localStorage.setItem(BACKUP_KEY, stored);
+      return { version: PROGRESS_VERSION, topics: {} };
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private update(topicId: string, change: (progress: TopicProgress) => TopicProgress) {
+    this.data = {
+      ...this.data,
+      topics: { ...this.data.topics, [topicId]: change(this.get(topicId)) },
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    this.listeners.forEach(l => l());
+  }
+
+  get(topicId: string): TopicProgress {
+    return this.data.topics[topicId] ?? emptyProgress();
+  }
+
+  /** The full stored document, e.g. for export */
+  all(): ProgressData {
+    return this.data;
+  }
+
+  status(topicId: string): TopicProgressStatus {
+    const progress = this.data.topics[topicId];
+    if (!progress) return 'not-started';
+    if (progress.completedAt) return 'completed';
+    return progress.views > 0 || progress.practice.answered > 0 ? 'in-progress' : 'not-started';
+  }
+
+  completedIds(): Set<string> {
+    return new Set(Object.keys(this.data.topics).filter(id => this.data.topics[id].completedAt));
+  }
+
+  /** Share of the given topics that are completed, from 0 to 1 */
+  completion(topicIds: string[]): number {
+    if (topicIds.length === 0) return 0;
+    return topicIds.filter(id => this.data.topics[id]?.completedAt).length / topicIds.length;
+  }
+
+  recordView(topicId: string) {
+    this.update(topicId, p => ({ ...p, views: p.views + 1, lastViewedAt: Date.now() }));
+  }
+
+  /** Learner-model view of a topic: its ability estimate and how much evidence backs it */
+  estimate(topicId: string): TopicEstimate {
+    const { practice, views, completedAt } = this.get(topicId);
+    const topic = getTopicById(topicId);
+    const prior = topic ? priorAbility(topic) : 0;
+    return {
+      ability: practice.ability ?? abilityFromCounts(prior, practice.correct, practice.answered),
+      answered: practice.answered,
+      completed: Boolean(completedAt),
+      viewed: views > 0,
+    };
+  }
+
+  /** Add graded practice answers; enough accurate answers complete the topic */
+  recordPractice(topicId: string, results: PracticeResult[]) {
+    if (results.length === 0) return;
+    const { ability } = this.estimate(topicId);
+    this.update(topicId, p => {
+      const practice = {
+        answered: p.practice.answered + results.length,
+        correct: p.practice.correct + results.filter(r => r.correct).length,
+        lastAt: Date.now(),
+        ability: updateAbility(ability, p.practice.answered, results),
+      };
+      const mastered = !p.completedAt
+        && practice.answered >= MASTERY_MIN_ANSWERS
+        && practice.correct / practice.answered >= MASTERY_ACCURACY;
+      if (!mastered) return { ...p, practice };
+      const { uncompletedAt, ...rest } = p;
+      return { ...rest, practice, completedAt: Date.now(), completedBy: 'practice' };
+    });
+  }
+
+  /** Combine progress from elsewhere, keeping the furthest practice and the latest (un)ticking of each topic */
+  merge(topics: Record<string, TopicProgress>) {
+    const next = { ...this.data.topics };
+    for (const [id, theirs] of Object.entries(topics)) {
+      const ours = next[id] ?? emptyProgress();
+      next[id] = {
+        views: Math.max(ours.views, theirs.views),
+        lastViewedAt: Math.max(ours.lastViewedAt ?? 0, theirs.lastViewedAt ?? 0) || undefined,
+        practice: ours.practice.answered >= theirs.practice.answered ? ours.practice : theirs.practice,
+        ...latestCompletion(ours, theirs),
+      };
+    }
+    this.data = { ...this.data, topics: next };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    this.listeners.forEach(l => l());
+  }
+
+  markComplete(topicId: string) {
+    this.update(topicId, ({ uncompletedAt, ...rest }) => ({ ...rest, completedAt: Date.now(), completedBy: 'manual' }));
+  }
+
+  markIncomplete(topicId: string) {
+    this.update(topicId, ({ completedAt, completedBy, ...rest }) => ({ ...rest, uncompletedAt: Date.now() }));
+  }
+
+  /** Forget all progress on this device */
+  clear() {
+    this.data = { version: PROGRESS_VERSION, topics: {} };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    this.listeners.forEach(l => l());
+  }
+}
+
+export const progressStore = new ProgressStore();
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { importSession, parseSessionFile, SESSION_FILE_VERSION, SessionFileError } from './sessionFile';
+import { progressStore } from './progressService';
+
+const validFile = () => ({
+  format: 'free-ed-session',
+  version: SESSION_FILE_VERSION,
+  exportedAt: 3000,
+  session: { id: 's1', startedAt: 1000, updatedAt: 2000, viewedTopics: ['units'], generatedContent: ['l1'] },
+  lessons: [{
+    id: 'l1', sessionId: 's1', subjectId: 'physics', topicId: 'units', promptType: 'explain-simply',
+    title: 'Units', content: '## Overview\nSI units.', createdAt: 1500,
+    followUps: [{ id: 'q1', question: 'Why seconds?', contentType: 'explanation' }],
+  }],
+  chats: { units: [{ id: 't1', role: 'user', content: 'Hi', createdAt: 1600 }] },
+  progress: { units: { views: 2, practice: { answered: 5, correct: 5 }, completedAt: 1700, completedBy: 'practice' } },
+});
+
+const parseError = (value: unknown) => {
+  try {
+    parseSessionFile(typeof value === 'string' ? value : JSON.stringify(value));
+  } catch (err) {
+    if (err instanceof SessionFileError) return err.message;
+    throw err;
+  }
+  throw new Error('expected a SessionFileError');
+};
+
+describe('parseSessionFile', () => {
+  it('returns a valid file as it is', () => {
+    expect(parseSessionFile(JSON.stringify(validFile()))).toEqual(validFile());
+  });
+
+  it('still reads version 1 files, which also listed topic titles', () => {
+    const v1 = { ...validFile(), version: 1, topics: [{ id: 'units', title: 'Units', subjectId: 'physics' }] };
+    expect(parseSessionFile(JSON.stringify(v1)).session).toEqual(validFile().session);
+  });
+
+  it('accepts chat turns that quote a section of the lesson', () => {
+    const file = validFile();
+    const quoted = { ...file.chats.units[0], quote: { section: 'Overview', text: 'SI units.' } };
+    expect(parseSessionFile(JSON.stringify({ ...file, chats: { units: [quoted] } })).chats.units[0].quote)
+      .toEqual(quoted.quote);
+  });
+
+  it('rejects files that are not session exports', () => {
+    expect(parseError('not json')).toBe('This is not a session file (it is not valid JSON).');
+    expect(parseError({ ...validFile(), format: 'something-else' })).toBe('This is not a Free-Ed session file.');
+    expect(parseError({ ...validFile(), version: undefined })).toBe('The file is damaged: its version is missing.');
+    expect(parseError({ ...validFile(), version: SESSION_FILE_VERSION + 1 })).toMatch(/newer version of the app/);
+  });
+
+  it('names the part of a damaged file that is wrong', () => {
+    const file = validFile();
+    expect(parseError({ ...file, lessons: [{ ...file.lessons[0], sessionId: 'other' }] }))
+      .toBe('The file is damaged: lesson 1 belongs to another session.');
+    expect(parseError({ ...file, lessons: [] })).toBe('The file is damaged: some lessons are missing.');
+    expect(parseError({ ...file, chats: { units: [{ ...file.chats.units[0], role: 'system' }] } }))
+      .toBe('The file is damaged: chat message 1 for units has an unknown role.');
+    expect(parseError({ ...file, chats: { units: [{ ...file.chats.units[0], quote: { section: 'Overview' } }] } }))
+      .toBe('The file is damaged: chat message 1 for units has an invalid quote.');
+    expect(parseError({ ...file, progress: { units: { views: 1, practice: {} } } }))
+      .toBe('The file is damaged: progress for units has invalid practice results.');
+  });
+});
+
+describe('importSession', () => {
+  beforeEach(() => progressStore.clear());
+
+  it('leaves progress alone unless asked to import it', async () => {
+    await importSession(parseSessionFile(JSON.stringify(validFile())));
+    expect(progressStore.status('units')).toBe('not-started');
+
+    await importSession(parseSessionFile(JSON.stringify(validFile())), { progress: true });
+    expect(progressStore.status('units')).toBe('completed');
+  });
+});
@@ -0,0 +1,159 @@
+import type { ChatTurn, FollowUpQuestion, SessionLesson, UserSession } from '../types';
+import { historyStore } from './historyService';
+import { chatStore } from './chatService';
+import { progressStore, TopicProgress } from './progressService';
+
+const FORMAT = 'free-ed-session';
+/**
+ * Bump when the file layout changes; older files must stay importable.
+ * Version 1 also listed the session's topic titles, which nothing read.
+ */
+export const SESSION_FILE_VERSION = 2;
+
+/**
+ * A study session packed into one portable file: the session itself, every
+ * lesson generated in it (with its follow-up questions), the tutor chats and
+ * the progress for the topics it touched.
+ */
+export interface SessionFile {
+  format: typeof FORMAT;
+  version: number;
+  exportedAt: number;
+  session: UserSession;
+  lessons: SessionLesson[];
+  chats: Record<string, ChatTurn[]>;
+  progress: Record<string, TopicProgress>;
+}
+
+/** Thrown when a file is not a session export this app can read */
+export class SessionFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionFileError';
+  }
+}
+
+export async function exportSession(sessionId: string): Promise<SessionFile> {
+  const session = (await historyStore.sessions()).find(s => s.id === sessionId);
+  if (!session) throw new SessionFileError('That session is no longer in your history.');
+  const lessons = await historyStore.lessons(session.id);
+  const topicIds = [...new Set([...session.viewedTopics, ...lessons.map(l => l.topicId)])];
+
+  return {
+    format: FORMAT,
+    version: SESSION_FILE_VERSION,
+    exportedAt: Date.now(),
+    session,
+    lessons,
+    chats: Object.fromEntries(
+      topicIds.filter(id => chatStore.getThread(id).length > 0).map(id => [id, chatStore.getThread(id)])
+    ),
+    progress: Object.fromEntries(topicIds.map(id => [id, progressStore.get(id)])),
+  };
+}
+
+/** Save a session file through the browser's download prompt */
+export function downloadSessionFile(file: SessionFile) {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `free-ed-session-${new Date(file.session.startedAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+function check(condition: boolean, what: string): asserts condition {
+  if (!condition) throw new SessionFileError(`The file is damaged: ${what}.`);
+}
+
+function checkFollowUp(q: unknown, where: string): asserts q is FollowUpQuestion {
+  check(isObject(q) && isString(q.id) && isString(q.question) && isString(q.contentType), `${where} is malformed`);
+}
+
+function checkLesson(l: unknown, sessionId: string, i: number): asserts l is SessionLesson {
+  const where = `lesson ${i + 1}`;
+  check(isObject(l), `${where} is not an object`);
+  check(isString(l.id) && isString(l.subjectId) && isString(l.topicId), `${where} is missing its ids`);
+  check(l.sessionId === sessionId, `${where} belongs to another session`);
+  check(isString(l.promptType) && isString(l.title) && isString(l.content), `${where} is missing its text`);
+  check(l.question === undefined || isString(l.question), `${where} has an invalid question`);
+  check(isNumber(l.createdAt), `${where} has no date`);
+  if (l.followUps !== undefined) {
+    check(Array.isArray(l.followUps), `${where} has invalid follow-up questions`);
+    l.followUps.forEach((q, j) => checkFollowUp(q, `follow-up ${j + 1} of ${where}`));
+  }
+}
+
+function checkTurn(t: unknown, where: string): asserts t is ChatTurn {
+  check(isObject(t) && isString(t.id) && isString(t.content) && isNumber(t.createdAt), `${where} is malformed`);
+  check(t.role === 'user' || t.role === 'assistant', `${where} has an unknown role`);
+  check(t.quote === undefined || (isObject(t.quote) && isString(t.quote.section) && isString(t.quote.text)),
+    `${where} has an invalid quote`);
+}
+
+function checkProgress(p: unknown, where: string): asserts p is TopicProgress {
+  check(isObject(p) && isNumber(p.views), `${where} is malformed`);
+  check(isObject(p.practice) && isNumber(p.practice.answered) && isNumber(p.practice.correct), `${where} has invalid practice results`);
+  check(p.completedAt === undefined || isNumber(p.completedAt), `${where} has an invalid completion date`);
+}
+
+/** Parse and validate a session file, throwing SessionFileError if it cannot be imported */
+export function parseSessionFile(text: string): SessionFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SessionFileError('This is not a session file (it is not valid JSON).');
+  }
+  if (!isObject(raw) || raw.format !== FORMAT) {
+    throw new SessionFileError('This is not a Free-Ed session file.');
+  }
+  if (!isNumber(raw.version) || raw.version < 1) {
+    throw new SessionFileError('The file is damaged: its version is missing.');
+  }
+  if (raw.version > SESSION_FILE_VERSION) {
+    throw new SessionFileError('This session was saved by a newer version of the app. Update the app to open it.');
+  }
+
+  const { session, lessons, chats, progress } = raw;
+  check(isObject(session) && isString(session.id), 'the session is missing');
+  check(isNumber(session.startedAt) && isNumber(session.updatedAt), 'the session has no dates');
+  check(isStringList(session.viewedTopics) && isStringList(session.generatedContent), 'the session topic list is invalid');
+  check(Array.isArray(lessons), 'the lessons are missing');
+  lessons.forEach((l, i) => checkLesson(l, session.id as string, i));
+  const lessonIds = new Set((lessons as SessionLesson[]).map(l => l.id));
+  check((session.generatedContent as string[]).every(id => lessonIds.has(id)), 'some lessons are missing');
+  check(isObject(chats), 'the chats are missing');
+  Object.entries(chats).forEach(([topicId, turns]) => {
+    check(Array.isArray(turns), `the chat for ${topicId} is invalid`);
+    turns.forEach((t, i) => checkTurn(t, `chat message ${i + 1} for ${topicId}`));
+  });
+  check(isObject(progress), 'the progress is missing');
+  Object.entries(progress).forEach(([topicId, p]) => checkProgress(p, `progress for ${topicId}`));
+
+  return raw as unknown as SessionFile;
+}
+
+export interface ImportOptions {
+  /** Also merge the file's progress into this device's; off by default, since a shared file carries someone else's */
+  progress?: boolean;
+}
+
+/**
+ * Restore a session from a file. Its lessons join the local history and chats
+ * are merged into the local threads. Progress is merged, keeping the furthest
+ * state, only when `options.progress` asks for it.
+ */
+export async function importSession(file: SessionFile, options: ImportOptions = {}): Promise<UserSession> {
+  await historyStore.restore(file.session, file.lessons);
+  Object.entries(file.chats).forEach(([topicId, turns]) => chatStore.merge(topicId, turns));
+  if (options.progress) progressStore.merge(file.progress);
+  return file.session;
+}
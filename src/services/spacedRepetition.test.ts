@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { newReviewState, schedule } from './spacedRepetition';
+
+const DAY = 24 * 3600 * 1000;
+const now = Date.UTC(2025, 0, 1);
+
+describe('schedule', () => {
+  it('grows intervals 1 → 6 days → interval × ease for good answers', () => {
+    const first = schedule(newReviewState(now), 'good', now);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, ease: 2.5, due: now + DAY, lastReviewedAt: now });
+    const second = schedule(first, 'good', first.due);
+    expect(second).toMatchObject({ repetitions: 2, interval: 6 });
+    const third = schedule(second, 'good', second.due);
+    expect(third).toMatchObject({ repetitions: 3, interval: 15, due: second.due + 15 * DAY });
+  });
+
+  it('restarts a forgotten card within the sitting and counts the lapse', () => {
+    const learned = schedule(schedule(newReviewState(now), 'good', now), 'good', now);
+    const lapsed = schedule(learned, 'again', now);
+    expect(lapsed).toMatchObject({ repetitions: 0, interval: 0, lapses: 1, due: now + 10 * 60 * 1000 });
+    expect(lapsed.ease).toBeCloseTo(1.96);
+  });
+
+  it('shrinks the interval for hard answers and stretches it for easy ones', () => {
+    const state = { ...newReviewState(now), repetitions: 2, interval: 10 };
+    expect(schedule(state, 'hard', now).interval).toBe(12);
+    expect(schedule(state, 'good', now).interval).toBe(25);
+    expect(schedule(state, 'easy', now).interval).toBe(34);
+  });
+
+  it('never lets the ease fall below 1.3', () => {
+    let state = newReviewState(now);
+    for (let i = 0; i < 10; i++) state = schedule(state, 'again', now);
+    expect(state.ease).toBe(1.3);
+  });
+});
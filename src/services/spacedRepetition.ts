@@ -0,0 +1,65 @@
+import type { ReviewState } from '../types';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+const DAY_MS = 24 * 3600 * 1000;
+/** A forgotten card comes back this soon, within the same sitting */
+const RELEARN_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+const START_EASE = 2.5;
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+
+/** SM-2 response quality (0–5) for each button */
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const newReviewState = (now = Date.now()): ReviewState => ({
+  due: now,
+  interval: 0,
+  ease: START_EASE,
+  repetitions: 0,
+  lapses: 0,
+});
+
+/**
+ * Next review state after answering `grade`, following SM-2: the ease factor
+ * drifts with answer quality, intervals grow 1 → 6 days → interval × ease,
+ * and a lapse restarts the card. "Hard" and "easy" shrink or stretch the
+ * interval as in Anki's variant.
+ */
+export function schedule(state: ReviewState, grade: ReviewGrade, now = Date.now()): ReviewState {
+  const q = QUALITY[grade];
+  const ease = Math.max(MIN_EASE, state.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  if (grade === 'again') {
+    return { ...state, ease, repetitions: 0, interval: 0, lapses: state.lapses + 1, due: now + RELEARN_MS, lastReviewedAt: now };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let interval =
+    repetitions === 1 ? 1 :
+    repetitions === 2 ? 6 :
+    state.interval * (grade === 'hard' ? HARD_FACTOR : ease);
+  if (grade === 'easy') interval *= EASY_BONUS;
+  interval = Math.max(1, Math.round(interval));
+
+  return { ...state, ease, repetitions, interval, due: now + interval * DAY_MS, lastReviewedAt: now };
+}
+
+/** End of the local day containing `now`; everything due before it is in today's queue */
+export function endOfDay(now = Date.now()): number {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+}
+
+/** "10 min", "1 day", "3 weeks"… for the grade buttons */
+export function formatInterval(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${Math.max(1, minutes)} min`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 1) return `${Math.round(minutes / 60)} h`;
+  if (days < 14) return `${days} day${days === 1 ? '' : 's'}`;
+  if (days < 60) return `${Math.round(days / 7)} weeks`;
+  return `${Math.round(days / 30)} months`;
+}
@@ -0,0 +1,100 @@
+import type { VisualAid } from '../types';
+import { parseSections } from './lessonSections';
+
+/** Mermaid diagram types lessons may draw */
+export const MERMAID_DIAGRAMS: readonly string[] = [
+  'flowchart', 'graph', 'sequenceDiagram', 'classDiagram', 'stateDiagram', 'stateDiagram-v2',
+  'erDiagram', 'mindmap', 'timeline', 'pie', 'quadrantChart',
+];
+const MAX_SPEC_CHARS = 4000;
+
+/** Lines that reach outside the diagram: click handlers, links and init directives */
+const UNSAFE_LINE = /^\s*click\s|%%\{|\bhref\b|javascript:/i;
+/** HTML tags inside labels, except line breaks; arrows such as `<-->` are not tags */
+const HTML_TAG = /<\/?(?!br\b)[a-z][^>]*>/gi;
+const MERMAID_BLOCK = /^```mermaid[ \t]*\n([\s\S]*?)\n```/gm;
+const mermaidMatches = (markdown: string) => [...markdown.matchAll(MERMAID_BLOCK)];
+
+/** Strip whatever in a Mermaid spec could run script or load anything */
+export function sanitizeMermaid(spec: string): string {
+  return spec
+    .split('\n')
+    .filter(line => !UNSAFE_LINE.test(line))
+    .join('\n')
+    .replace(HTML_TAG, '')
+    .trim();
+}
+
+/** Problems that stop a (sanitised) spec from being drawn; empty when it looks drawable */
+export function checkMermaid(spec: string): string[] {
+  const first = spec.split('\n').map(l => l.trim()).find(l => l && !l.startsWith('%%'));
+  if (!first) return ['the diagram is empty'];
+  const problems: string[] = [];
+  const kind = first.split(/\s+/)[0];
+  if (!MERMAID_DIAGRAMS.includes(kind)) {
+    problems.push(`unknown diagram type "${kind}"; use one of ${MERMAID_DIAGRAMS.join(', ')}`);
+  }
+  if (spec.length > MAX_SPEC_CHARS) problems.push(`the diagram is longer than ${MAX_SPEC_CHARS} characters`);
+  return problems;
+}
+
+/** Specs of the ```mermaid blocks in a Markdown lesson */
+export const mermaidBlocks = (markdown: string): string[] =>
+  mermaidMatches(markdown).map(match => match[1]);
+
+/** Sanitise every ```mermaid block of a Markdown lesson in place */
+export const sanitizeMermaidBlocks = (markdown: string): string =>
+  markdown.replace(MERMAID_BLOCK, (_, spec: string) => `\`\`\`mermaid\n${sanitizeMermaid(spec)}\n\`\`\``);
+
+const DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const cells = (line: string) => line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(c => c.trim());
+
+type Table = { headers: string[]; rows: string[][] };
+
+/** GFM tables in some Markdown, with the lines each spans (`end` exclusive) */
+function tables(markdown: string): (Table & { start: number; end: number })[] {
+  const lines = markdown.split('\n');
+  const found: (Table & { start: number; end: number })[] = [];
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!lines[i].includes('|') || !DIVIDER.test(lines[i + 1])) continue;
+    const rows: string[][] = [];
+    let end = i + 2;
+    for (; end < lines.length && lines[end].includes('|'); end++) rows.push(cells(lines[end]));
+    found.push({ headers: cells(lines[i]), rows, start: i, end });
+    i = end - 1;
+  }
+  return found;
+}
+
+/** The first GFM table in some Markdown */
+export function parseTable(markdown: string): Table | null {
+  const [first] = tables(markdown);
+  return first ? { headers: first.headers, rows: first.rows } : null;
+}
+
+/** A lesson's main visual: its first drawable diagram, otherwise its first table */
+export function extractVisualAid(markdown: string): VisualAid | undefined {
+  const spec = mermaidBlocks(markdown).map(sanitizeMermaid).find(s => checkMermaid(s).length === 0);
+  if (spec) return { type: 'diagram', data: { spec } };
+  for (const section of parseSections(markdown)) {
+    const table = parseTable(section.body);
+    if (table) return { type: section.title === 'Comparison' ? 'comparison' : 'table', data: table };
+  }
+  return undefined;
+}
+
+/**
+ * Split a section's Markdown around the block `aid` was read from, so the
+ * section can draw the aid itself; null when the aid isn't in this section.
+ */
+export function splitAtVisualAid(markdown: string, aid: VisualAid): { before: string; after: string } | null {
+  if (aid.type === 'diagram') {
+    const block = mermaidMatches(markdown).find(m => sanitizeMermaid(m[1]) === aid.data.spec);
+    if (!block || block.index === undefined) return null;
+    return { before: markdown.slice(0, block.index), after: markdown.slice(block.index + block[0].length) };
+  }
+  const table = tables(markdown).find(t => t.headers.join('|') === aid.data.headers.join('|'));
+  if (!table) return null;
+  const lines = markdown.split('\n');
+  return { before: lines.slice(0, table.start).join('\n'), after: lines.slice(table.end).join('\n') };
+}
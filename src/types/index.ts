@@ -1,5 +1,63 @@
 // Define the types used across the application
 
+/** Supported prompt types */
+export type PromptType =
+  | 'explain-simply'
+  | 'visual-guide'
+  | 'interactive-practice'
+  | 'real-applications'
+  | 'deep-dive'
+  | 'exam-mastery'
+  | 'concept-map'
+  | 'common-mistakes'
+  | 'follow-up'
+  | 'follow-up-answer'
+  | 'follow-up-example'
+  | 'flashcards'
+  | 'question-bank'
+  | 'translate';
+
+/** Extra material a prompt can be grounded in */
+export interface GenerationContext {
+  /** The question the student asked or clicked */
+  question?: string;
+  /** The lesson the student was reading when they asked */
+  lesson?: string;
+  /** Subject the topic is taught in; picks the persona and outlines to generate with */
+  subject?: string;
+  /** How the student is doing on the topic; lessons and practice adapt to it */
+  level?: LearnerLevel;
+  /** Who the lesson is for; every prompt is written to it */
+  profile?: LearnerProfile;
+}
+
+export type GradeLevel =
+  | 'class-8' | 'class-9' | 'class-10' | 'class-11' | 'class-12' | 'undergraduate' | 'adult';
+export type ExamTarget = 'none' | 'boards' | 'jee' | 'neet' | 'sat' | 'ap' | 'ielts';
+export type LanguageCode = 'en' | 'hi' | 'ta' | 'bn';
+export type StudyDepth = 'brief' | 'standard' | 'detailed';
+
+/** The student's audience settings, chosen in the UI */
+export interface LearnerProfile {
+  grade: GradeLevel;
+  examTarget: ExamTarget;
+  language: LanguageCode;
+  depth: StudyDepth;
+}
+
+/** Learner-model band for a topic, see services/learnerModel */
+export type LearnerLevel = 'struggling' | 'steady' | 'strong';
+
+/** One message in a tutor chat thread */
+export interface ChatTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: number;
+  /** Lesson excerpt the student branched the question from */
+  quote?: { section: string; text: string };
+}
+
 export interface Topic {
   id: string;
   title: string;
@@ -8,6 +66,8 @@ export interface Topic {
   difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
   parentId?: string;
   relatedTopics?: string[];
+  /** Topics to learn before this one */
+  prerequisites?: string[];
 }
 
 export interface Subject {
@@ -24,22 +84,162 @@ export interface Content {
   type: 'explanation' | 'example' | 'question' | 'summary';
   title: string;
   content: string;
-  visualAid?: {
-    type: 'diagram' | 'table' | 'comparison';
-    data: any;
-  };
+  /** The lesson's main diagram or table, pulled out of its Markdown */
+  visualAid?: VisualAid;
 }
 
+/** A Mermaid diagram, or a table (a comparison when it sits under "## Comparison") */
+export type VisualAid =
+  | { type: 'diagram'; data: { spec: string } }
+  | { type: 'table' | 'comparison'; data: { headers: string[]; rows: string[][] } };
+
+/** What a follow-up asks for; each category is answered by its own prompt type */
+export type FollowUpCategory = 'explanation' | 'example' | 'question' | 'summary';
+
 export interface FollowUpQuestion {
   id: string;
   topicId: string;
   question: string;
-  contentType: 'explanation' | 'example' | 'question' | 'summary';
+  contentType: FollowUpCategory;
+  difficulty: PracticeDifficulty;
 }
 
+/** One sitting of study, from the first topic opened until a long pause */
 export interface UserSession {
   id: string;
+  startedAt: number;
+  updatedAt: number;
   lastTopicId?: string;
+  /** Topic ids in the order they were first opened */
   viewedTopics: string[];
+  /** Ids of the lessons produced in the session, oldest first */
   generatedContent: string[];
-}
\ No newline at end of file
+}
+
+/** A lesson exactly as it was generated, so it can be reopened without the AI */
+export interface SessionLesson {
+  id: string;
+  sessionId: string;
+  subjectId: string;
+  topicId: string;
+  promptType: PromptType;
+  title: string;
+  /** The follow-up question this lesson answers */
+  question?: string;
+  content: string;
+  /** Follow-up questions suggested after the lesson */
+  followUps?: FollowUpQuestion[];
+  createdAt: number;
+}
+export type UserRole = 'student' | 'teacher';
+
+/** A signed-in account as the server reports it */
+export interface User {
+  id: string;
+  email: string;
+  role: UserRole;
+  createdAt: number;
+}
+
+export type PracticeDifficulty = 'easy' | 'medium' | 'hard';
+
+interface PracticeQuestionBase {
+  id: string;
+  /** Markdown with LaTeX */
+  prompt: string;
+  /** Worked solution, revealed once the student has answered */
+  solution: string;
+  difficulty?: PracticeDifficulty;
+}
+
+/** One correct option out of several */
+export interface McqQuestion extends PracticeQuestionBase {
+  kind: 'mcq';
+  options: string[];
+  /** Index into `options` */
+  answer: number;
+}
+
+/** Every correct option must be ticked, and nothing else */
+export interface MultiSelectQuestion extends PracticeQuestionBase {
+  kind: 'multi-select';
+  options: string[];
+  answers: number[];
+}
+
+/** A number, accepted within ± `tolerance`, expressed in `unit` */
+export interface NumericQuestion extends PracticeQuestionBase {
+  kind: 'numeric';
+  answer: number;
+  tolerance: number;
+  unit?: string;
+}
+
+export type PracticeQuestion = McqQuestion | MultiSelectQuestion | NumericQuestion;
+
+/** Structured output of the practice prompt types */
+export interface PracticeSet {
+  title: string;
+  /** Strategy notes shown above the questions, Markdown */
+  tips?: string[];
+  questions: PracticeQuestion[];
+}
+
+/** What the student entered: an option index, a set of indices, or a number */
+export type PracticeAnswer = number | number[];
+
+/** Where a concept sits relative to the topic its map is drawn for */
+export type ConceptRole = 'topic' | 'prerequisite' | 'related' | 'advanced';
+
+export interface ConceptNode {
+  id: string;
+  label: string;
+  role: ConceptRole;
+  /** One sentence on how it connects to the topic */
+  note?: string;
+  /** Curriculum topic the node stands for, when there is one */
+  topicId?: string;
+}
+
+export interface ConceptEdge {
+  from: string;
+  to: string;
+  /** Verb phrase read from → to, e.g. "is needed for" */
+  label?: string;
+}
+
+/** Structured output of the concept-map prompt type */
+export interface ConceptMap {
+  title: string;
+  nodes: ConceptNode[];
+  edges: ConceptEdge[];
+  /** Node ids in the order to study them */
+  studyPath?: string[];
+}
+
+/** Spaced-repetition state of one flashcard (SM-2) */
+export interface ReviewState {
+  /** When the card is next due, epoch ms */
+  due: number;
+  /** Days until the next review after a successful recall */
+  interval: number;
+  ease: number;
+  /** Successful recalls in a row */
+  repetitions: number;
+  lapses: number;
+  lastReviewedAt?: number;
+}
+
+export interface Flashcard {
+  id: string;
+  subjectId: string;
+  topicId: string;
+  /** Markdown with LaTeX */
+  front: string;
+  back: string;
+  /** Cut from the lesson's sections, or written by the model */
+  source: 'lesson' | 'model';
+  createdAt: number;
+  updatedAt: number;
+  review: ReviewState;
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Origin of the AI proxy server; leave unset to use the same origin */
+  readonly VITE_API_BASE_URL?: string;
+}
@@ -1,3 +1,6 @@
+/// <reference types="vitest/config" />
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +10,17 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    proxy: {
+      // AI requests go to the local proxy in server/ (npm run server)
+      '/api': 'http://localhost:8787',
+    },
+  },
+  test: {
+    // The stores read localStorage as soon as they are imported
+    setupFiles: ['src/test/setup.ts'],
+    // Server code under test never reaches a real AI provider,
+    // and the module-level stores write somewhere other than the real DATA_DIR
+    env: { AI_PROVIDER: 'mock', DATA_DIR: join(tmpdir(), 'free-ed-test-data') },
+  },
 });